@@ -1,18 +1,14 @@
 import './App.css';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { bitable, IFieldMeta } from '@lark-base-open/js-sdk';
 import {
-  bitable,
-  FieldType,
-  IFieldMeta,
-  ITableMeta,
-} from '@lark-base-open/js-sdk';
-import {
+  AutoComplete,
   Button,
   Checkbox,
   Empty,
-  Input,
+  InputNumber,
   Modal,
-  Popconfirm,
+  Progress,
   Select,
   Spin,
   Tag,
@@ -24,34 +20,213 @@ import {
   IconCamera,
   IconClose,
   IconDeleteStroked,
+  IconFilter,
+  IconHistory,
+  IconInbox,
+  IconList,
+  IconLock,
   IconRefresh,
   IconSearch,
-  IconUndo,
 } from '@douyinfe/semi-icons';
-
-type TableBundle = {
-  meta: ITableMeta;
-  fields: IFieldMeta[];
-};
-
-type SnapshotField = {
-  id: string;
-  name: string;
-  type: FieldType;
-  property?: unknown;
-};
-
-type SnapshotTable = {
-  tableId: string;
-  tableName: string;
-  fields: SnapshotField[];
-};
-
-type Snapshot = {
-  label: string;
-  timestamp: string;
-  tables: SnapshotTable[];
-};
+import AuditLogPanel from './components/AuditLogPanel';
+import BulkRenameModal from './components/BulkRenameModal';
+import ClearValuesModal, {
+  ClearValuesGroup,
+} from './components/ClearValuesModal';
+import DeletionPlanModal from './components/DeletionPlanModal';
+import DependencyImpact from './components/DependencyImpact';
+import DuplicateFieldsPanel from './components/DuplicateFieldsPanel';
+import FieldUsageBadges from './components/FieldUsageBadges';
+import JobProgressPanel from './components/JobProgressPanel';
+import JournalRecoveryModal from './components/JournalRecoveryModal';
+import OperationReportPanel from './components/OperationReportPanel';
+import ProtectionPanel from './components/ProtectionPanel';
+import QuarantinePanel from './components/QuarantinePanel';
+import RecipePanel from './components/RecipePanel';
+import RecordFilterPanel from './components/RecordFilterPanel';
+import RiskConfirmModal from './components/RiskConfirmModal';
+import RiskSettingsPanel from './components/RiskSettingsPanel';
+import SchemaDiffPanel from './components/SchemaDiffPanel';
+import SnapshotDrawer from './components/SnapshotDrawer';
+import TypeConversionModal from './components/TypeConversionModal';
+import UsageScanProgress from './components/UsageScanProgress';
+import ViewManagerPanel from './components/ViewManagerPanel';
+import type {
+  Snapshot,
+  SnapshotKind,
+  SnapshotLibrary,
+  TableBundle,
+} from './types';
+import {
+  ArchiveTarget,
+  archivePlan,
+  isArchiveSuccessful,
+} from './utils/archive';
+import {
+  executeRenames,
+  RenameChange,
+  RenameTarget,
+  revertRenames,
+} from './utils/bulkRename';
+import { clearFieldValues, restoreBackedUpValues } from './utils/clearValues';
+import {
+  appendAuditEntriesToTable,
+  appendAuditEntry,
+  AuditAction,
+  AuditCounts,
+  AuditLog,
+  createAuditEntry,
+  createEmptyAuditLog,
+  createReportAuditEntry,
+  getActingUserId,
+  loadPersistedAuditLog,
+  markAuditEntriesSynced,
+  persistAuditLog,
+} from './utils/auditLog';
+import {
+  createJournal,
+  DeletionJournal,
+  getJournalEntries,
+  getJournalOwner,
+  loadPersistedJournal,
+  markJournalEntry,
+  persistJournal,
+} from './utils/deletionJournal';
+import {
+  buildDeletionPlan,
+  DeletionPlan,
+  fieldPlanKey,
+  getPlanOperations,
+  PLAN_SKIP_LABELS,
+  protectPlanItems,
+  PlanItem,
+  skipUnarchivedItems,
+  tablePlanKey,
+} from './utils/deletionPlan';
+import {
+  createDeletionTask,
+  toDeletionReportItem,
+} from './utils/deletionTasks';
+import {
+  buildDependencyGraph,
+  FieldRef,
+  findSelectionImpacts,
+} from './utils/dependencyGraph';
+import {
+  CleanupRecipe,
+  collectSelectionItems,
+  createEmptyRecipeLibrary,
+  createRecipe,
+  loadPersistedRecipes,
+  persistRecipes,
+  RecipeLibrary,
+  RecipePreview,
+  RecipeScope,
+  removeRecipe,
+  upsertRecipe,
+} from './utils/cleanupRecipes';
+import {
+  ContentFingerprints,
+  DuplicateGroup,
+  findDuplicateFields,
+  fingerprintTableContents,
+  mergeDuplicateFields,
+} from './utils/duplicateFields';
+import { matchTable, parseFieldQuery, suggestQuery } from './utils/fieldQuery';
+import { getFieldTypeLabel } from './utils/fieldTypes';
+import {
+  compareFieldUsage,
+  FieldUsageMap,
+  scanFieldUsage,
+  USAGE_SORT_OPTIONS,
+  UsageScanProgress as ScanProgress,
+  UsageSort,
+} from './utils/fieldUsage';
+import { JobProgress, runJob } from './utils/jobRunner';
+import {
+  countReport,
+  createReport,
+  OperationReport,
+  ReportItem,
+} from './utils/operationReport';
+import {
+  BackupProgress,
+  captureRecordBackup,
+  pruneRecordBackups,
+  RecordBackupTarget,
+} from './utils/recordBackup';
+import {
+  deleteRecordsInBatches,
+  findMatchingRecords,
+  RecordFilter,
+} from './utils/recordFilter';
+import {
+  restoreDeletedItems,
+  restoreDiffItem,
+  RollbackMode,
+  RollbackOutcome,
+  runRollback,
+} from './utils/rollback';
+import {
+  createEmptyProtectionList,
+  createProtectionGuard,
+  describeRule,
+  getPlanItemRule,
+  getTableContentRule,
+  loadPersistedProtection,
+  persistProtection,
+  ProtectionList,
+  ProtectionRule,
+} from './utils/protection';
+import {
+  createEmptyQuarantineList,
+  describeQuarantineItem,
+  getEntriesOlderThan,
+  loadPersistedQuarantine,
+  persistQuarantine,
+  pruneQuarantine,
+  quarantineItemKey,
+  quarantineItems,
+  QuarantineList,
+  restoreQuarantineEntry,
+  toDeletionSelection,
+} from './utils/quarantine';
+import {
+  assessRisk,
+  estimatePlanRecords,
+  loadRiskSettings,
+  persistRiskSettings,
+  RiskAssessment,
+  RiskSettings,
+} from './utils/riskTiers';
+import type { FieldDiff, TableDiff } from './utils/schemaDiff';
+import {
+  downloadSnapshotFile,
+  parseSnapshotFile,
+  SnapshotValidationReport,
+} from './utils/snapshotFile';
+import {
+  addSnapshot,
+  BRIDGE_LIBRARY_KEY,
+  buildSnapshot,
+  createEmptyLibrary,
+  createSnapshotId,
+  LEGACY_BRIDGE_SNAPSHOT_KEY,
+  loadPersistedLibrary,
+  normalizeLibrary,
+  persistLibrary,
+  removeSnapshot,
+  setRetention,
+  toSnapshotTable,
+  updateSnapshot,
+} from './utils/snapshotLibrary';
+import { loadTableBundles } from './utils/tableBundles';
+import {
+  ConversionChange,
+  convertFieldTypes,
+  revertConversions,
+} from './utils/typeConversion';
+import { captureViewConfigs, deleteViews, ViewTarget } from './utils/views';
 
 type RenderBundle = {
   bundle: TableBundle;
@@ -62,120 +237,30 @@ type RenderBundle = {
 
 type ThemeModeType = 'LIGHT' | 'DARK';
 
-const LOCAL_STORAGE_KEY = 'boom-table-shredder-snapshot';
-const BRIDGE_SNAPSHOT_KEY = 'boom.table-shredder.snapshot.v1';
-
-const BLOCKED_ROLLBACK_FIELD_TYPES: FieldType[] = [
-  FieldType.CreatedTime,
-  FieldType.ModifiedTime,
-  FieldType.CreatedUser,
-  FieldType.ModifiedUser,
-  FieldType.AutoNumber,
-];
-
-const NON_PORTABLE_ROLLBACK_FIELD_TYPES: Set<FieldType> = new Set([
-  FieldType.Lookup,
-  FieldType.SingleLink,
-  FieldType.DuplexLink,
-  FieldType.Formula,
-  FieldType.Barcode,
-]);
-
-const fieldTypeDictionary = FieldType as unknown as Record<number, string>;
-
-const FIELD_TYPE_LABELS: Partial<Record<FieldType, string>> = {
-  [FieldType.Text]: '文本',
-  [FieldType.Number]: '数字',
-  [FieldType.SingleSelect]: '单选',
-  [FieldType.MultiSelect]: '多选',
-  [FieldType.DateTime]: '日期 / 时间',
-  [FieldType.Checkbox]: '勾选',
-  [FieldType.User]: '成员',
-  [FieldType.Phone]: '手机号',
-  [FieldType.Url]: '链接',
-  [FieldType.Attachment]: '附件',
-  [FieldType.SingleLink]: '关联（单向）',
-  [FieldType.DuplexLink]: '关联（双向）',
-  [FieldType.Lookup]: '回填',
-  [FieldType.Formula]: '公式',
-  [FieldType.Location]: '地理位置',
-  [FieldType.GroupChat]: '群聊',
-  [FieldType.Object]: '对象',
-  [FieldType.Progress]: '进度',
-  [FieldType.Currency]: '金额',
-  [FieldType.Rating]: '评分',
-  [FieldType.Email]: '邮箱',
-  [FieldType.CreatedTime]: '创建时间',
-  [FieldType.ModifiedTime]: '更新时间',
-  [FieldType.CreatedUser]: '创建人',
-  [FieldType.ModifiedUser]: '更新人',
-  [FieldType.AutoNumber]: '自动编号',
-  [FieldType.Barcode]: '条码 / 二维码',
-  [FieldType.NotSupport]: '暂不支持',
-  [FieldType.Denied]: '无权限',
-};
-
-const getFieldTypeLabel = (type: FieldType): string => {
-  return (
-    FIELD_TYPE_LABELS[type] ??
-    fieldTypeDictionary[type] ??
-    `类型 ${type}`
-  );
-};
-
-const cloneJson = <T,>(value: T | undefined): T | undefined => {
-  if (value === undefined) {
-    return undefined;
-  }
-  try {
-    return JSON.parse(JSON.stringify(value));
-  } catch (error) {
-    console.warn('Failed to clone field property', error);
-    return value;
-  }
-};
-
-const loadPersistedSnapshot = (): Snapshot | null => {
-  if (typeof window === 'undefined') {
-    return null;
-  }
-  try {
-    const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-    if (!raw) {
-      return null;
-    }
-    return JSON.parse(raw) as Snapshot;
-  } catch (error) {
-    console.error('读取快照缓存失败', error);
-    return null;
+const describeRollbackOutcome = (outcome: RollbackOutcome) => {
+  const hints: string[] = [];
+  if (outcome.fieldsRestored > 0) {
+    hints.push(`补回 ${outcome.fieldsRestored} 个字段`);
   }
-};
-
-const persistSnapshot = (snapshot: Snapshot | null) => {
-  if (typeof window === 'undefined') {
-    return;
+  if (outcome.tablesCreated > 0) {
+    hints.push(`重建 ${outcome.tablesCreated} 张表`);
   }
-  try {
-    if (!snapshot) {
-      window.localStorage.removeItem(LOCAL_STORAGE_KEY);
-      return;
-    }
-    window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(snapshot));
-  } catch (error) {
-    console.error('写入快照缓存失败', error);
+  if (outcome.cellsRestored > 0) {
+    hints.push(`写回 ${outcome.cellsRestored} 个单元格`);
   }
-};
-
-const formatTimestamp = (input: string) => {
-  try {
-    return new Date(input).toLocaleString();
-  } catch {
-    return input;
+  if (outcome.fieldsUntouched > 0) {
+    hints.push(`${outcome.fieldsUntouched} 个字段仍在原处未改动`);
   }
+  return hints.length > 0 ? `（${hints.join('，')}）` : '';
 };
 
 export default function App() {
-  const snapshotRef = useRef<Snapshot | null>(null);
+  const libraryRef = useRef<SnapshotLibrary | null>(null);
+  const jobAbortRef = useRef<AbortController | null>(null);
+  const auditLoadedRef = useRef(false);
+  const usageAbortRef = useRef<AbortController | null>(null);
+  const recipesLoadedRef = useRef(false);
+  const quarantineLoadedRef = useRef(false);
   const [theme, setTheme] = useState<ThemeModeType>('LIGHT');
   const [loading, setLoading] = useState(true);
   const [tables, setTables] = useState<TableBundle[]>([]);
@@ -186,15 +271,104 @@ export default function App() {
   const [selectedFields, setSelectedFields] = useState<
     Record<string, Record<string, boolean>>
   >({});
-  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [library, setLibrary] = useState<SnapshotLibrary>(createEmptyLibrary);
+  const [selectedSnapshotId, setSelectedSnapshotId] = useState<string | null>(
+    null,
+  );
   const [snapshotBusy, setSnapshotBusy] = useState(false);
   const [deleteBusy, setDeleteBusy] = useState(false);
   const [rollbackBusy, setRollbackBusy] = useState(false);
+  const [rollbackMode, setRollbackMode] = useState<RollbackMode>('inPlace');
+  const [recordProgress, setRecordProgress] = useState<BackupProgress | null>(
+    null,
+  );
   const [tableQuery, setTableQuery] = useState('');
   const [fieldTypeFilter, setFieldTypeFilter] = useState<string>('all');
   const [selectionVersion, setSelectionVersion] = useState(0);
   const [snapshotDrawerVisible, setSnapshotDrawerVisible] = useState(false);
   const [deletePanelOpen, setDeletePanelOpen] = useState(false);
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+  const [interruptedJournal, setInterruptedJournal] =
+    useState<DeletionJournal | null>(null);
+  const [journalBusy, setJournalBusy] = useState(false);
+  const [lastReport, setLastReport] = useState<OperationReport | null>(null);
+  const [reportVisible, setReportVisible] = useState(false);
+  const [reportRetrying, setReportRetrying] = useState(false);
+  const [fieldUsage, setFieldUsage] = useState<FieldUsageMap>({});
+  const [usageProgress, setUsageProgress] = useState<ScanProgress | null>(
+    null,
+  );
+  const [usageSort, setUsageSort] = useState<UsageSort>('default');
+  const [fillThreshold, setFillThreshold] = useState(10);
+  const [duplicateVisible, setDuplicateVisible] = useState(false);
+  const [duplicateContents, setDuplicateContents] = useState<Map<
+    string,
+    ContentFingerprints
+  > | null>(null);
+  const [duplicateComparing, setDuplicateComparing] = useState(false);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+  const [recipeLibrary, setRecipeLibrary] = useState<RecipeLibrary>(
+    createEmptyRecipeLibrary,
+  );
+  const [recipesVisible, setRecipesVisible] = useState(false);
+  const [protectionList, setProtectionList] = useState<ProtectionList>(
+    createEmptyProtectionList,
+  );
+  const [protectionVisible, setProtectionVisible] = useState(false);
+  const [auditLog, setAuditLog] = useState<AuditLog>(createEmptyAuditLog);
+  const [auditVisible, setAuditVisible] = useState(false);
+  const [auditSyncing, setAuditSyncing] = useState(false);
+  const [quarantineList, setQuarantineList] = useState<QuarantineList>(
+    createEmptyQuarantineList,
+  );
+  const [quarantineVisible, setQuarantineVisible] = useState(false);
+  const [recordFilterVisible, setRecordFilterVisible] = useState(false);
+  const [recordDeleteBusy, setRecordDeleteBusy] = useState(false);
+  const [clearValuesVisible, setClearValuesVisible] = useState(false);
+  const [clearValuesBusy, setClearValuesBusy] = useState(false);
+  const [clearUndoing, setClearUndoing] = useState(false);
+  // 最近一次清空前的快照，撤销时从它的记录备份里写回
+  const [lastClearSnapshotId, setLastClearSnapshotId] = useState<
+    string | null
+  >(null);
+  const [conversionVisible, setConversionVisible] = useState(false);
+  const [conversionBusy, setConversionBusy] = useState(false);
+  const [conversionUndoing, setConversionUndoing] = useState(false);
+  // 最近一次类型转换：撤销时先改回原类型，再从记录备份写回值
+  const [lastConversion, setLastConversion] = useState<{
+    snapshotId: string;
+    changes: ConversionChange[];
+  } | null>(null);
+  const [viewManagerVisible, setViewManagerVisible] = useState(false);
+  const [viewDeleteBusy, setViewDeleteBusy] = useState(false);
+  const [renameVisible, setRenameVisible] = useState(false);
+  const [renameBusy, setRenameBusy] = useState(false);
+  const [renameUndoing, setRenameUndoing] = useState(false);
+  // 最近一次批量改名：撤销时按快照里的旧名字改回去
+  const [lastRename, setLastRename] = useState<{
+    snapshotId: string;
+    changes: RenameChange[];
+  } | null>(null);
+  const [quarantineBusy, setQuarantineBusy] = useState(false);
+  const [restoringQuarantineId, setRestoringQuarantineId] = useState<
+    string | null
+  >(null);
+  const [deletionPlan, setDeletionPlan] = useState<DeletionPlan | null>(null);
+  const [riskSettings, setRiskSettings] =
+    useState<RiskSettings>(loadRiskSettings);
+  const [riskSettingsVisible, setRiskSettingsVisible] = useState(false);
+  const [riskPrompt, setRiskPrompt] = useState<{
+    plan: DeletionPlan;
+    assessment: RiskAssessment;
+    records: number;
+    /** 还没拍快照时为 undefined；拍了但出问题时是 null 或那份不完整快照的 ID */
+    snapshotId?: string | null;
+    archive: ArchiveTarget | null;
+  } | null>(null);
+  const [diffSnapshotId, setDiffSnapshotId] = useState<string | null>(null);
+  const [diffRestoringKey, setDiffRestoringKey] = useState<string | null>(
+    null,
+  );
 
   const selectedTableCount = useMemo(
     () => Object.values(selectedTables).filter(Boolean).length,
@@ -213,6 +387,92 @@ export default function App() {
 
   const totalSelectedTargets = selectedTableCount + selectedFieldCount;
 
+  const protectionGuard = useMemo(
+    () => createProtectionGuard(protectionList),
+    [protectionList],
+  );
+
+  // 表里有受保护的字段，整表也跟着锁住：勾选、徽标和记录模式都按这个来
+  const getTableLock = useCallback(
+    (bundle: TableBundle) =>
+      getTableContentRule(
+        protectionGuard,
+        bundle.meta.id,
+        bundle.meta.name || '无名表',
+        bundle.fields,
+      ),
+    [protectionGuard],
+  );
+
+  const isTableLocked = useCallback(
+    (bundle: TableBundle) => !!getTableLock(bundle),
+    [getTableLock],
+  );
+
+  const getFieldLock = useCallback(
+    (bundle: TableBundle, field: IFieldMeta) =>
+      protectionGuard.fieldRule(
+        bundle.meta.id,
+        bundle.meta.name || '无名表',
+        field.id,
+        field.name || '无名字段',
+      ),
+    [protectionGuard],
+  );
+
+  const duplicateGroups = useMemo(
+    () => findDuplicateFields(tables, duplicateContents ?? undefined),
+    [tables, duplicateContents],
+  );
+
+  // 字段归档可以写进的现有表：计划里要删或要动的表都不行
+  const archiveTableOptions = useMemo(() => {
+    const touched = new Set(
+      deletionPlan?.nodes.map((node) => node.tableId) ?? [],
+    );
+    return tables
+      .filter((bundle) => !touched.has(bundle.meta.id))
+      .map((bundle) => ({
+        value: bundle.meta.id,
+        label: bundle.meta.name || '无名表',
+      }));
+  }, [tables, deletionPlan]);
+
+  const dependencyGraph = useMemo(() => buildDependencyGraph(tables), [tables]);
+
+  // 勾选项中被其他字段引用的目标，键与删除计划一致
+  const selectionImpacts = useMemo(
+    () =>
+      findSelectionImpacts(
+        dependencyGraph,
+        tables,
+        selectedTables,
+        selectedFields,
+      ),
+    [dependencyGraph, tables, selectedTables, selectedFields],
+  );
+
+  // 回滚目标：用户在快照库中选中的那份，未选中时默认最新一份
+  const snapshot = useMemo(
+    () =>
+      library.snapshots.find((item) => item.id === selectedSnapshotId) ??
+      library.snapshots[0] ??
+      null,
+    [library, selectedSnapshotId],
+  );
+
+  const diffSnapshot = useMemo(
+    () =>
+      library.snapshots.find((item) => item.id === diffSnapshotId) ?? null,
+    [library, diffSnapshotId],
+  );
+
+  // 当前 Base 也转成快照结构，和快照走同一套对比逻辑
+  const liveSnapshotTables = useMemo(
+    () => tables.map((bundle) => toSnapshotTable(bundle.meta, bundle.fields)),
+    [tables],
+  );
+
   useEffect(() => {
     const bridge = bitable?.bridge as any;
     let off: (() => void) | undefined;
@@ -262,17 +522,7 @@ export default function App() {
     setLoading(true);
     setLoadError(null);
     try {
-      const metaList = await bitable.base.getTableMetaList();
-      const bundles = await Promise.all(
-        metaList.map(async (meta: ITableMeta): Promise<TableBundle> => {
-          const table = await bitable.base.getTableById(meta.id);
-          const fieldMetaList = await table.getFieldMetaList();
-          return {
-            meta,
-            fields: fieldMetaList,
-          };
-        }),
-      );
+      const bundles = await loadTableBundles();
       setTables(bundles);
       setSelectedTables((prev) => {
         const next: Record<string, boolean> = {};
@@ -321,30 +571,33 @@ export default function App() {
     const bridge = bitable?.bridge as any;
     let off: (() => void) | undefined;
 
-    const loadSnapshot = async () => {
+    const loadLibrary = async () => {
       if (bridge && typeof bridge.getData === 'function') {
         try {
-          const stored = (await bridge.getData?.(BRIDGE_SNAPSHOT_KEY)) as
-            | Snapshot
-            | null
-            | undefined;
-          if (stored) {
-            setSnapshot(stored);
-            Toast.info('已接管上一回快照，放心删也要慎重。');
-            return;
-          }
-          if (stored === null) {
-            setSnapshot(null);
-            return;
+          const stored =
+            (await bridge.getData?.(BRIDGE_LIBRARY_KEY)) ??
+            (await bridge.getData?.(LEGACY_BRIDGE_SNAPSHOT_KEY));
+          // bridge 能读就只认 bridge；本地缓存是所有 base 共用的，不能拿来兜底
+          const normalized = normalizeLibrary(stored);
+          if (normalized) {
+            libraryRef.current = normalized;
+            setLibrary(normalized);
+            if (normalized.snapshots.length > 0) {
+              Toast.info('已接管快照库，放心删也要慎重。');
+            }
           }
+          return;
         } catch (error) {
           console.warn('读取 bridge 快照失败', error);
         }
       }
-      const persisted = loadPersistedSnapshot();
+      const persisted = loadPersistedLibrary();
       if (persisted) {
-        setSnapshot(persisted);
-        Toast.info('已接管上一回快照，放心删也要慎重。');
+        libraryRef.current = persisted;
+        setLibrary(persisted);
+        if (persisted.snapshots.length > 0) {
+          Toast.info('已接管快照库，放心删也要慎重。');
+        }
       }
     };
 
@@ -353,16 +606,16 @@ export default function App() {
         try {
           off = bridge.onDataChange((event: any) => {
             const { key, value } = event?.data ?? {};
-            if (key !== BRIDGE_SNAPSHOT_KEY) {
+            if (key !== BRIDGE_LIBRARY_KEY) {
               return;
             }
-            const incoming = (value ?? null) as Snapshot | null;
-            const current = snapshotRef.current;
+            const incoming = normalizeLibrary(value) ?? createEmptyLibrary();
+            const current = libraryRef.current;
             const same =
-              JSON.stringify(current ?? null) ===
-              JSON.stringify(incoming ?? null);
+              JSON.stringify(current ?? null) === JSON.stringify(incoming);
             if (!same) {
-              setSnapshot(incoming);
+              libraryRef.current = incoming;
+              setLibrary(incoming);
             }
           });
         } catch (error) {
@@ -371,7 +624,7 @@ export default function App() {
       }
     };
 
-    loadSnapshot();
+    loadLibrary();
     registerBridgeListener();
 
     return () => {
@@ -380,23 +633,124 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    snapshotRef.current = snapshot;
-    persistSnapshot(snapshot);
+    const checkInterruptedJournal = async () => {
+      const journal = await loadPersistedJournal(await getJournalOwner());
+      if (!journal) {
+        return;
+      }
+      if (getJournalEntries(journal, 'pending').length > 0) {
+        setInterruptedJournal(journal);
+      } else {
+        await persistJournal(null);
+      }
+    };
+    checkInterruptedJournal();
+  }, []);
+
+  useEffect(() => {
+    const loadAuditLog = async () => {
+      const persisted = await loadPersistedAuditLog();
+      if (persisted) {
+        // 读取期间可能已经记了新日志，合并时以新的为准
+        setAuditLog((prev) => ({
+          ...persisted,
+          entries: [...prev.entries, ...persisted.entries],
+        }));
+      }
+      auditLoadedRef.current = true;
+    };
+    loadAuditLog();
+  }, []);
+
+  useEffect(() => {
+    const loadProtection = async () => {
+      const persisted = await loadPersistedProtection();
+      if (persisted) {
+        setProtectionList(persisted);
+      }
+    };
+    loadProtection();
+  }, []);
+
+  useEffect(() => {
+    const loadRecipes = async () => {
+      const persisted = await loadPersistedRecipes();
+      if (persisted) {
+        setRecipeLibrary(persisted);
+      }
+      recipesLoadedRef.current = true;
+    };
+    loadRecipes();
+  }, []);
+
+  useEffect(() => {
+    if (!recipesLoadedRef.current) {
+      return;
+    }
+    persistRecipes(recipeLibrary);
+  }, [recipeLibrary]);
+
+  useEffect(() => {
+    const loadQuarantine = async () => {
+      const persisted = await loadPersistedQuarantine();
+      if (persisted) {
+        setQuarantineList(persisted);
+      }
+      quarantineLoadedRef.current = true;
+    };
+    loadQuarantine();
+  }, []);
+
+  useEffect(() => {
+    if (!quarantineLoadedRef.current) {
+      return;
+    }
+    persistQuarantine(quarantineList);
+  }, [quarantineList]);
+
+  // 已被清除（或在别处删掉）的条目随表结构刷新一起移出隔离区
+  useEffect(() => {
+    if (!quarantineLoadedRef.current || loading || loadError) {
+      return;
+    }
+    setQuarantineList((prev) => pruneQuarantine(prev, tables));
+  }, [tables, loading, loadError]);
+
+  useEffect(() => {
+    // 还没读出来之前不落盘，免得空日志覆盖历史
+    if (!auditLoadedRef.current) {
+      return;
+    }
+    persistAuditLog(auditLog);
+  }, [auditLog]);
+
+  useEffect(() => {
+    const previous = libraryRef.current;
+    libraryRef.current = library;
+    if (previous === null && library.snapshots.length === 0) {
+      // 首次渲染时库还没读出来，别把空库写回去覆盖别人的快照
+      return;
+    }
+    persistLibrary(library);
 
-    const syncBridgeSnapshot = async () => {
+    const syncBridgeLibrary = async () => {
       const bridge = bitable?.bridge as any;
       if (!bridge || typeof bridge.setData !== 'function') {
         return;
       }
       try {
-        await bridge.setData?.(BRIDGE_SNAPSHOT_KEY, snapshot);
+        await bridge.setData?.(BRIDGE_LIBRARY_KEY, library);
       } catch (error) {
         console.warn('写入 bridge 快照失败', error);
       }
     };
 
-    syncBridgeSnapshot();
-  }, [snapshot]);
+    syncBridgeLibrary();
+    pruneRecordBackups(
+      previous?.snapshots.map((item) => item.id) ?? [],
+      library.snapshots.map((item) => item.id),
+    ).catch((error) => console.warn('清理记录备份失败', error));
+  }, [library]);
 
   const availableFieldTypeOptions = useMemo(() => {
     const result = new Map<string, string>();
@@ -414,41 +768,47 @@ export default function App() {
     return [{ value: 'all', label: '全部字段类型' }, ...sorted];
   }, [tables]);
 
+  const parsedQuery = useMemo(() => parseFieldQuery(tableQuery), [tableQuery]);
+
+  const querySuggestions = useMemo(
+    () =>
+      suggestQuery(
+        tableQuery,
+        tables.map((bundle) => bundle.meta.name ?? '无名表'),
+      ),
+    [tableQuery, tables],
+  );
+
   const renderBundles = useMemo<RenderBundle[]>(() => {
-    const normalizedQuery = tableQuery.trim().toLowerCase();
     return tables
       .map((bundle) => {
-        const tableName = bundle.meta.name ?? '无名表';
-        const tableMatches =
-          normalizedQuery.length === 0
-            ? true
-            : tableName.toLowerCase().includes(normalizedQuery);
-        const visibleFields = bundle.fields.filter((field) => {
-          if (
-            fieldTypeFilter !== 'all' &&
-            String(field.type) !== fieldTypeFilter
-          ) {
-            return false;
-          }
-          if (normalizedQuery.length === 0) {
-            return true;
-          }
-          if (tableMatches) {
-            return true;
-          }
-          const fieldName = field.name ?? '无名字段';
-          return fieldName.toLowerCase().includes(normalizedQuery);
-        });
+        const tableUsage = fieldUsage[bundle.meta.id] ?? {};
+        const matched = matchTable(
+          parsedQuery,
+          bundle.meta,
+          bundle.fields,
+          tableUsage,
+        );
+        const tableMatches = matched.tableMatches;
+        const visibleFields = matched.visibleFields.filter(
+          (field) =>
+            fieldTypeFilter === 'all' || String(field.type) === fieldTypeFilter,
+        );
         const shouldDisplay = tableMatches || visibleFields.length > 0;
         return {
           bundle,
-          visibleFields,
+          visibleFields:
+            usageSort === 'default'
+              ? visibleFields
+              : [...visibleFields].sort((a, b) =>
+                  compareFieldUsage(usageSort, tableUsage[a.id], tableUsage[b.id]),
+                ),
           tableMatches,
           shouldDisplay,
         };
       })
       .filter((item) => item.shouldDisplay);
-  }, [tables, tableQuery, fieldTypeFilter]);
+  }, [tables, parsedQuery, fieldTypeFilter, fieldUsage, usageSort]);
 
   const toggleTable = useCallback((tableId: string) => {
     setSelectedTables((prev) => {
@@ -480,332 +840,1192 @@ export default function App() {
     });
   }, []);
 
+  const recordAudit = useCallback(
+    async (
+      action: AuditAction,
+      detail: string,
+      targets: string[],
+      counts: AuditCounts,
+    ) => {
+      const userId = await getActingUserId();
+      setAuditLog((prev) =>
+        appendAuditEntry(
+          prev,
+          createAuditEntry(action, userId, detail, targets, counts),
+        ),
+      );
+    },
+    [],
+  );
+
+  const recordReportAudit = useCallback(async (report: OperationReport) => {
+    const userId = await getActingUserId();
+    setAuditLog((prev) =>
+      appendAuditEntry(prev, createReportAuditEntry(report, userId)),
+    );
+  }, []);
+
+  // 有失败项时直接打开结果面板，否则一条 Toast 就够了
+  const presentReport = useCallback(
+    (report: OperationReport, successText: string, partialText: string) => {
+      setLastReport(report);
+      recordReportAudit(report);
+      const { failed } = countReport(report);
+      if (failed > 0) {
+        setReportVisible(true);
+        Toast.warning(`${partialText}：${failed} 项失败，详情见结果报告。`);
+      } else {
+        Toast.success(successText);
+      }
+    },
+    [recordReportAudit],
+  );
+
+  const selectDependents = useCallback(
+    (dependents: FieldRef[]) => {
+      const primaryIds = new Set(
+        tables.flatMap((bundle) =>
+          bundle.fields
+            .filter((field) => field.isPrimary)
+            .map((field) => field.id),
+        ),
+      );
+      setSelectedFields((prev) => {
+        const next = { ...prev };
+        for (const ref of dependents) {
+          if (
+            selectedTables[ref.tableId] ||
+            primaryIds.has(ref.fieldId) ||
+            protectionGuard.fieldRule(
+              ref.tableId,
+              ref.tableName,
+              ref.fieldId,
+              ref.fieldName,
+            )
+          ) {
+            continue;
+          }
+          next[ref.tableId] = {
+            ...(next[ref.tableId] ?? {}),
+            [ref.fieldId]: true,
+          };
+        }
+        return next;
+      });
+      if (dependents.some((ref) => primaryIds.has(ref.fieldId))) {
+        Toast.info('依赖字段里有索引列，索引列不可删除，已跳过。');
+      }
+    },
+    [tables, selectedTables, protectionGuard],
+  );
+
   const captureSnapshot = useCallback(
-    async (label: string): Promise<boolean> => {
+    async (kind: SnapshotKind, label: string): Promise<Snapshot | null> => {
       setSnapshotBusy(true);
       try {
         const metaList = await bitable.base.getTableMetaList();
         const tablesWithFields = await Promise.all(
           metaList.map(async (meta) => {
             const table = await bitable.base.getTableById(meta.id);
-            const fieldMetaList = await table.getFieldMetaList();
-            return {
-              tableId: meta.id,
-              tableName: meta.name ?? '无名表',
-              fields: fieldMetaList.map((field) => ({
-                id: field.id,
-                name: field.name ?? '无名字段',
-                type: field.type,
-                property: cloneJson(field.property),
-              })),
-            };
+            return toSnapshotTable(meta, await table.getFieldMetaList());
           }),
         );
-        const snap: Snapshot = {
+        const snap = buildSnapshot(kind, label, tablesWithFields);
+        setLibrary((prev) => addSnapshot(prev, snap));
+        setSelectedSnapshotId(snap.id);
+        recordAudit(
+          'snapshot',
           label,
-          timestamp: new Date().toISOString(),
-          tables: tablesWithFields,
-        };
-        setSnapshot(snap);
+          tablesWithFields.map((table) => table.tableName),
+          { success: 1, skipped: 0, failed: 0 },
+        );
         Toast.success('快照搞定，随时反悔。');
-        return true;
+        return snap;
       } catch (error) {
         console.error(error);
+        recordAudit('snapshot', label, [], {
+          success: 0,
+          skipped: 0,
+          failed: 1,
+        });
         Toast.error('快照失败，数据还没删，冷静再试一次。');
-        return false;
+        return null;
       } finally {
         setSnapshotBusy(false);
       }
     },
-    [],
+    [recordAudit],
   );
 
-  const performDeletion = useCallback(async () => {
-    const errors: string[] = [];
-    
-    // 获取当前所有表的列表
-    const currentTableList = await bitable.base.getTableMetaList();
-    const currentTableIds = currentTableList.map(meta => meta.id);
-    
-    // 计算要删除的表
-    let tableIdsToDelete = Object.entries(selectedTables)
-      .filter(([, checked]) => checked)
-      .map(([tableId]) => tableId);
-    
-    // 判断是否会删除所有表（多维表格必须保留至少一张表）
-    const willDeleteAllTables = tableIdsToDelete.length >= currentTableIds.length;
-    let lastTableId: string | null = null;
-    let lastTableName: string | null = null;
-    
-    if (willDeleteAllTables && currentTableIds.length > 0) {
-      // 保留最后一张表（列表中的最后一个）
-      lastTableId = currentTableIds[currentTableIds.length - 1];
-      lastTableName = currentTableList[currentTableIds.length - 1].name || '未知表';
-      // 从删除列表中排除最后一张表
-      tableIdsToDelete = tableIdsToDelete.filter(id => id !== lastTableId);
-      Toast.info(`多维表格必须保留至少一张表，将保留表 "${lastTableName}"，仅删除其字段（索引列除外）`);
-    }
-    
-    // 第一步：删除选中的表（排除最后一张表，删除表会自动删除表内所有字段）
-    for (const tableId of tableIdsToDelete) {
+  // 删除前把目标记录值存进 IndexedDB，并把摘要挂到快照上
+  const backupRecords = useCallback(
+    async (
+      snapshotId: string,
+      targets: RecordBackupTarget[],
+    ): Promise<boolean> => {
+      if (targets.length === 0) {
+        return true;
+      }
       try {
-        await bitable.base.deleteTable(tableId);
+        const summary = await captureRecordBackup(
+          snapshotId,
+          targets,
+          (tableId) => bitable.base.getTableById(tableId),
+          setRecordProgress,
+        );
+        setLibrary((prev) =>
+          updateSnapshot(prev, snapshotId, { recordBackup: summary }),
+        );
+        Toast.success(`记录备份完成，共 ${summary.cellCount} 个单元格。`);
+        return true;
       } catch (error) {
         console.error(error);
-        errors.push(`表 ${tableId} 删除失败`);
+        Toast.error('记录备份失败，数据还没删。');
+        return false;
+      } finally {
+        setRecordProgress(null);
       }
-    }
+    },
+    [],
+  );
 
-    // 第二步：删除选中表的字段（跳过已删除的表，因为删除表会自动删除所有字段）
-    for (const [tableId, fieldMap] of Object.entries(selectedFields)) {
-      // 如果表已被删除（且不是最后一张表），跳过该表的字段删除
-      // 如果最后一张表在 selectedTables 中，跳过这里的处理，在第三步单独处理
-      if (selectedTables[tableId] && tableId !== lastTableId) {
-        continue;
-      }
-      // 如果最后一张表在 selectedTables 中，跳过这里的字段删除，在第三步统一处理
-      if (tableId === lastTableId && selectedTables[lastTableId]) {
-        continue;
-      }
-      
-      const fieldIds = Object.entries(fieldMap)
-        .filter(([, checked]) => checked)
-        .map(([fieldId]) => fieldId);
-      if (fieldIds.length === 0) {
-        continue;
+  // 删除计划里的目标字段 / 整表
+  const backupPlannedRecords = useCallback(
+    async (snapshotId: string, plan: DeletionPlan): Promise<boolean> => {
+      const operations = getPlanOperations(plan);
+      const targets: RecordBackupTarget[] = [
+        ...operations.tables.map((item) => ({
+          tableId: item.tableId,
+          wholeTable: true,
+          fieldIds: [],
+        })),
+        ...operations.fieldsByTable.map((group) => ({
+          tableId: group.tableId,
+          wholeTable: false,
+          fieldIds: group.fieldIds,
+        })),
+      ];
+      return backupRecords(snapshotId, targets);
+    },
+    [backupRecords],
+  );
+
+  // 按日志逐项删除：每项结果立刻落盘，面板中途关闭后还能续跑或回滚
+  const executeDeletion = useCallback(
+    async (
+      journal: DeletionJournal,
+      planned: PlanItem[],
+      skipped: PlanItem[] = [],
+    ) => {
+      // 最后一道关：勾选状态被绕过时，受保护的条目也绝不执行
+      const refused = planned
+        .filter((item) => getPlanItemRule(protectionGuard, item, tables))
+        .map((item): PlanItem => ({ ...item, skipReason: 'protected' }));
+      const items = planned.filter(
+        (item) => !getPlanItemRule(protectionGuard, item, tables),
+      );
+      if (refused.length > 0) {
+        Toast.warning(`${refused.length} 项在保护名单中，已拒绝删除。`);
       }
-      
+      let current = refused.reduce(
+        (acc, item) =>
+          markJournalEntry(
+            acc,
+            item.key,
+            'skipped',
+            PLAN_SKIP_LABELS.protected,
+          ),
+        journal,
+      );
+      await persistJournal(current);
+      const controller = new AbortController();
+      jobAbortRef.current = controller;
       try {
-        const table = await bitable.base.getTableById(tableId);
-        const fieldMetaList = await table.getFieldMetaList();
-        const fieldMetaMap = new Map(fieldMetaList.map(f => [f.id, f]));
-        
-        // 如果是最后一张表（但不在 selectedTables 中），需要排除索引列
-        const fieldsToDelete = tableId === lastTableId
-          ? fieldIds.filter(fieldId => {
-              const fieldMeta = fieldMetaMap.get(fieldId);
-              return fieldMeta && fieldMeta.isPrimary !== true;
-            })
-          : fieldIds;
-        
-        if (fieldsToDelete.length === 0) {
-          if (tableId === lastTableId) {
-            Toast.info(`表 "${lastTableName}" 的索引列已自动排除，无其他字段可删除`);
-          }
-          continue;
-        }
-        
-        for (const fieldId of fieldsToDelete) {
-          try {
-            await table.deleteField(fieldId);
-          } catch (error) {
-            console.error(error);
-            errors.push(`字段 ${fieldId} 删除失败`);
-          }
+        const result = await runJob(items.map(createDeletionTask), {
+          title: '批量删除',
+          signal: controller.signal,
+          onProgress: setJobProgress,
+          onTaskSettled: (item) => {
+            if (item.status === 'cancelled') {
+              return;
+            }
+            current = markJournalEntry(
+              current,
+              item.key,
+              item.status,
+              item.error,
+            );
+            persistJournal(current);
+          },
+        });
+        const report = createReport('delete', '批量删除', [
+          ...result.results.map((outcome, index) =>
+            toDeletionReportItem(items[index], {
+              status:
+                outcome.status === 'done'
+                  ? 'success'
+                  : outcome.status === 'failed'
+                  ? 'failed'
+                  : 'skipped',
+              message:
+                outcome.status === 'cancelled'
+                  ? '已取消，未执行'
+                  : outcome.attempts > 1
+                  ? `共尝试 ${outcome.attempts} 次`
+                  : undefined,
+              error: outcome.error,
+            }),
+          ),
+          ...[...refused, ...skipped].map((item) =>
+            toDeletionReportItem(item, {
+              status: 'skipped',
+              message: item.skipReason
+                ? PLAN_SKIP_LABELS[item.skipReason]
+                : undefined,
+            }),
+          ),
+        ]);
+        if (result.cancelled) {
+          setLastReport(report);
+          recordReportAudit(report);
+          Toast.warning(
+            `已取消：完成 ${result.done} 项，失败 ${result.failed} 项，其余未执行。`,
+          );
+        } else {
+          presentReport(
+            report,
+            '轰隆一声，选中的表与字段已经清理。',
+            '部分删除失败',
+          );
         }
-      } catch (error) {
-        console.error(error);
-        errors.push(`无法加载表 ${tableId}，字段没有删除`);
+      } finally {
+        jobAbortRef.current = null;
+        setJobProgress(null);
+        // 跑完或主动取消都算收尾，只有被中途关掉才会留下日志
+        await persistJournal(null);
       }
-    }
-    
-    // 第三步：如果最后一张表被选中，删除其所有非索引字段
-    if (lastTableId && selectedTables[lastTableId]) {
+    },
+    [presentReport, recordReportAudit, protectionGuard, tables],
+  );
+
+  // 选了先归档时，只有归档核对通过的条目才会真正删除
+  const archiveBeforeDeletion = useCallback(
+    async (plan: DeletionPlan, archive: ArchiveTarget) => {
       try {
-        const table = await bitable.base.getTableById(lastTableId);
-        const fieldMetaList = await table.getFieldMetaList();
-        // 获取所有非索引列字段
-        const nonIndexFields = fieldMetaList.filter(f => f.isPrimary !== true);
-        
-        if (nonIndexFields.length > 0) {
-          for (const field of nonIndexFields) {
-            try {
-              await table.deleteField(field.id);
-            } catch (error) {
-              console.error(error);
-              errors.push(`字段 ${field.name || field.id} 删除失败`);
-            }
-          }
-        } else {
-          Toast.info(`表 "${lastTableName}" 仅包含索引列，无其他字段可删除`);
+        const checks = await archivePlan(plan, archive, setRecordProgress);
+        const failed = checks.filter((check) => !isArchiveSuccessful(check));
+        if (failed.length > 0) {
+          Toast.warning(
+            `「${failed[0].sourceName}」等 ${failed.length} 张表归档核对不上，对应条目保留不删。`,
+          );
+        } else if (checks.length > 0) {
+          Toast.success(
+            `归档完成，${checks.reduce(
+              (sum, check) => sum + check.copied,
+              0,
+            )} 条记录已核对无误。`,
+          );
         }
+        return skipUnarchivedItems(
+          plan,
+          new Set(
+            checks
+              .filter(isArchiveSuccessful)
+              .flatMap((check) => check.keys),
+          ),
+        );
       } catch (error) {
         console.error(error);
-        errors.push(`无法处理最后一张表的字段删除`);
+        Toast.error('归档失败，这次什么都没删。');
+        return skipUnarchivedItems(plan, new Set());
+      } finally {
+        setRecordProgress(null);
       }
-    }
+    },
+    [],
+  );
 
-    if (errors.length > 0) {
-      Toast.warning(`部分操作失败：${errors.join(' / ')}`);
-    } else {
-      Toast.success('轰隆一声，选中的表与字段已经清理。');
-    }
+  const performDeletion = useCallback(
+    async (
+      planned: DeletionPlan,
+      snapshotId: string | null,
+      archive: ArchiveTarget | null,
+    ) => {
+      const plan = archive
+        ? await archiveBeforeDeletion(planned, archive)
+        : planned;
+      const operations = getPlanOperations(plan);
+      // 计划里整表删除与字段删除不会落在同一张表上，可以放进同一批并发执行
+      const items = [
+        ...operations.tables,
+        ...operations.fieldsByTable.flatMap((group) => group.fields),
+      ];
+      const skipped = plan.nodes.flatMap((node) =>
+        (node.table ? [node.table, ...node.fields] : node.fields).filter(
+          (item) => item.skipReason !== null,
+        ),
+      );
+      await executeDeletion(
+        createJournal(items, snapshotId, await getJournalOwner()),
+        items,
+        skipped,
+      );
 
-    setSelectedTables({});
-    setSelectedFields({});
-    await refreshTables();
-  }, [selectedTables, selectedFields, refreshTables]);
+      setSelectedTables({});
+      setSelectedFields({});
+      await refreshTables();
+    },
+    [archiveBeforeDeletion, executeDeletion, refreshTables],
+  );
+
+  const cancelJob = useCallback(() => {
+    jobAbortRef.current?.abort();
+  }, []);
 
-  const handleDelete = useCallback(async () => {
+  // 先按最新表结构生成删除计划，交给用户逐项确认
+  const openDeletionPlan = useCallback(async () => {
     if (totalSelectedTargets === 0) {
       Toast.info('先勾选要挥刀的目标，再点删除。');
       return;
     }
     setDeleteBusy(true);
-    const snapshotOk = await captureSnapshot('删除前自动快照');
-    if (!snapshotOk) {
-      setDeleteBusy(false);
-      Modal.confirm({
-        title: '快照失败，要冒险继续删除吗？',
-        content: (
-          <div className="confirm-content">
-            <p>· 删除操作不可逆，且当前没有新快照。</p>
-            <p>· 请确保：已备份 / 身处沙箱 / 明白后果。</p>
-            <p>
-              · 本次目标：{selectedTableCount} 张表，
-              {selectedFieldCount} 个字段。
-            </p>
-          </div>
-        ),
-        width: 420,
-        okText: '确认删除',
-        cancelText: '我再想想',
-        onOk: async () => {
-          setDeleteBusy(true);
-          try {
-            await performDeletion();
-          } finally {
-            setDeleteBusy(false);
-          }
-        },
-      });
-      return;
-    }
     try {
-      await performDeletion();
-    } finally {
-      setDeleteBusy(false);
-    }
-  }, [
-    totalSelectedTargets,
-    captureSnapshot,
-    performDeletion,
-    selectedTableCount,
-    selectedFieldCount,
-  ]);
+      const bundles = await loadTableBundles();
+      setDeletionPlan(
+        protectPlanItems(
+          buildDeletionPlan(bundles, selectedTables, selectedFields),
+          (item) => !!getPlanItemRule(protectionGuard, item, bundles),
+        ),
+      );
+    } catch (error) {
+      console.error(error);
+      Toast.error('生成删除计划失败，读取表结构出错。');
+    } finally {
+      setDeleteBusy(false);
+    }
+  }, [totalSelectedTargets, selectedTables, selectedFields, protectionGuard]);
 
-  const handleRollback = useCallback(async () => {
-    if (!snapshot) {
-      Toast.info('没有快照可回滚，先截个快照吧。');
+  // 用户点了头才拍快照、备份记录；备份出了问题就按极高风险再确认一次
+  const snapshotAndDelete = useCallback(
+    async (
+      plan: DeletionPlan,
+      archive: ArchiveTarget | null,
+      records: number,
+    ) => {
+      const snap = await captureSnapshot('auto', '删除前自动快照');
+      const backupOk = snap
+        ? await backupPlannedRecords(snap.id, plan)
+        : false;
+      const snapshotIssue = !snap
+        ? '删除前快照失败，当前没有新快照可回滚'
+        : !backupOk
+        ? '记录备份失败，删掉的记录没法写回'
+        : null;
+      if (snapshotIssue) {
+        setRiskPrompt({
+          plan,
+          assessment: assessRisk(plan, records, riskSettings, snapshotIssue),
+          records,
+          snapshotId: snap?.id ?? null,
+          archive,
+        });
+        return;
+      }
+      await performDeletion(plan, snap?.id ?? null, archive);
+    },
+    [captureSnapshot, backupPlannedRecords, performDeletion, riskSettings],
+  );
+
+  // 先按影响范围决定要多郑重地确认，反悔了就什么都没动过
+  const handleDelete = useCallback(
+    async (plan: DeletionPlan, archive: ArchiveTarget | null) => {
+      setDeletionPlan(null);
+      setDeleteBusy(true);
+      try {
+        const records = await estimatePlanRecords(plan);
+        const assessment = assessRisk(plan, records, riskSettings);
+        if (assessment.tier !== 'low') {
+          setRiskPrompt({ plan, assessment, records, archive });
+          return;
+        }
+        await snapshotAndDelete(plan, archive, records);
+      } finally {
+        setDeleteBusy(false);
+      }
+    },
+    [snapshotAndDelete, riskSettings],
+  );
+
+  const confirmRiskPrompt = useCallback(async () => {
+    if (!riskPrompt) {
       return;
     }
-    setRollbackBusy(true);
-    const errors: string[] = [];
+    setRiskPrompt(null);
+    setDeleteBusy(true);
     try {
-      const existingTableMetaList = await bitable.base.getTableMetaList();
-      const existingTableNames = new Set<string>(
-        existingTableMetaList.map((meta) => meta.name ?? ''),
-      );
-      for (const tableSnap of snapshot.tables) {
-        let rollbackTableName = `♻️ ${tableSnap.tableName}`;
-        try {
-          const baseRollbackName = rollbackTableName;
-          let suffix = 1;
-          while (existingTableNames.has(rollbackTableName)) {
-            rollbackTableName = `${baseRollbackName} (${suffix})`;
-            suffix += 1;
-          }
+      if (riskPrompt.snapshotId === undefined) {
+        await snapshotAndDelete(
+          riskPrompt.plan,
+          riskPrompt.archive,
+          riskPrompt.records,
+        );
+      } else {
+        await performDeletion(
+          riskPrompt.plan,
+          riskPrompt.snapshotId,
+          riskPrompt.archive,
+        );
+      }
+    } finally {
+      setDeleteBusy(false);
+    }
+  }, [riskPrompt, snapshotAndDelete, performDeletion]);
 
-          const { tableId } = await bitable.base.addTable({
-            name: rollbackTableName,
-            fields: [],
-          });
-          existingTableNames.add(rollbackTableName);
+  const saveRiskSettings = useCallback((next: RiskSettings) => {
+    setRiskSettings(next);
+    persistRiskSettings(next);
+    setRiskSettingsVisible(false);
+    Toast.success('风险阈值已更新。');
+  }, []);
 
-          const table = await bitable.base.getTableById(tableId);
+  // 记录模式：快照和被删记录的备份都成功才动手，找回走快照回滚
+  const handleDeleteRecords = useCallback(
+    async (tableId: string, recordIds: string[]) => {
+      const bundle = tables.find((item) => item.meta.id === tableId);
+      const tableName = bundle?.meta.name || '无名表';
+      if (!bundle) {
+        Toast.error('这张表已经不在了，刷新后再试。');
+        return;
+      }
+      // 面板里已经禁选受保护的表，这里再拦一道
+      if (getTableLock(bundle)) {
+        Toast.warning(`「${tableName}」在保护名单中，记录不能删。`);
+        return;
+      }
+      setRecordDeleteBusy(true);
+      try {
+        const snap = await captureSnapshot('auto', '删除记录前自动快照');
+        if (!snap) {
+          return;
+        }
+        const backupOk = await backupRecords(snap.id, [
+          {
+            tableId,
+            wholeTable: true,
+            fieldIds: [],
+            recordIds,
+            purpose: 'deletedRecords',
+          },
+        ]);
+        if (!backupOk) {
+          return;
+        }
+        const item: ReportItem = {
+          operation: 'deleteRecords',
+          status: 'success',
+          tableId,
+          tableName,
+          message: `按条件删除 ${recordIds.length} 条记录`,
+        };
+        try {
+          const deleted = await deleteRecordsInBatches(
+            tableId,
+            recordIds,
+            setRecordProgress,
+          );
+          item.message = `按条件删除 ${deleted} 条记录`;
+        } catch (error) {
+          console.error(error);
+          item.status = 'failed';
+          item.error = error instanceof Error ? error.message : String(error);
+        } finally {
+          setRecordProgress(null);
+        }
+        presentReport(
+          createReport('delete', '按条件删除记录', [item], snap.id),
+          `${recordIds.length} 条记录已删除，快照里留了备份。`,
+          '记录没删干净',
+        );
+        await refreshTables();
+      } finally {
+        setRecordDeleteBusy(false);
+      }
+    },
+    [
+      tables,
+      getTableLock,
+      captureSnapshot,
+      backupRecords,
+      presentReport,
+      refreshTables,
+    ],
+  );
 
+  // 选中的字段按表分组，受保护的字段排除在外；清空值和转换类型共用
+  const selectedFieldGroups = useMemo(() => {
+    const groups: ClearValuesGroup[] = [];
+    let lockedCount = 0;
+    for (const bundle of tables) {
+      const fields = bundle.fields.filter(
+        (field) => selectedFields[bundle.meta.id]?.[field.id],
+      );
+      const unlocked = fields.filter((field) => !getFieldLock(bundle, field));
+      lockedCount += fields.length - unlocked.length;
+      if (unlocked.length > 0) {
+        groups.push({ bundle, fields: unlocked });
+      }
+    }
+    return { groups, lockedCount };
+  }, [tables, selectedFields, getFieldLock]);
+
+  const handleClearValues = useCallback(
+    async (filter: RecordFilter | null) => {
+      const { groups } = selectedFieldGroups;
+      if (groups.length === 0) {
+        return;
+      }
+      setClearValuesBusy(true);
+      try {
+        const snap = await captureSnapshot('auto', '清空字段值前自动快照');
+        if (!snap) {
+          return;
+        }
+        let recordIds: string[] | null = null;
+        if (filter && groups.length === 1) {
           try {
-            const currentFieldMetas = await table.getFieldMetaList();
-            const primaryField = currentFieldMetas.find(
-              (field: IFieldMeta) => field.isPrimary,
+            const matched = await findMatchingRecords(
+              groups[0].bundle.meta.id,
+              groups[0].bundle.fields,
+              filter,
+              { sampleSize: 0, onProgress: setRecordProgress },
             );
-            if (primaryField) {
-              const safePrimaryName = primaryField.name?.includes('(系统默认)')
-                ? primaryField.name
-                : `${primaryField.name || '主键'} (系统默认)`;
-              if (safePrimaryName !== primaryField.name) {
-                await table.setField(primaryField.id, { name: safePrimaryName });
-              }
-            }
+            recordIds = matched.recordIds;
           } catch (error) {
             console.error(error);
-            errors.push(`表 ${rollbackTableName} 主键重命名失败`);
+            Toast.error('筛选记录失败，字段值还没动。');
+            return;
+          } finally {
+            setRecordProgress(null);
           }
-
-          for (const field of tableSnap.fields) {
-            if (BLOCKED_ROLLBACK_FIELD_TYPES.includes(field.type)) {
-              errors.push(
-                `跳过系统字段 ${field.name}（类型 ${getFieldTypeLabel(
-                  field.type,
-                )}）`,
-              );
-              continue;
-            }
-            if (NON_PORTABLE_ROLLBACK_FIELD_TYPES.has(field.type)) {
-              errors.push(
-                `复杂字段 ${field.name}（类型 ${getFieldTypeLabel(
-                  field.type,
-                )}）暂不支持回滚`,
-              );
-              continue;
-            }
-            try {
-              const addFieldConfig = {
-                type: field.type,
-                name: field.name,
-                property: field.property,
-              } as any;
-              await table.addField(addFieldConfig);
-            } catch (error) {
-              console.error(error);
-              errors.push(
-                `字段 ${field.name} 重建失败（表 ${rollbackTableName}）`,
-              );
+          if (recordIds.length === 0) {
+            Toast.info('没有记录满足条件，什么都没清。');
+            return;
+          }
+        }
+        const backupOk = await backupRecords(
+          snap.id,
+          groups.map((group) => ({
+            tableId: group.bundle.meta.id,
+            wholeTable: false,
+            fieldIds: group.fields.map((field) => field.id),
+            ...(recordIds ? { recordIds } : {}),
+            purpose: 'clearedValues' as const,
+          })),
+        );
+        if (!backupOk) {
+          return;
+        }
+        const items: ReportItem[] = [];
+        for (const group of groups) {
+          const item: ReportItem = {
+            operation: 'clearValues',
+            status: 'success',
+            tableId: group.bundle.meta.id,
+            tableName: group.bundle.meta.name || '无名表',
+          };
+          try {
+            const result = await clearFieldValues(
+              group.bundle.meta.id,
+              group.fields.map((field) => field.id),
+              recordIds,
+              setRecordProgress,
+            );
+            const skipped = result.skippedFieldIds.length;
+            item.message = `清空 ${result.recordCount} 条记录的 ${
+              group.fields.length - skipped
+            } 个字段`;
+            if (skipped > 0) {
+              item.message += `，跳过 ${skipped} 个计算字段`;
             }
+          } catch (error) {
+            console.error(error);
+            item.status = 'failed';
+            item.error = error instanceof Error ? error.message : String(error);
           }
-        } catch (error) {
-          console.error(error);
-          errors.push(`表 ${rollbackTableName} 重建失败`);
+          items.push(item);
         }
+        setRecordProgress(null);
+        setLastClearSnapshotId(snap.id);
+        presentReport(
+          createReport('delete', '清空字段值', items, snap.id),
+          '字段值已清空，旧值在快照里备着，随时可以撤销。',
+          '字段值没清干净',
+        );
+        await refreshTables();
+      } finally {
+        setClearValuesBusy(false);
       }
-      if (errors.length > 0) {
-        Toast.warning(`回滚部分成功：${errors.join(' / ')}`);
-      } else {
-        Toast.success('快照回滚完成，误删的结构已复活。');
+    },
+    [
+      selectedFieldGroups,
+      captureSnapshot,
+      backupRecords,
+      presentReport,
+      refreshTables,
+    ],
+  );
+
+  const undoLastClear = useCallback(async () => {
+    const snap = library.snapshots.find(
+      (item) => item.id === lastClearSnapshotId,
+    );
+    if (!snap?.recordBackup) {
+      Toast.info('上次清空前的快照已经不在了，没法撤销。');
+      setLastClearSnapshotId(null);
+      return;
+    }
+    setClearUndoing(true);
+    try {
+      const items = await restoreBackedUpValues(
+        snap,
+        'clearedValues',
+        setRecordProgress,
+      );
+      presentReport(
+        createReport('rollback', '撤销清空', items, snap.id),
+        '清空的值已经写回去了。',
+        '撤销清空部分成功',
+      );
+      setLastClearSnapshotId(null);
+      await refreshTables();
+    } finally {
+      setRecordProgress(null);
+      setClearUndoing(false);
+    }
+  }, [library.snapshots, lastClearSnapshotId, presentReport, refreshTables]);
+
+  const applyConversions = useCallback(
+    async (changes: ConversionChange[]) => {
+      setConversionBusy(true);
+      try {
+        const snap = await captureSnapshot('auto', '转换字段类型前自动快照');
+        if (!snap) {
+          return;
+        }
+        const tableIds = Array.from(
+          new Set(changes.map((change) => change.tableId)),
+        );
+        const backupOk = await backupRecords(
+          snap.id,
+          tableIds.map((tableId) => ({
+            tableId,
+            wholeTable: false,
+            fieldIds: changes
+              .filter((change) => change.tableId === tableId)
+              .map((change) => change.fieldId),
+            purpose: 'convertedValues' as const,
+          })),
+        );
+        if (!backupOk) {
+          return;
+        }
+        const items = await convertFieldTypes(changes);
+        const converted = changes.filter(
+          (_, index) => items[index].status === 'success',
+        );
+        setLastConversion({ snapshotId: snap.id, changes: converted });
+        presentReport(
+          createReport('convert', '转换字段类型', items, snap.id),
+          `${converted.length} 个字段换好类型了，原值备份在快照里。`,
+          '类型转换部分成功',
+        );
+        await refreshTables();
+      } finally {
+        setConversionBusy(false);
+      }
+    },
+    [captureSnapshot, backupRecords, presentReport, refreshTables],
+  );
+
+  const undoLastConversion = useCallback(async () => {
+    const snap = library.snapshots.find(
+      (item) => item.id === lastConversion?.snapshotId,
+    );
+    if (!lastConversion || !snap?.recordBackup) {
+      Toast.info('上次转换前的快照已经不在了，没法撤销。');
+      setLastConversion(null);
+      return;
+    }
+    setConversionUndoing(true);
+    try {
+      const items = await revertConversions(snap, lastConversion.changes);
+      const reverted = new Set(
+        items
+          .filter((item) => item.status === 'success')
+          .map((item) => `${item.tableId}:${item.fieldId}`),
+      );
+      // 只往已经改回原类型的字段写值，免得又被新类型吃掉
+      const valueItems = await restoreBackedUpValues(
+        {
+          ...snap,
+          recordBackup: {
+            ...snap.recordBackup,
+            tables: snap.recordBackup.tables
+              .map((table) => ({
+                ...table,
+                fieldIds: table.fieldIds.filter((fieldId) =>
+                  reverted.has(`${table.tableId}:${fieldId}`),
+                ),
+              }))
+              .filter((table) => table.fieldIds.length > 0),
+          },
+        },
+        'convertedValues',
+        setRecordProgress,
+      );
+      presentReport(
+        createReport(
+          'rollback',
+          '撤销类型转换',
+          [...items, ...valueItems],
+          snap.id,
+        ),
+        '字段类型和原值都回来了。',
+        '撤销类型转换部分成功',
+      );
+      setLastConversion(null);
+      await refreshTables();
+    } finally {
+      setRecordProgress(null);
+      setConversionUndoing(false);
+    }
+  }, [library.snapshots, lastConversion, presentReport, refreshTables]);
+
+  // 删视图前先把配置记进快照，回滚时照着重建
+  const handleDeleteViews = useCallback(
+    async (targets: ViewTarget[]) => {
+      setViewDeleteBusy(true);
+      try {
+        const snap = await captureSnapshot('auto', '删除视图前自动快照');
+        if (!snap) {
+          return;
+        }
+        const views = await captureViewConfigs(targets);
+        setLibrary((prev) => updateSnapshot(prev, snap.id, { views }));
+        const items = await deleteViews(targets);
+        const deleted = items.filter((item) => item.status === 'success');
+        presentReport(
+          createReport('delete', '删除视图', items, snap.id),
+          `${deleted.length} 个视图删掉了，配置记在快照里，回滚就能重建。`,
+          '视图删除部分成功',
+        );
+        await refreshTables();
+      } finally {
+        setViewDeleteBusy(false);
+      }
+    },
+    [captureSnapshot, presentReport, refreshTables],
+  );
+
+  const renameTargets = useMemo(
+    () =>
+      tables.flatMap((bundle): RenameTarget[] => {
+        const tableName = bundle.meta.name || '无名表';
+        const fields = bundle.fields
+          .filter((field) => selectedFields[bundle.meta.id]?.[field.id])
+          .map((field) => ({
+            kind: 'field' as const,
+            tableId: bundle.meta.id,
+            tableName,
+            fieldId: field.id,
+            name: field.name,
+          }));
+        return selectedTables[bundle.meta.id]
+          ? [
+              {
+                kind: 'table',
+                tableId: bundle.meta.id,
+                tableName,
+                name: bundle.meta.name,
+              },
+              ...fields,
+            ]
+          : fields;
+      }),
+    [tables, selectedTables, selectedFields],
+  );
+
+  const applyRenames = useCallback(
+    async (changes: RenameChange[]) => {
+      setRenameBusy(true);
+      try {
+        const snap = await captureSnapshot('auto', '批量改名前自动快照');
+        if (!snap) {
+          return;
+        }
+        const items = await executeRenames(changes);
+        const applied = changes.filter(
+          (_, index) => items[index].status === 'success',
+        );
+        setLastRename({ snapshotId: snap.id, changes: applied });
+        presentReport(
+          createReport('rename', '批量改名', items, snap.id),
+          `${applied.length} 个名字改好了，旧名字记在快照里。`,
+          '改名部分成功',
+        );
+        await refreshTables();
+      } finally {
+        setRenameBusy(false);
       }
+    },
+    [captureSnapshot, presentReport, refreshTables],
+  );
+
+  const undoLastRename = useCallback(async () => {
+    const snap = library.snapshots.find(
+      (item) => item.id === lastRename?.snapshotId,
+    );
+    if (!lastRename || !snap) {
+      Toast.info('上次改名前的快照已经不在了，没法撤销。');
+      setLastRename(null);
+      return;
+    }
+    setRenameUndoing(true);
+    try {
+      const items = await revertRenames(snap, lastRename.changes);
+      presentReport(
+        createReport('rollback', '撤销改名', items, snap.id),
+        '名字都改回去了。',
+        '撤销改名部分成功',
+      );
+      setLastRename(null);
       await refreshTables();
     } finally {
+      setRenameUndoing(false);
+    }
+  }, [library.snapshots, lastRename, presentReport, refreshTables]);
+
+  const handleRollback = useCallback(async () => {
+    if (!snapshot) {
+      Toast.info('没有快照可回滚，先截个快照吧。');
+      return;
+    }
+    setRollbackBusy(true);
+    try {
+      const outcome = await runRollback(
+        snapshot,
+        rollbackMode,
+        setRecordProgress,
+      );
+      presentReport(
+        createReport('rollback', '快照回滚', outcome.items, snapshot.id),
+        `快照回滚完成，误删的结构已复活${describeRollbackOutcome(outcome)}。`,
+        '回滚部分成功',
+      );
+      await refreshTables();
+    } catch (error) {
+      console.error(error);
+      Toast.error('回滚失败，读取当前表结构出错。');
+    } finally {
+      setRecordProgress(null);
       setRollbackBusy(false);
     }
-  }, [snapshot, refreshTables]);
+  }, [snapshot, rollbackMode, refreshTables, presentReport]);
+
+  const restoreFromDiff = useCallback(
+    async (tableDiff: TableDiff, fieldDiff?: FieldDiff) => {
+      if (!diffSnapshot) {
+        return;
+      }
+      setDiffRestoringKey(
+        fieldDiff ? `${tableDiff.key}/${fieldDiff.key}` : tableDiff.key,
+      );
+      try {
+        const outcome = await restoreDiffItem(
+          diffSnapshot,
+          tableDiff,
+          fieldDiff,
+          setRecordProgress,
+        );
+        presentReport(
+          createReport('rollback', '单项恢复', outcome.items, diffSnapshot.id),
+          `这一项已恢复${describeRollbackOutcome(outcome)}。`,
+          '恢复部分成功',
+        );
+        await refreshTables();
+      } catch (error) {
+        console.error(error);
+        Toast.error('恢复失败，读取当前表结构出错。');
+      } finally {
+        setRecordProgress(null);
+        setDiffRestoringKey(null);
+      }
+    },
+    [diffSnapshot, refreshTables, presentReport],
+  );
+
+  const resumeJournal = useCallback(async () => {
+    if (!interruptedJournal) {
+      return;
+    }
+    setInterruptedJournal(null);
+    setDeleteBusy(true);
+    try {
+      await executeDeletion(
+        interruptedJournal,
+        getJournalEntries(interruptedJournal, 'pending'),
+      );
+      await refreshTables();
+    } finally {
+      setDeleteBusy(false);
+    }
+  }, [interruptedJournal, executeDeletion, refreshTables]);
+
+  const skipJournal = useCallback(async () => {
+    setInterruptedJournal(null);
+    await persistJournal(null);
+    Toast.info('剩余项已跳过，不会再执行。');
+  }, []);
+
+  const rollbackJournal = useCallback(async () => {
+    const target = library.snapshots.find(
+      (item) => item.id === interruptedJournal?.snapshotId,
+    );
+    if (!interruptedJournal || !target) {
+      Toast.error('找不到删除前的快照，无法回滚。');
+      return;
+    }
+    setJournalBusy(true);
+    try {
+      const outcome = await restoreDeletedItems(
+        target,
+        getJournalEntries(interruptedJournal, 'done'),
+        setRecordProgress,
+      );
+      presentReport(
+        createReport('rollback', '回滚中断的删除', outcome.items, target.id),
+        `已删除的部分已恢复${describeRollbackOutcome(outcome)}。`,
+        '回滚部分成功',
+      );
+      setInterruptedJournal(null);
+      await persistJournal(null);
+      await refreshTables();
+    } catch (error) {
+      console.error(error);
+      Toast.error('回滚失败，读取当前表结构出错。');
+    } finally {
+      setRecordProgress(null);
+      setJournalBusy(false);
+    }
+  }, [library, interruptedJournal, refreshTables, presentReport]);
+
+  // 删除报告按 ID 重新删除；回滚报告按快照里的原 ID 再走一次原位恢复
+  const retryReportItems = useCallback(
+    async (items: ReportItem[]) => {
+      if (!lastReport) {
+        return;
+      }
+      setReportRetrying(true);
+      setReportVisible(false);
+      try {
+        if (lastReport.kind === 'delete') {
+          const planItems: PlanItem[] = items.map((item) => ({
+            key: item.fieldId
+              ? fieldPlanKey(item.tableId ?? '', item.fieldId)
+              : tablePlanKey(item.tableId ?? ''),
+            kind: item.fieldId ? 'field' : 'table',
+            tableId: item.tableId ?? '',
+            tableName: item.tableName,
+            fieldId: item.fieldId,
+            fieldName: item.fieldName,
+            skipReason: null,
+          }));
+          await executeDeletion(
+            createJournal(planItems, null, await getJournalOwner()),
+            planItems,
+          );
+        } else {
+          const target = library.snapshots.find(
+            (item) => item.id === lastReport.snapshotId,
+          );
+          if (!target) {
+            Toast.error('找不到对应的快照，无法重试。');
+            return;
+          }
+          const outcome = await restoreDeletedItems(
+            target,
+            items.map((item) => ({
+              tableId: item.tableId ?? '',
+              tableName: item.tableName,
+              fieldId: item.fieldId,
+              fieldName: item.fieldName,
+            })),
+            setRecordProgress,
+          );
+          presentReport(
+            createReport('rollback', '重试失败项', outcome.items, target.id),
+            `失败项已重试成功${describeRollbackOutcome(outcome)}。`,
+            '重试后仍有失败',
+          );
+        }
+        await refreshTables();
+      } catch (error) {
+        console.error(error);
+        Toast.error('重试失败，读取当前表结构出错。');
+      } finally {
+        setRecordProgress(null);
+        setReportRetrying(false);
+      }
+    },
+    [lastReport, library, executeDeletion, refreshTables, presentReport],
+  );
+
+  // 把尚未入表的日志追加到 BulkDel Audit 表，成功后打上已同步标记
+  const syncAuditToTable = useCallback(async () => {
+    const pending = auditLog.entries.filter((entry) => !entry.syncedAt);
+    if (pending.length === 0) {
+      return;
+    }
+    setAuditSyncing(true);
+    try {
+      // 表里按时间顺序追加，旧的在上
+      await appendAuditEntriesToTable([...pending].reverse());
+      setAuditLog((prev) =>
+        markAuditEntriesSynced(
+          prev,
+          new Set(pending.map((entry) => entry.id)),
+          new Date().toISOString(),
+        ),
+      );
+      Toast.success(`已写入 ${pending.length} 条审计日志。`);
+      await refreshTables();
+    } catch (error) {
+      console.error(error);
+      Toast.error('写入审计表失败，检查一下编辑权限再试。');
+    } finally {
+      setAuditSyncing(false);
+    }
+  }, [auditLog, refreshTables]);
 
   const manualSnapshot = useCallback(async () => {
-    await captureSnapshot('手动快照');
+    await captureSnapshot('manual', '手动快照');
   }, [captureSnapshot]);
 
+  const renameLibrarySnapshot = useCallback(
+    (snapshotId: string, label: string) => {
+      setLibrary((prev) => updateSnapshot(prev, snapshotId, { label }));
+    },
+    [],
+  );
+
+  const toggleSnapshotPin = useCallback((snapshotId: string) => {
+    setLibrary((prev) => {
+      const target = prev.snapshots.find((item) => item.id === snapshotId);
+      return target
+        ? updateSnapshot(prev, snapshotId, { pinned: !target.pinned })
+        : prev;
+    });
+  }, []);
+
+  const deleteLibrarySnapshot = useCallback((snapshotId: string) => {
+    setLibrary((prev) => removeSnapshot(prev, snapshotId));
+    setSelectedSnapshotId((prev) => (prev === snapshotId ? null : prev));
+    Toast.info('快照已删除。');
+  }, []);
+
+  const exportLibrarySnapshot = useCallback(
+    async (snapshotId: string) => {
+      const target = library.snapshots.find((item) => item.id === snapshotId);
+      if (!target) {
+        return;
+      }
+      try {
+        await downloadSnapshotFile(target);
+        Toast.success('快照已导出，记得放进安全的地方。');
+      } catch (error) {
+        console.error(error);
+        Toast.error('快照导出失败，再试一次。');
+      }
+    },
+    [library],
+  );
+
+  const importSnapshotFile = useCallback(async (file: File) => {
+    const renderReport = (report: SnapshotValidationReport) => (
+      <div className="confirm-content">
+        {report.migratedFrom && <p>· 已从 {report.migratedFrom} 迁移到当前格式。</p>}
+        {report.errors.map((item) => (
+          <p key={`error-${item}`}>· ❌ {item}</p>
+        ))}
+        {report.warnings.map((item) => (
+          <p key={`warning-${item}`}>· ⚠️ {item}</p>
+        ))}
+      </div>
+    );
+    try {
+      const text = await file.text();
+      const result = await parseSnapshotFile(text);
+      if (!result.ok) {
+        Modal.error({
+          title: `快照文件 ${file.name} 校验未通过`,
+          content: renderReport(result.report),
+          width: 480,
+        });
+        return;
+      }
+      // 导入的快照默认置顶，避免时间戳较旧时立刻被保留策略清理掉
+      const collides = library.snapshots.some(
+        (item) => item.id === result.snapshot.id,
+      );
+      const imported = {
+        ...result.snapshot,
+        id: collides ? createSnapshotId() : result.snapshot.id,
+        pinned: true,
+        // 记录值只存在导出方的 IndexedDB 里，文件中的摘要已无对应数据
+        recordBackup: undefined,
+      };
+      setLibrary((prev) => addSnapshot(prev, imported));
+      setSelectedSnapshotId(imported.id);
+      if (result.report.warnings.length > 0 || result.report.migratedFrom) {
+        Modal.warning({
+          title: '快照已导入（附带提醒）',
+          content: renderReport(result.report),
+          width: 480,
+        });
+      } else {
+        Toast.success('快照已导入并置顶。');
+      }
+    } catch (error) {
+      console.error(error);
+      Toast.error('读取快照文件失败。');
+    }
+  }, [library]);
+
+  const changeRetention = useCallback((keepUnpinned: number | null) => {
+    setLibrary((prev) => setRetention(prev, { keepUnpinned }));
+  }, []);
+
   const selectVisibleTables = useCallback(() => {
     if (renderBundles.length === 0) {
       Toast.info('当前筛选没有表可以选择。');
       return;
     }
+    // 只有表名本身命中查询的表才整表勾选，按字段条件筛出来的表不算
+    const matchedBundles = renderBundles.filter(
+      (item) => item.tableMatches && !getTableLock(item.bundle),
+    );
+    if (matchedBundles.length === 0) {
+      Toast.info('当前查询筛的是字段，没有整表命中，试试「全选字段」。');
+      return;
+    }
     const next: Record<string, boolean> = {};
-    for (const { bundle } of renderBundles) {
+    for (const { bundle } of matchedBundles) {
       next[bundle.meta.id] = true;
     }
     setSelectedTables(next);
     setSelectedFields({});
     Toast.success('已选中所有筛选内的表。');
-  }, [renderBundles]);
+  }, [renderBundles, getTableLock]);
 
   const selectVisibleFields = useCallback(() => {
     if (renderBundles.length === 0) {
@@ -820,14 +2040,479 @@ export default function App() {
       if (visibleFields.length === 0) {
         continue;
       }
+      const selectable = visibleFields.filter(
+        (field) => !getFieldLock(bundle, field),
+      );
+      if (selectable.length === 0) {
+        continue;
+      }
       next[bundle.meta.id] = {};
-      for (const field of visibleFields) {
+      for (const field of selectable) {
         next[bundle.meta.id][field.id] = true;
       }
     }
     setSelectedFields(next);
-    Toast.success('已选中当前筛选的字段。');
-  }, [renderBundles, selectedTables]);
+    Toast.success('已选中当前筛选的字段，受保护的字段已跳过。');
+  }, [renderBundles, selectedTables, getFieldLock]);
+
+  // 分页读完每张表的记录再出统计，中途可停，已扫完的表照常显示
+  const scanUsage = useCallback(async () => {
+    if (tables.length === 0) {
+      Toast.info('还没有表可以扫描。');
+      return;
+    }
+    const controller = new AbortController();
+    usageAbortRef.current = controller;
+    try {
+      await scanFieldUsage(tables, {
+        signal: controller.signal,
+        onProgress: setUsageProgress,
+        onTableScanned: (tableId, usage) =>
+          setFieldUsage((prev) => ({ ...prev, [tableId]: usage })),
+      });
+      if (controller.signal.aborted) {
+        Toast.info('扫描已停止，已扫完的表照常显示。');
+      } else {
+        Toast.success('字段用量扫描完成。');
+      }
+    } catch (error) {
+      console.error(error);
+      Toast.error('扫描字段用量失败，读取记录时出错。');
+    } finally {
+      usageAbortRef.current = null;
+      setUsageProgress(null);
+    }
+  }, [tables]);
+
+  const cancelUsageScan = useCallback(() => {
+    usageAbortRef.current?.abort();
+    setUsageProgress((prev) => (prev ? { ...prev, cancelling: true } : prev));
+  }, []);
+
+  const selectLowFillFields = useCallback(() => {
+    let count = 0;
+    const next = { ...selectedFields };
+    for (const { bundle, visibleFields } of renderBundles) {
+      const tableUsage = fieldUsage[bundle.meta.id];
+      if (!tableUsage || selectedTables[bundle.meta.id]) {
+        continue;
+      }
+      for (const field of visibleFields) {
+        const usage = tableUsage[field.id];
+        if (
+          field.isPrimary ||
+          getFieldLock(bundle, field) ||
+          !usage ||
+          usage.fillRate * 100 >= fillThreshold
+        ) {
+          continue;
+        }
+        next[bundle.meta.id] = {
+          ...(next[bundle.meta.id] ?? {}),
+          [field.id]: true,
+        };
+        count += 1;
+      }
+    }
+    if (count === 0) {
+      Toast.info(`没有填充率低于 ${fillThreshold}% 的字段。`);
+      return;
+    }
+    setSelectedFields(next);
+    Toast.success(`已选中 ${count} 个填充率低于 ${fillThreshold}% 的字段。`);
+  }, [
+    renderBundles,
+    fieldUsage,
+    selectedTables,
+    selectedFields,
+    fillThreshold,
+    getFieldLock,
+  ]);
+
+  const hasFieldUsage = Object.keys(fieldUsage).length > 0;
+
+  const compareDuplicateContents = useCallback(
+    async (enabled: boolean) => {
+      if (!enabled) {
+        setDuplicateContents(null);
+        return;
+      }
+      setDuplicateComparing(true);
+      try {
+        const contents = new Map<string, ContentFingerprints>();
+        for (const bundle of tables) {
+          contents.set(bundle.meta.id, await fingerprintTableContents(bundle));
+        }
+        setDuplicateContents(contents);
+      } catch (error) {
+        console.error(error);
+        Toast.error('读取记录失败，暂时只按名称和属性比对。');
+      } finally {
+        setDuplicateComparing(false);
+      }
+    },
+    [tables],
+  );
+
+  // 重复字段加入删除勾选，索引列永远留着
+  const queueDuplicates = useCallback(
+    (group: DuplicateGroup, keepFieldId: string) => {
+      if (selectedTables[group.tableId]) {
+        Toast.info('整张表已经勾选删除，不用再单独挑字段。');
+        return;
+      }
+      const duplicates = group.fields.filter(
+        (field) =>
+          field.id !== keepFieldId &&
+          !field.isPrimary &&
+          !protectionGuard.fieldRule(
+            group.tableId,
+            group.tableName,
+            field.id,
+            field.name || '无名字段',
+          ),
+      );
+      setSelectedFields((prev) => ({
+        ...prev,
+        [group.tableId]: {
+          ...(prev[group.tableId] ?? {}),
+          ...Object.fromEntries(duplicates.map((field) => [field.id, true])),
+        },
+      }));
+      Toast.success(
+        `已把 ${duplicates.length} 个重复字段加入删除勾选，确认删除计划后才会真正删除。`,
+      );
+    },
+    [selectedTables, protectionGuard],
+  );
+
+  const mergeDuplicates = useCallback(
+    async (group: DuplicateGroup, keepFieldId: string) => {
+      const keep = group.fields.find((field) => field.id === keepFieldId);
+      if (!keep) {
+        return;
+      }
+      setMergingKey(group.key);
+      try {
+        const filled = await mergeDuplicateFields(
+          group.tableId,
+          keep,
+          group.fields.filter((field) => field.id !== keepFieldId),
+          setRecordProgress,
+        );
+        // 单元格变了，内容指纹作废
+        setDuplicateContents(null);
+        Toast.success(`已补齐「${keep.name}」的 ${filled} 个空单元格。`);
+        queueDuplicates(group, keepFieldId);
+      } catch (error) {
+        console.error(error);
+        Toast.error('合并失败，重复字段还没动，检查一下编辑权限再试。');
+      } finally {
+        setRecordProgress(null);
+        setMergingKey(null);
+      }
+    },
+    [queueDuplicates],
+  );
+
+  // 先刷新表结构，配方预览对照的是最新的表与字段
+  const openRecipes = useCallback(async () => {
+    await refreshTables();
+    setRecipesVisible(true);
+  }, [refreshTables]);
+
+  const saveRecipe = useCallback(
+    (name: string, scope: RecipeScope) => {
+      const recipe = createRecipe(
+        name,
+        scope,
+        tableQuery,
+        fieldTypeFilter,
+        tables,
+        collectSelectionItems(tables, selectedTables, selectedFields),
+        fieldUsage,
+      );
+      setRecipeLibrary((prev) => upsertRecipe(prev, recipe));
+      Toast.success(
+        `配方「${name}」已保存，当前命中 ${recipe.items.length} 项。`,
+      );
+    },
+    [
+      tableQuery,
+      fieldTypeFilter,
+      tables,
+      selectedTables,
+      selectedFields,
+      fieldUsage,
+    ],
+  );
+
+  const loadRecipeFilter = useCallback((recipe: CleanupRecipe) => {
+    setTableQuery(recipe.query);
+    setFieldTypeFilter(recipe.fieldTypeFilter);
+    setRecipesVisible(false);
+  }, []);
+
+  // 按预览结果重新勾选，真正删除仍要走删除计划确认
+  const applyRecipe = useCallback(
+    (recipe: CleanupRecipe, preview: RecipePreview) => {
+      const nextTables: Record<string, boolean> = {};
+      const nextFields: Record<string, Record<string, boolean>> = {};
+      const allowed = preview.matched.filter(
+        (item) =>
+          !(item.kind === 'table'
+            ? getTableContentRule(
+                protectionGuard,
+                item.tableId,
+                item.tableName,
+                tables.find((bundle) => bundle.meta.id === item.tableId)
+                  ?.fields ?? [],
+              )
+            : protectionGuard.fieldRule(
+                item.tableId,
+                item.tableName,
+                item.fieldId ?? '',
+                item.fieldName ?? '',
+              )),
+      );
+      for (const item of allowed) {
+        if (item.kind === 'table') {
+          nextTables[item.tableId] = true;
+        } else if (item.fieldId) {
+          nextFields[item.tableId] = {
+            ...(nextFields[item.tableId] ?? {}),
+            [item.fieldId]: true,
+          };
+        }
+      }
+      setSelectedTables(nextTables);
+      setSelectedFields(nextFields);
+      setRecipeLibrary((prev) =>
+        upsertRecipe(prev, {
+          ...recipe,
+          lastRunAt: new Date().toISOString(),
+          // 规则类配方记下这次命中的结果，下次好比对新增与消失的项
+          items:
+            recipe.scope === 'selection'
+              ? recipe.items
+              : preview.matched.map(({ isNew, ...item }) => item),
+        }),
+      );
+      setRecipesVisible(false);
+      setDeletePanelOpen(true);
+      const locked = preview.matched.length - allowed.length;
+      Toast.success(
+        `已按配方勾选 ${allowed.length} 项${
+          preview.missing.length > 0
+            ? `，${preview.missing.length} 项已不存在`
+            : ''
+        }${locked > 0 ? `，${locked} 项受保护已跳过` : ''}。`,
+      );
+    },
+    [protectionGuard, tables],
+  );
+
+  const deleteRecipe = useCallback((recipeId: string) => {
+    setRecipeLibrary((prev) => removeRecipe(prev, recipeId));
+  }, []);
+
+  // 保护名单改动后，已经勾上的受保护条目顺手取消
+  const saveProtection = useCallback(
+    (rules: ProtectionRule[]) => {
+      const next: ProtectionList = {
+        version: 1,
+        rules,
+        updatedAt: new Date().toISOString(),
+      };
+      const guard = createProtectionGuard(next);
+      setProtectionList(next);
+      persistProtection(next);
+      setSelectedTables((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).filter(([tableId]) => {
+            const bundle = tables.find((item) => item.meta.id === tableId);
+            return (
+              !bundle ||
+              !getTableContentRule(
+                guard,
+                tableId,
+                bundle.meta.name || '无名表',
+                bundle.fields,
+              )
+            );
+          }),
+        ),
+      );
+      setSelectedFields((prev) => {
+        const result: Record<string, Record<string, boolean>> = {};
+        for (const bundle of tables) {
+          const picked = Object.entries(prev[bundle.meta.id] ?? {}).filter(
+            ([fieldId]) => {
+              const field = bundle.fields.find((item) => item.id === fieldId);
+              return (
+                !field ||
+                !guard.fieldRule(
+                  bundle.meta.id,
+                  bundle.meta.name || '无名表',
+                  field.id,
+                  field.name || '无名字段',
+                )
+              );
+            },
+          );
+          if (picked.length > 0) {
+            result[bundle.meta.id] = Object.fromEntries(picked);
+          }
+        }
+        return result;
+      });
+      setProtectionVisible(false);
+      Toast.success(`保护名单已更新，共 ${rules.length} 条规则。`);
+    },
+    [tables],
+  );
+
+  // 温和版删除：只改名加标记、在视图里隐藏，什么都不删
+  const quarantineSelection = useCallback(async () => {
+    const known = new Set(
+      quarantineList.entries.map((entry) =>
+        quarantineItemKey(entry.tableId, entry.fieldId),
+      ),
+    );
+    const candidates = collectSelectionItems(
+      tables,
+      selectedTables,
+      selectedFields,
+    ).filter(
+      (item) => !known.has(quarantineItemKey(item.tableId, item.fieldId)),
+    );
+    // 隔离会改名、隐藏，受保护的目标跟删除一样不碰
+    const locked = candidates.filter(
+      (item) => !!getPlanItemRule(protectionGuard, item, tables),
+    );
+    const items = candidates.filter((item) => !locked.includes(item));
+    if (candidates.length === 0) {
+      Toast.info('先勾选要隔离的目标；已经在隔离区里的不会重复隔离。');
+      return;
+    }
+    if (items.length === 0) {
+      Toast.warning(`勾选的 ${locked.length} 项都在保护名单中，没有隔离。`);
+      return;
+    }
+    setQuarantineBusy(true);
+    try {
+      const { entries, failed } = await quarantineItems(items);
+      setQuarantineList((prev) => ({
+        ...prev,
+        entries: [...entries, ...prev.entries],
+      }));
+      recordAudit(
+        'quarantine',
+        '移入隔离区',
+        [
+          ...entries.map(describeQuarantineItem),
+          ...failed.map(
+            ({ item, error }) => `${describeQuarantineItem(item)}（${error}）`,
+          ),
+          ...locked.map(
+            (item) => `${describeQuarantineItem(item)}（受保护，已跳过）`,
+          ),
+        ],
+        {
+          success: entries.length,
+          skipped: locked.length,
+          failed: failed.length,
+        },
+      );
+      if (failed.length > 0) {
+        Toast.warning(
+          `隔离了 ${entries.length} 项，${failed.length} 项失败：${failed[0].error}`,
+        );
+      } else if (locked.length > 0) {
+        Toast.warning(
+          `隔离了 ${entries.length} 项，${locked.length} 项受保护已跳过。`,
+        );
+      } else {
+        Toast.success(`${entries.length} 项已进隔离区，后悔了随时能恢复。`);
+      }
+      setSelectedTables({});
+      setSelectedFields({});
+      await refreshTables();
+    } finally {
+      setQuarantineBusy(false);
+    }
+  }, [
+    quarantineList,
+    tables,
+    selectedTables,
+    selectedFields,
+    protectionGuard,
+    recordAudit,
+    refreshTables,
+  ]);
+
+  const restoreQuarantine = useCallback(
+    async (entryId: string) => {
+      const entry = quarantineList.entries.find((item) => item.id === entryId);
+      if (!entry) {
+        return;
+      }
+      setRestoringQuarantineId(entryId);
+      try {
+        await restoreQuarantineEntry(entry);
+        setQuarantineList((prev) => ({
+          ...prev,
+          entries: prev.entries.filter((item) => item.id !== entryId),
+        }));
+        recordAudit(
+          'quarantine',
+          '移出隔离区',
+          [describeQuarantineItem(entry)],
+          { success: 1, skipped: 0, failed: 0 },
+        );
+        Toast.success(`「${describeQuarantineItem(entry)}」已恢复原样。`);
+        await refreshTables();
+      } catch (error) {
+        console.error(error);
+        Toast.error('恢复失败，目标可能已被删除或重名。');
+      } finally {
+        setRestoringQuarantineId(null);
+      }
+    },
+    [quarantineList, recordAudit, refreshTables],
+  );
+
+  // 清除走正常删除流程：删除计划 → 风险确认 → 快照后执行
+  const purgeQuarantine = useCallback(
+    async (days: number) => {
+      const entries = getEntriesOlderThan(quarantineList, days);
+      if (entries.length === 0) {
+        return;
+      }
+      setQuarantineVisible(false);
+      setDeleteBusy(true);
+      try {
+        const bundles = await loadTableBundles();
+        const selection = toDeletionSelection(entries);
+        setDeletionPlan(
+          protectPlanItems(
+            buildDeletionPlan(
+              bundles,
+              selection.selectedTables,
+              selection.selectedFields,
+            ),
+            (item) => !!getPlanItemRule(protectionGuard, item, bundles),
+          ),
+        );
+      } catch (error) {
+        console.error(error);
+        Toast.error('生成删除计划失败，读取表结构出错。');
+      } finally {
+        setDeleteBusy(false);
+      }
+    },
+    [quarantineList, protectionGuard],
+  );
 
   const clearSelections = useCallback(() => {
     setSelectedTables(() => ({}));
@@ -865,15 +2550,61 @@ export default function App() {
         </div>
       </div>
 
+      {jobProgress && (
+        <JobProgressPanel progress={jobProgress} onCancel={cancelJob} />
+      )}
+
+      {usageProgress && (
+        <UsageScanProgress
+          progress={usageProgress}
+          onCancel={cancelUsageScan}
+        />
+      )}
+
+      {recordProgress && (
+        <div className="record-progress">
+          <Typography.Text type="tertiary">
+            正在处理「{recordProgress.label}」的记录：{recordProgress.done} /{' '}
+            {recordProgress.total}
+          </Typography.Text>
+          <Progress
+            percent={
+              recordProgress.total > 0
+                ? Math.round((recordProgress.done / recordProgress.total) * 100)
+                : 0
+            }
+            showInfo
+          />
+        </div>
+      )}
+
       <section className="filters">
         <div className="filters-inputs">
           <div className="filters-field filters-field--search">
-            <Input
+            <AutoComplete
               prefix={<IconSearch />}
-              placeholder="按表名 / 字段名检索"
+              placeholder="按表名 / 字段名检索，支持 table: type: name:/正则/ -取反"
               value={tableQuery}
-              onChange={(value) => setTableQuery(value)}
+              data={querySuggestions}
+              validateStatus={
+                parsedQuery.errors.length > 0 ? 'error' : 'default'
+              }
+              onChange={(value: string | number) =>
+                setTableQuery(String(value))
+              }
             />
+            {parsedQuery.errors.length > 0 && (
+              <Typography.Text type="danger" size="small">
+                {parsedQuery.errors
+                  .map((error) => `${error.token}：${error.message}`)
+                  .join('；')}
+              </Typography.Text>
+            )}
+            {parsedQuery.needsUsage && !hasFieldUsage && (
+              <Typography.Text type="warning" size="small">
+                empty: / fill: 条件要先「扫描字段用量」才能生效。
+              </Typography.Text>
+            )}
           </div>
           <div className="filters-field filters-field--type">
             <Select
@@ -918,87 +2649,290 @@ export default function App() {
         </div>
       </section>
 
+      <section className="usage-toolbar">
+        <Tooltip content="逐张表读取全部记录，统计每个字段的填充率、不同值个数与最近修改时间">
+          <Button
+            theme="light"
+            loading={!!usageProgress}
+            onClick={scanUsage}
+          >
+            {hasFieldUsage ? '重新扫描用量' : '扫描字段用量'}
+          </Button>
+        </Tooltip>
+        <Select
+          className="usage-toolbar__sort"
+          value={usageSort}
+          disabled={!hasFieldUsage}
+          optionList={USAGE_SORT_OPTIONS}
+          onChange={(value) => setUsageSort(value as UsageSort)}
+        />
+        <div className="usage-toolbar__threshold">
+          <InputNumber
+            value={fillThreshold}
+            min={0}
+            max={100}
+            suffix="%"
+            disabled={!hasFieldUsage}
+            onNumberChange={(value) =>
+              setFillThreshold(Number.isFinite(value) ? value : 0)
+            }
+          />
+          <Button
+            theme="light"
+            type="warning"
+            disabled={!hasFieldUsage}
+            onClick={selectLowFillFields}
+          >
+            选中填充率低于 {fillThreshold}% 的字段
+          </Button>
+        </div>
+        <Button
+          theme="light"
+          icon={<IconLock />}
+          onClick={() => setProtectionVisible(true)}
+        >
+          保护名单
+          {protectionList.rules.length > 0
+            ? `（${protectionList.rules.length}）`
+            : ''}
+        </Button>
+        <Button
+          theme="light"
+          icon={<IconInbox />}
+          onClick={() => setQuarantineVisible(true)}
+        >
+          隔离区
+          {quarantineList.entries.length > 0
+            ? `（${quarantineList.entries.length}）`
+            : ''}
+        </Button>
+        <Button
+          theme="light"
+          icon={<IconFilter />}
+          disabled={loading}
+          onClick={() => setRecordFilterVisible(true)}
+        >
+          按条件删记录
+        </Button>
+        <Button
+          theme="light"
+          disabled={loading}
+          onClick={() => setViewManagerVisible(true)}
+        >
+          视图管理
+        </Button>
+        <Button theme="light" disabled={loading} onClick={openRecipes}>
+          清理配方
+          {recipeLibrary.recipes.length > 0
+            ? `（${recipeLibrary.recipes.length}）`
+            : ''}
+        </Button>
+        <Button theme="light" onClick={() => setDuplicateVisible(true)}>
+          查找重复字段
+          {duplicateGroups.length > 0 ? `（${duplicateGroups.length}）` : ''}
+        </Button>
+      </section>
+
       {/* 快照侧边栏面板 */}
       {snapshotDrawerVisible && (
-        <>
-          <div 
-            className="snapshot-overlay"
-            onClick={() => setSnapshotDrawerVisible(false)}
-          />
-          <div className="snapshot-drawer">
-            <div className="snapshot-drawer-header">
-              <Typography.Title heading={5}>操作前自动快照</Typography.Title>
-              <Button
-                type="tertiary"
-                theme="borderless"
-                icon={<IconClose />}
-                onClick={() => setSnapshotDrawerVisible(false)}
-                style={{ minWidth: 'auto', padding: '4px' }}
-              />
-            </div>
-            <div className="snapshot-drawer-content">
-              <div className="snapshot-card__meta">
-                <Typography.Text strong>
-                  {snapshot ? '自动快照已保存' : '尚未创建快照'}
-                </Typography.Text>
-                <Typography.Text type="tertiary">
-                  {snapshot
-                    ? `快照时间：${formatTimestamp(snapshot.timestamp)}`
-                    : '删除前请务必保存一次结构快照'}
-                </Typography.Text>
-                {snapshot && (
-                  <div style={{ marginTop: '8px' }}>
-                    <Typography.Text type="tertiary" style={{ display: 'block', marginBottom: '8px' }}>
-                      📋 <strong>说明：</strong>本快照仅保存数据表和字段结构，不包含数据记录内容。
-                    </Typography.Text>
-                    <Typography.Text type="warning" style={{ display: 'block' }}>
-                      💡 <strong>温馨提示：</strong>
-                    </Typography.Text>
-                    <ul style={{ marginTop: '4px', marginBottom: 0, paddingLeft: '20px' }}>
-                      <li>如需恢复数据记录内容：进入「历史记录」→ 找到对应时间点记录 → 点击「还原此版本」，可恢复完整数据（包括记录内容）</li>
-                      <li>本快照仅用于恢复表结构和字段结构，作为额外保障</li>
-                    </ul>
-                  </div>
-                )}
-              </div>
-              <div className="snapshot-card__actions">
-                <Tooltip content="刷新当前的表与字段清单">
-                  <Button
-                    icon={<IconRefresh />}
-                    onClick={handleManualRefresh}
-                    loading={loading}
-                    block
-                  >
-                    刷新
-                  </Button>
-                </Tooltip>
-                <Tooltip content="手动保存一份结构快照，心里更踏实">
-                  <Button
-                    icon={<IconCamera />}
-                    theme="light"
-                    onClick={manualSnapshot}
-                    loading={snapshotBusy}
-                    block
-                  >
-                    记录快照
-                  </Button>
-                </Tooltip>
-                <Tooltip content="撤销最近一次爆破（尽力而为版）">
-                  <Button
-                    icon={<IconUndo />}
-                    theme="light"
-                    onClick={handleRollback}
-                    loading={rollbackBusy}
-                    disabled={!snapshot || snapshotBusy}
-                    block
-                  >
-                    快照回滚
-                  </Button>
-                </Tooltip>
-              </div>
-            </div>
-          </div>
-        </>
+        <SnapshotDrawer
+          library={library}
+          selectedSnapshot={snapshot}
+          loading={loading}
+          snapshotBusy={snapshotBusy}
+          rollbackBusy={rollbackBusy}
+          rollbackMode={rollbackMode}
+          onRollbackModeChange={setRollbackMode}
+          onClose={() => setSnapshotDrawerVisible(false)}
+          onRefresh={handleManualRefresh}
+          onCapture={manualSnapshot}
+          onRollback={handleRollback}
+          onSelect={setSelectedSnapshotId}
+          onRename={renameLibrarySnapshot}
+          onTogglePin={toggleSnapshotPin}
+          onDelete={deleteLibrarySnapshot}
+          onExport={exportLibrarySnapshot}
+          onCompare={setDiffSnapshotId}
+          onImport={importSnapshotFile}
+          onRetentionChange={changeRetention}
+        />
+      )}
+
+      {reportVisible && lastReport && (
+        <OperationReportPanel
+          report={lastReport}
+          retrying={reportRetrying}
+          onRetry={retryReportItems}
+          onClose={() => setReportVisible(false)}
+        />
+      )}
+
+      {duplicateVisible && (
+        <DuplicateFieldsPanel
+          groups={duplicateGroups}
+          selectedFields={selectedFields}
+          contentsCompared={!!duplicateContents}
+          comparing={duplicateComparing}
+          mergingKey={mergingKey}
+          onCompareContents={compareDuplicateContents}
+          onMerge={mergeDuplicates}
+          onQueue={queueDuplicates}
+          onClose={() => setDuplicateVisible(false)}
+        />
+      )}
+
+      {protectionVisible && (
+        <ProtectionPanel
+          list={protectionList}
+          bundles={tables}
+          onSave={saveProtection}
+          onClose={() => setProtectionVisible(false)}
+        />
+      )}
+
+      {quarantineVisible && (
+        <QuarantinePanel
+          list={quarantineList}
+          restoringId={restoringQuarantineId}
+          onRestore={restoreQuarantine}
+          onPurge={purgeQuarantine}
+          onClose={() => setQuarantineVisible(false)}
+        />
+      )}
+
+      {recordFilterVisible && (
+        <RecordFilterPanel
+          bundles={tables}
+          isTableLocked={isTableLocked}
+          busy={recordDeleteBusy}
+          onDelete={handleDeleteRecords}
+          onClose={() => setRecordFilterVisible(false)}
+        />
+      )}
+
+      {renameVisible && (
+        <BulkRenameModal
+          bundles={tables}
+          targets={renameTargets}
+          busy={renameBusy}
+          canUndo={!!lastRename}
+          undoing={renameUndoing}
+          onApply={applyRenames}
+          onUndo={undoLastRename}
+          onClose={() => setRenameVisible(false)}
+        />
+      )}
+
+      {viewManagerVisible && (
+        <ViewManagerPanel
+          bundles={tables}
+          isTableLocked={isTableLocked}
+          busy={viewDeleteBusy}
+          onDelete={handleDeleteViews}
+          onClose={() => setViewManagerVisible(false)}
+        />
+      )}
+
+      {conversionVisible && (
+        <TypeConversionModal
+          groups={selectedFieldGroups.groups}
+          lockedCount={selectedFieldGroups.lockedCount}
+          busy={conversionBusy}
+          canUndo={!!lastConversion}
+          undoing={conversionUndoing}
+          onApply={applyConversions}
+          onUndo={undoLastConversion}
+          onClose={() => setConversionVisible(false)}
+        />
+      )}
+
+      {clearValuesVisible && (
+        <ClearValuesModal
+          groups={selectedFieldGroups.groups}
+          lockedCount={selectedFieldGroups.lockedCount}
+          busy={clearValuesBusy}
+          canUndo={!!lastClearSnapshotId}
+          undoing={clearUndoing}
+          onConfirm={handleClearValues}
+          onUndo={undoLastClear}
+          onClose={() => setClearValuesVisible(false)}
+        />
+      )}
+
+      {recipesVisible && (
+        <RecipePanel
+          library={recipeLibrary}
+          bundles={tables}
+          usage={fieldUsage}
+          currentQuery={tableQuery}
+          selectionCount={totalSelectedTargets}
+          onSave={saveRecipe}
+          onLoadFilter={loadRecipeFilter}
+          onApply={applyRecipe}
+          onDelete={deleteRecipe}
+          onClose={() => setRecipesVisible(false)}
+        />
+      )}
+
+      {auditVisible && (
+        <AuditLogPanel
+          log={auditLog}
+          syncing={auditSyncing}
+          onSyncToTable={syncAuditToTable}
+          onClose={() => setAuditVisible(false)}
+        />
+      )}
+
+      {interruptedJournal && (
+        <JournalRecoveryModal
+          journal={interruptedJournal}
+          canRollback={library.snapshots.some(
+            (item) => item.id === interruptedJournal.snapshotId,
+          )}
+          busy={journalBusy}
+          onResume={resumeJournal}
+          onSkip={skipJournal}
+          onRollback={rollbackJournal}
+        />
+      )}
+
+      {deletionPlan && (
+        <DeletionPlanModal
+          plan={deletionPlan}
+          impacts={selectionImpacts}
+          busy={deleteBusy}
+          archiveTables={archiveTableOptions}
+          onCancel={() => setDeletionPlan(null)}
+          onConfirm={handleDelete}
+        />
+      )}
+
+      {riskPrompt && (
+        <RiskConfirmModal
+          plan={riskPrompt.plan}
+          assessment={riskPrompt.assessment}
+          onCancel={() => setRiskPrompt(null)}
+          onConfirm={confirmRiskPrompt}
+        />
+      )}
+
+      {riskSettingsVisible && (
+        <RiskSettingsPanel
+          settings={riskSettings}
+          onSave={saveRiskSettings}
+          onClose={() => setRiskSettingsVisible(false)}
+        />
+      )}
+
+      {diffSnapshot && (
+        <SchemaDiffPanel
+          baseSnapshot={diffSnapshot}
+          snapshots={library.snapshots}
+          liveTables={liveSnapshotTables}
+          restoringKey={diffRestoringKey}
+          onClose={() => setDiffSnapshotId(null)}
+          onRestore={restoreFromDiff}
+        />
       )}
 
       <aside
@@ -1039,6 +2973,28 @@ export default function App() {
               className="floating-action-button floating-action-button--refresh"
             />
           </Tooltip>
+          {lastReport && (
+            <Tooltip content="查看上一次操作的结果报告">
+              <Button
+                type="primary"
+                theme="solid"
+                icon={<IconList />}
+                onClick={() => setReportVisible(true)}
+                aria-label="查看结果报告"
+                className="floating-action-button floating-action-button--report"
+              />
+            </Tooltip>
+          )}
+          <Tooltip content="查看审计日志">
+            <Button
+              type="primary"
+              theme="solid"
+              icon={<IconHistory />}
+              onClick={() => setAuditVisible(true)}
+              aria-label="查看审计日志"
+              className="floating-action-button floating-action-button--audit"
+            />
+          </Tooltip>
           <Tooltip content={snapshot ? '查看快照信息' : '操作前自动快照'}>
             <Button
               type={snapshot ? 'primary' : 'tertiary'}
@@ -1065,6 +3021,11 @@ export default function App() {
               <div className="delete-panel__metrics">
                 <Tag size="large">已选表：{selectedTableCount}</Tag>
                 <Tag size="large">已选字段：{selectedFieldCount}</Tag>
+                {selectionImpacts.size > 0 && (
+                  <Tag size="large" color="orange">
+                    被引用：{selectionImpacts.size}
+                  </Tag>
+                )}
                 <Tag size="large">
                   快照：{snapshot ? `已保存 · ${snapshot.label}` : '未创建'}
                 </Tag>
@@ -1074,34 +3035,70 @@ export default function App() {
               </Typography.Text>
             </div>
             <div className="delete-panel__actions">
+              <Button
+                theme="borderless"
+                onClick={() => setRiskSettingsVisible(true)}
+              >
+                风险阈值
+              </Button>
               <Button theme="light" onClick={clearSelections}>
                 清空选择
               </Button>
-              <Popconfirm
-                title="终极确认：删除所选表和字段？"
-                content={
-                  <div className="confirm-content">
-                    <p>· 操作不可撤销，数据将瞬间蒸发。</p>
-                    <p>· 请确认：备份与权限都准备妥当。</p>
-                    <p>
-                      · 目标：{selectedTableCount} 张表，{selectedFieldCount} 个字段。
-                    </p>
-                  </div>
-                }
-                position="left"
-                onConfirm={handleDelete}
-                disabled={totalSelectedTargets === 0}
-              >
+              <Tooltip content="改名加标记并在所有视图隐藏，不删任何数据，可随时恢复">
+                <Button
+                  theme="light"
+                  type="warning"
+                  icon={<IconInbox />}
+                  loading={quarantineBusy}
+                  disabled={totalSelectedTargets === 0 || deleteBusy}
+                  onClick={quarantineSelection}
+                >
+                  移入隔离区
+                </Button>
+              </Tooltip>
+              <Tooltip content="查找替换、正则、大小写与模板，先预览再应用">
+                <Button
+                  theme="light"
+                  disabled={totalSelectedTargets === 0 || deleteBusy}
+                  loading={renameBusy}
+                  onClick={() => setRenameVisible(true)}
+                >
+                  批量改名
+                </Button>
+              </Tooltip>
+              <Tooltip content="把选中字段换成另一种类型，先抽样预估值的变化">
+                <Button
+                  theme="light"
+                  disabled={selectedFieldCount === 0 || deleteBusy}
+                  loading={conversionBusy}
+                  onClick={() => setConversionVisible(true)}
+                >
+                  转换类型
+                </Button>
+              </Tooltip>
+              <Tooltip content="保留字段，只把选中字段的值清空，可撤销">
+                <Button
+                  theme="light"
+                  type="danger"
+                  disabled={selectedFieldCount === 0 || deleteBusy}
+                  loading={clearValuesBusy}
+                  onClick={() => setClearValuesVisible(true)}
+                >
+                  清空值
+                </Button>
+              </Tooltip>
+              <Tooltip content="先生成删除计划，逐项确认后再执行">
                 <Button
                   theme="solid"
                   type="danger"
                   icon={<IconDeleteStroked />}
                   loading={deleteBusy}
                   disabled={totalSelectedTargets === 0}
+                  onClick={openDeletionPlan}
                 >
                   一键清理（{totalSelectedTargets}）
                 </Button>
-              </Popconfirm>
+              </Tooltip>
             </div>
           </section>
         )}
@@ -1122,6 +3119,7 @@ export default function App() {
           renderBundles.map(({ bundle, visibleFields, tableMatches }) => {
             const isTableSelected = !!selectedTables[bundle.meta.id];
             const tableFieldSelections = selectedFields[bundle.meta.id] ?? {};
+            const tableLock = getTableLock(bundle);
             return (
               <article
                 key={bundle.meta.id}
@@ -1133,12 +3131,31 @@ export default function App() {
                   <Checkbox
                     key={`table-${bundle.meta.id}-${selectionVersion}`}
                     checked={isTableSelected}
+                    disabled={!!tableLock && !isTableSelected}
                     onChange={() => toggleTable(bundle.meta.id)}
                   >
                     <Typography.Text strong>
                       {bundle.meta.name || '无名表'}
                     </Typography.Text>
                   </Checkbox>
+                  {tableLock && (
+                    <Tooltip content={`受保护：${describeRule(tableLock)}`}>
+                      <Tag size="small" color="amber" prefixIcon={<IconLock />}>
+                        受保护
+                      </Tag>
+                    </Tooltip>
+                  )}
+                  {isTableSelected &&
+                    selectionImpacts.has(tablePlanKey(bundle.meta.id)) && (
+                      <DependencyImpact
+                        dependents={
+                          selectionImpacts.get(tablePlanKey(bundle.meta.id)) ??
+                          []
+                        }
+                        onSelectDependents={selectDependents}
+                        onDeselect={() => toggleTable(bundle.meta.id)}
+                      />
+                    )}
                   <Tag size="large">
                     字段 {bundle.fields.length}
                   </Tag>
@@ -1158,10 +3175,20 @@ export default function App() {
                         !!tableFieldSelections[field.id];
                       const fieldTypeName = getFieldTypeLabel(field.type);
                       const isIndexField = field.isPrimary === true;
+                      const fieldLock = getFieldLock(bundle, field);
+                      const fieldImpact = isFieldSelected
+                        ? selectionImpacts.get(
+                            fieldPlanKey(bundle.meta.id, field.id),
+                          )
+                        : undefined;
                       const checkbox = (
                         <Checkbox
                           key={`${field.id}-${selectionVersion}`}
-                          disabled={isTableSelected || isIndexField}
+                          disabled={
+                            isTableSelected ||
+                            isIndexField ||
+                            (!!fieldLock && !isFieldSelected)
+                          }
                           checked={isFieldSelected}
                           onChange={() =>
                             toggleField(bundle.meta.id, field.id)
@@ -1184,6 +3211,33 @@ export default function App() {
                           ) : (
                             checkbox
                           )}
+                          {fieldLock && !isIndexField && (
+                            <Tooltip
+                              content={`受保护：${describeRule(fieldLock)}`}
+                            >
+                              <Tag
+                                size="small"
+                                color="amber"
+                                prefixIcon={<IconLock />}
+                              >
+                                受保护
+                              </Tag>
+                            </Tooltip>
+                          )}
+                          {fieldImpact && (
+                            <DependencyImpact
+                              dependents={fieldImpact}
+                              onSelectDependents={selectDependents}
+                              onDeselect={() =>
+                                toggleField(bundle.meta.id, field.id)
+                              }
+                            />
+                          )}
+                          {fieldUsage[bundle.meta.id]?.[field.id] && (
+                            <FieldUsageBadges
+                              usage={fieldUsage[bundle.meta.id][field.id]}
+                            />
+                          )}
                           <Tag size="small">
                             {fieldTypeName}
                           </Tag>
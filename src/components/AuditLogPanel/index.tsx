@@ -0,0 +1,127 @@
+import { Button, Modal, Table, Tag, Tooltip, Typography } from '@douyinfe/semi-ui';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TABLE_NAME,
+  AuditEntry,
+  AuditLog,
+} from '../../utils/auditLog';
+import { formatTimestamp } from '../../utils/format';
+import './style.css';
+
+type AuditLogPanelProps = {
+  log: AuditLog;
+  syncing: boolean;
+  onSyncToTable: () => void;
+  onClose: () => void;
+};
+
+const COLUMNS = [
+  {
+    title: '时间',
+    dataIndex: 'at',
+    width: 160,
+    render: (at: string) => formatTimestamp(at),
+  },
+  {
+    title: '操作',
+    dataIndex: 'action',
+    width: 64,
+    render: (action: AuditEntry['action']) => (
+      <Tag size="small">{AUDIT_ACTION_LABELS[action]}</Tag>
+    ),
+  },
+  {
+    title: '操作人',
+    dataIndex: 'userId',
+    width: 120,
+    render: (userId: string | null) => (
+      <Typography.Text ellipsis={{ showTooltip: true }}>
+        {userId ?? '未知'}
+      </Typography.Text>
+    ),
+  },
+  {
+    title: '目标',
+    dataIndex: 'targets',
+    render: (_: unknown, entry: AuditEntry) => (
+      <Tooltip
+        content={
+          <div className="audit-log__targets">
+            {entry.targets.map((target) => (
+              <div key={target}>{target}</div>
+            ))}
+          </div>
+        }
+      >
+        <Typography.Text ellipsis>
+          {entry.detail}
+          {entry.targets.length > 0 ? ` · ${entry.targets.length} 项` : ''}
+        </Typography.Text>
+      </Tooltip>
+    ),
+  },
+  {
+    title: '结果',
+    dataIndex: 'counts',
+    width: 150,
+    render: (_: unknown, entry: AuditEntry) => (
+      <span className="audit-log__counts">
+        <Tag size="small" color="green">
+          {entry.counts.success}
+        </Tag>
+        <Tag size="small" color="grey">
+          {entry.counts.skipped}
+        </Tag>
+        <Tag size="small" color="red">
+          {entry.counts.failed}
+        </Tag>
+      </span>
+    ),
+  },
+  {
+    title: '已入表',
+    dataIndex: 'syncedAt',
+    width: 64,
+    render: (syncedAt?: string) => (syncedAt ? '✅' : '—'),
+  },
+];
+
+export default function AuditLogPanel(props: AuditLogPanelProps) {
+  const { log, syncing } = props;
+  const unsynced = log.entries.filter((entry) => !entry.syncedAt).length;
+  return (
+    <Modal
+      visible
+      title="审计日志"
+      width={760}
+      zIndex={1100}
+      onCancel={props.onClose}
+      footer={
+        <Tooltip content={`把尚未写入的日志追加到本 Base 的「${AUDIT_TABLE_NAME}」表，没有就自动新建`}>
+          <Button
+            theme="solid"
+            loading={syncing}
+            disabled={unsynced === 0}
+            onClick={props.onSyncToTable}
+          >
+            写入「{AUDIT_TABLE_NAME}」表（{unsynced}）
+          </Button>
+        </Tooltip>
+      }
+    >
+      <Typography.Text type="tertiary">
+        记录每次快照、删除、回滚、隔离、改名与类型转换的操作人、时间、目标和结果（成功 / 跳过 / 失败），最多保留最近
+        500 条。
+      </Typography.Text>
+      <Table
+        className="audit-log__table"
+        size="small"
+        rowKey="id"
+        columns={COLUMNS}
+        dataSource={log.entries}
+        pagination={{ pageSize: 10 }}
+        empty="还没有任何操作记录"
+      />
+    </Modal>
+  );
+}
@@ -0,0 +1,223 @@
+import { useMemo, useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Input,
+  Modal,
+  Radio,
+  RadioGroup,
+  Select,
+  Table,
+  Tag,
+  Typography,
+} from '@douyinfe/semi-ui';
+import { IconRestore } from '@douyinfe/semi-icons';
+import type { TableBundle } from '../../types';
+import {
+  buildRenamePreview,
+  createDefaultRenameRule,
+  RENAME_CASE_LABELS,
+  RenameCaseChange,
+  RenameChange,
+  RenameMatchMode,
+  RenamePreviewItem,
+  RenameRule,
+  RenameTarget,
+  toRenameChanges,
+  validateRenameRule,
+} from '../../utils/bulkRename';
+import './style.css';
+
+type BulkRenameModalProps = {
+  bundles: TableBundle[];
+  targets: RenameTarget[];
+  busy: boolean;
+  canUndo: boolean;
+  undoing: boolean;
+  onApply: (changes: RenameChange[]) => void;
+  onUndo: () => void;
+  onClose: () => void;
+};
+
+export default function BulkRenameModal(props: BulkRenameModalProps) {
+  const { bundles, targets, busy } = props;
+  const [rule, setRule] = useState<RenameRule>(createDefaultRenameRule);
+
+  const ruleError = validateRenameRule(rule);
+  const preview = useMemo(
+    () => (ruleError ? [] : buildRenamePreview(bundles, targets, rule)),
+    [bundles, targets, rule, ruleError],
+  );
+  const changes = toRenameChanges(preview);
+  const conflictCount = preview.filter((item) => item.conflict).length;
+
+  const updateRule = (patch: Partial<RenameRule>) =>
+    setRule((prev) => ({ ...prev, ...patch }));
+
+  const columns = [
+    {
+      title: '类型',
+      dataIndex: 'kind',
+      width: 70,
+      render: (_: unknown, item: RenamePreviewItem) => (
+        <Tag size="small" color={item.kind === 'table' ? 'red' : 'blue'}>
+          {item.kind === 'table' ? '表' : '字段'}
+        </Tag>
+      ),
+    },
+    {
+      title: '所在表',
+      dataIndex: 'tableName',
+      render: (_: unknown, item: RenamePreviewItem) =>
+        item.kind === 'table' ? '—' : item.tableName || '无名表',
+    },
+    {
+      title: '改名前',
+      dataIndex: 'name',
+    },
+    {
+      title: '改名后',
+      dataIndex: 'nextName',
+      render: (_: unknown, item: RenamePreviewItem) => (
+        <Typography.Text
+          type={
+            item.conflict ? 'danger' : item.changed ? undefined : 'tertiary'
+          }
+          strong={item.changed}
+        >
+          {item.nextName || '（空）'}
+        </Typography.Text>
+      ),
+    },
+    {
+      title: '状态',
+      dataIndex: 'conflict',
+      width: 150,
+      render: (_: unknown, item: RenamePreviewItem) =>
+        item.conflict ? (
+          <Tag size="small" color="red">
+            {item.conflict}
+          </Tag>
+        ) : item.changed ? (
+          <Tag size="small" color="green">
+            将改名
+          </Tag>
+        ) : (
+          <Tag size="small" color="grey">
+            不变
+          </Tag>
+        ),
+    },
+  ];
+
+  return (
+    <Modal
+      visible
+      title={`批量改名（${targets.length}）`}
+      width={860}
+      zIndex={1100}
+      onCancel={props.onClose}
+      footer={
+        <div className="bulk-rename__footer">
+          {props.canUndo && (
+            <Button
+              icon={<IconRestore />}
+              loading={props.undoing}
+              disabled={busy}
+              onClick={props.onUndo}
+            >
+              撤销上次改名
+            </Button>
+          )}
+          <Button
+            type="primary"
+            theme="solid"
+            loading={busy}
+            disabled={changes.length === 0 || conflictCount > 0}
+            onClick={() => props.onApply(changes)}
+          >
+            应用改名（{changes.length}）
+          </Button>
+        </div>
+      }
+    >
+      <div className="bulk-rename__rule">
+        <RadioGroup
+          type="button"
+          value={rule.mode}
+          onChange={(event) =>
+            updateRule({ mode: event.target.value as RenameMatchMode })
+          }
+        >
+          <Radio value="plain">查找替换</Radio>
+          <Radio value="regex">正则</Radio>
+        </RadioGroup>
+        <Checkbox
+          checked={rule.caseSensitive}
+          onChange={(event) =>
+            updateRule({ caseSensitive: !!event.target.checked })
+          }
+        >
+          区分大小写
+        </Checkbox>
+        <Input
+          className="bulk-rename__input"
+          prefix="查找"
+          placeholder={
+            rule.mode === 'regex' ? '例如 ^tmp_(.*)$' : '留空则不替换'
+          }
+          value={rule.find}
+          onChange={(find) => updateRule({ find })}
+        />
+        <Input
+          className="bulk-rename__input"
+          prefix="替换为"
+          placeholder={rule.mode === 'regex' ? '可用 $1、$2' : ''}
+          value={rule.replace}
+          onChange={(replace) => updateRule({ replace })}
+        />
+        <Select
+          className="bulk-rename__case"
+          prefix="大小写"
+          value={rule.caseChange}
+          optionList={Object.entries(RENAME_CASE_LABELS).map(
+            ([value, label]) => ({ value, label }),
+          )}
+          onChange={(value) =>
+            updateRule({ caseChange: value as RenameCaseChange })
+          }
+        />
+        <Input
+          className="bulk-rename__input"
+          prefix="模板"
+          placeholder="{table}_{name}"
+          value={rule.template}
+          onChange={(template) => updateRule({ template })}
+        />
+      </div>
+      <Typography.Text type="tertiary" className="bulk-rename__hint">
+        先查找替换，再改大小写，最后套模板：{'{name}'} 是前两步的结果，
+        {'{table}'} 是所在表名。改名前会自动拍快照。
+      </Typography.Text>
+      {ruleError ? (
+        <Typography.Text type="warning">{ruleError}</Typography.Text>
+      ) : (
+        <>
+          {conflictCount > 0 && (
+            <Typography.Text type="danger" className="bulk-rename__hint">
+              有 {conflictCount} 个新名字冲突，改掉之后才能应用。
+            </Typography.Text>
+          )}
+          <Table
+            className="bulk-rename__preview"
+            size="small"
+            rowKey="key"
+            columns={columns}
+            dataSource={preview}
+            pagination={false}
+          />
+        </>
+      )}
+    </Modal>
+  );
+}
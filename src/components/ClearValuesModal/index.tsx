@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Modal,
+  Popconfirm,
+  Tag,
+  Typography,
+} from '@douyinfe/semi-ui';
+import { IconRestore } from '@douyinfe/semi-icons';
+import type { IFieldMeta } from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../../types';
+import { isComputedFieldType } from '../../utils/recordBackup';
+import { RecordFilter, validateFilter } from '../../utils/recordFilter';
+import RecordFilterEditor from '../RecordFilterEditor';
+import './style.css';
+
+export type ClearValuesGroup = {
+  bundle: TableBundle;
+  fields: IFieldMeta[];
+};
+
+type ClearValuesModalProps = {
+  groups: ClearValuesGroup[];
+  /** 受保护而被排除的字段数 */
+  lockedCount: number;
+  busy: boolean;
+  canUndo: boolean;
+  undoing: boolean;
+  /** filter 为 null 时清空整列 */
+  onConfirm: (filter: RecordFilter | null) => void;
+  onUndo: () => void;
+  onClose: () => void;
+};
+
+export default function ClearValuesModal(props: ClearValuesModalProps) {
+  const { groups, busy } = props;
+  const [useFilter, setUseFilter] = useState(false);
+  const [filter, setFilter] = useState<RecordFilter>({
+    conjunction: 'and',
+    conditions: [],
+  });
+
+  // 条件只能针对一张表的字段，跨表时只能整列清空
+  const filterBundle = groups.length === 1 ? groups[0].bundle : null;
+  const filterError =
+    useFilter && filterBundle
+      ? validateFilter(filter, filterBundle.fields)
+      : null;
+  const writableCount = groups.reduce(
+    (sum, group) =>
+      sum +
+      group.fields.filter((field) => !isComputedFieldType(field.type)).length,
+    0,
+  );
+  const disabled = writableCount === 0 || !!filterError;
+
+  return (
+    <Modal
+      visible
+      title="清空字段值"
+      width={720}
+      zIndex={1100}
+      onCancel={props.onClose}
+      footer={
+        <div className="clear-values__footer">
+          {props.canUndo && (
+            <Button
+              icon={<IconRestore />}
+              loading={props.undoing}
+              disabled={busy}
+              onClick={props.onUndo}
+            >
+              撤销上次清空
+            </Button>
+          )}
+          <Popconfirm
+            title={`清空 ${writableCount} 个字段的值？`}
+            content="字段本身保留，只把值写成空；清空前会拍快照并备份旧值。"
+            disabled={disabled}
+            onConfirm={() =>
+              props.onConfirm(useFilter && filterBundle ? filter : null)
+            }
+          >
+            <Button
+              type="danger"
+              theme="solid"
+              loading={busy}
+              disabled={disabled}
+            >
+              {useFilter && filterBundle ? '清空命中记录的值' : '清空整列'}
+            </Button>
+          </Popconfirm>
+        </div>
+      }
+    >
+      <Typography.Text type="tertiary">
+        只抹掉单元格里的值，字段和记录都还在。公式、查找引用和系统字段由表格自己算，会自动跳过。
+      </Typography.Text>
+      {props.lockedCount > 0 && (
+        <Typography.Text type="warning" className="clear-values__locked">
+          {props.lockedCount} 个字段在保护名单里，已排除。
+        </Typography.Text>
+      )}
+      <ul className="clear-values__groups">
+        {groups.map((group) => (
+          <li key={group.bundle.meta.id}>
+            <Typography.Text strong>
+              {group.bundle.meta.name || '无名表'}
+            </Typography.Text>
+            <div className="clear-values__fields">
+              {group.fields.map((field) => (
+                <Tag
+                  key={field.id}
+                  size="small"
+                  color={isComputedFieldType(field.type) ? 'grey' : 'orange'}
+                >
+                  {field.name || '无名字段'}
+                  {isComputedFieldType(field.type) ? '（跳过）' : ''}
+                </Tag>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <Checkbox
+        checked={useFilter}
+        disabled={!filterBundle}
+        onChange={(event) => setUseFilter(!!event.target.checked)}
+      >
+        只清空满足条件的记录
+        {!filterBundle && '（选中的字段来自多张表时不可用）'}
+      </Checkbox>
+      {useFilter && filterBundle && (
+        <>
+          <RecordFilterEditor
+            fields={filterBundle.fields}
+            filter={filter}
+            onChange={setFilter}
+          />
+          {filterError && (
+            <Typography.Text type="warning">{filterError}</Typography.Text>
+          )}
+        </>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,260 @@
+import { useMemo, useState } from 'react';
+import {
+  Checkbox,
+  Input,
+  Modal,
+  Radio,
+  RadioGroup,
+  Select,
+  Tag,
+  Tooltip,
+  Tree,
+  Typography,
+} from '@douyinfe/semi-ui';
+import type { TreeNodeData } from '@douyinfe/semi-ui/lib/es/tree';
+import {
+  ArchiveTarget,
+  DEFAULT_ARCHIVE_TABLE_NAME,
+  TABLE_ARCHIVE_PREFIX,
+} from '../../utils/archive';
+import type { FieldRef } from '../../utils/dependencyGraph';
+import {
+  DeletionPlan,
+  excludePlanItems,
+  PLAN_SKIP_LABELS,
+  PlanItem,
+  settleLastTable,
+  tablePlanKey,
+} from '../../utils/deletionPlan';
+import { getFieldTypeLabel } from '../../utils/fieldTypes';
+import './style.css';
+
+type DeletionPlanModalProps = {
+  plan: DeletionPlan;
+  /** 勾选项被其他字段引用的情况，键与计划条目一致 */
+  impacts: Map<string, FieldRef[]>;
+  busy: boolean;
+  /** 可以作为字段归档目标的现有表 */
+  archiveTables: { value: string; label: string }[];
+  onCancel: () => void;
+  /** 传回的计划已经把取消勾选的条目标为跳过；archive 为 null 表示直接删除 */
+  onConfirm: (plan: DeletionPlan, archive: ArchiveTarget | null) => void;
+};
+
+const renderItemLabel = (
+  item: PlanItem,
+  title: string,
+  dependents?: FieldRef[],
+) => (
+  <span className="deletion-plan__label">
+    <Typography.Text
+      type={item.skipReason ? 'tertiary' : 'danger'}
+      strong={item.kind === 'table'}
+    >
+      {title}
+    </Typography.Text>
+    {item.fieldType !== undefined && (
+      <Tag size="small">{getFieldTypeLabel(item.fieldType)}</Tag>
+    )}
+    {item.skipReason === null && dependents && dependents.length > 0 && (
+      <Tooltip
+        content={dependents
+          .map((ref) => `${ref.tableName} / ${ref.fieldName}`)
+          .join('、')}
+      >
+        <Tag size="small" color="orange">
+          ⚠️ 会导致 {dependents.length} 个字段失效
+        </Tag>
+      </Tooltip>
+    )}
+    {item.skipReason && item.skipReason !== 'deselected' && (
+      <Tag size="small" color="grey">
+        跳过：{PLAN_SKIP_LABELS[item.skipReason]}
+      </Tag>
+    )}
+  </span>
+);
+
+export default function DeletionPlanModal(props: DeletionPlanModalProps) {
+  const { plan, impacts, busy, archiveTables } = props;
+  const [excludedKeys, setExcludedKeys] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const [archiveEnabled, setArchiveEnabled] = useState(false);
+  const [archiveMode, setArchiveMode] = useState<ArchiveTarget['mode']>('new');
+  const [archiveName, setArchiveName] = useState(DEFAULT_ARCHIVE_TABLE_NAME);
+  const [archiveTableId, setArchiveTableId] = useState<string | null>(null);
+
+  // 计划里原本就要执行的条目，只有它们可以勾选 / 取消
+  const activeKeys = useMemo(
+    () =>
+      new Set(
+        plan.nodes.flatMap((node) =>
+          (node.table ? [node.table, ...node.fields] : node.fields)
+            .filter((item) => item.skipReason === null)
+            .map((item) => item.key),
+        ),
+      ),
+    [plan],
+  );
+
+  // 取消勾选之后再决定最后一张表删不删，免得别的表没删成却把它清空了
+  const finalPlan = useMemo(
+    () => settleLastTable(excludePlanItems(plan, excludedKeys)),
+    [plan, excludedKeys],
+  );
+
+  const treeData = useMemo<TreeNodeData[]>(
+    () =>
+      finalPlan.nodes.map((node) => {
+        const key = tablePlanKey(node.tableId);
+        return {
+          key,
+          value: key,
+          // 只删字段的表节点只是分组，不能勾选
+          disabled: !activeKeys.has(key),
+          label: node.table ? (
+            renderItemLabel(
+              node.table,
+              `删除整表「${node.tableName}」`,
+              impacts.get(node.table.key),
+            )
+          ) : (
+            <span className="deletion-plan__label">
+              <Typography.Text strong>{node.tableName}</Typography.Text>
+              <Tag size="small">仅删除字段</Tag>
+            </span>
+          ),
+          children: node.fields.map((field) => ({
+            key: field.key,
+            value: field.key,
+            disabled: !activeKeys.has(field.key),
+            label: renderItemLabel(
+              field,
+              field.fieldName ?? '',
+              impacts.get(field.key),
+            ),
+          })),
+        };
+      }),
+    [finalPlan, activeKeys, impacts],
+  );
+
+  // 留下的最后一张表仍算勾着，它要清空的字段也跟着显示为勾选
+  const checkedKeys = finalPlan.nodes.flatMap((node) =>
+    (node.table ? [node.table, ...node.fields] : node.fields)
+      .filter(
+        (item) =>
+          item.skipReason === null || item.skipReason === 'keepLastTable',
+      )
+      .map((item) => item.key),
+  );
+
+  const archiveTarget: ArchiveTarget | null = !archiveEnabled
+    ? null
+    : archiveMode === 'new'
+    ? { mode: 'new', name: archiveName.trim() || DEFAULT_ARCHIVE_TABLE_NAME }
+    : archiveTableId
+    ? { mode: 'existing', tableId: archiveTableId }
+    : null;
+  // 只删整表时不需要选字段归档表
+  const archiveReady =
+    !archiveEnabled || !!archiveTarget || finalPlan.counts.fields === 0;
+
+  return (
+    <Modal
+      visible
+      title="删除计划预览"
+      width={560}
+      okText={`按计划删除（${
+        finalPlan.counts.tables + finalPlan.counts.fields
+      }）`}
+      cancelText="我再想想"
+      okButtonProps={{
+        type: 'danger',
+        disabled:
+          finalPlan.counts.tables + finalPlan.counts.fields === 0 ||
+          !archiveReady,
+      }}
+      confirmLoading={busy}
+      onOk={() =>
+        props.onConfirm(
+          finalPlan,
+          archiveEnabled
+            ? archiveTarget ?? { mode: 'new', name: DEFAULT_ARCHIVE_TABLE_NAME }
+            : null,
+        )
+      }
+      onCancel={props.onCancel}
+    >
+      <div className="confirm-content">
+        <p>· 操作不可撤销，数据将瞬间蒸发；执行前会自动快照并备份记录。</p>
+        <p>· 取消勾选即可把条目移出计划，灰色条目不会执行。</p>
+      </div>
+      <div className="deletion-plan__counts">
+        <Tag color="red">删除表 {finalPlan.counts.tables}</Tag>
+        <Tag color="red">删除字段 {finalPlan.counts.fields}</Tag>
+        <Tag>跳过 {finalPlan.counts.skipped}</Tag>
+      </div>
+      <div className="deletion-plan__archive">
+        <Checkbox
+          checked={archiveEnabled}
+          onChange={(event) => setArchiveEnabled(!!event.target.checked)}
+        >
+          先归档再删除：把值连同记录 ID、索引列复制进归档表，核对记录数一致后才删
+        </Checkbox>
+        {archiveEnabled && finalPlan.counts.fields > 0 && (
+          <div className="deletion-plan__archive-target">
+            <RadioGroup
+              value={archiveMode}
+              onChange={(event) =>
+                setArchiveMode(event.target.value as ArchiveTarget['mode'])
+              }
+            >
+              <Radio value="new">新建归档表</Radio>
+              <Radio value="existing" disabled={archiveTables.length === 0}>
+                写进现有的表
+              </Radio>
+            </RadioGroup>
+            {archiveMode === 'new' ? (
+              <Input
+                value={archiveName}
+                placeholder={DEFAULT_ARCHIVE_TABLE_NAME}
+                onChange={setArchiveName}
+              />
+            ) : (
+              <Select
+                filter
+                placeholder="选择归档表"
+                value={archiveTableId ?? undefined}
+                optionList={archiveTables}
+                onChange={(value) => setArchiveTableId(String(value))}
+              />
+            )}
+          </div>
+        )}
+        {archiveEnabled && finalPlan.counts.tables > 0 && (
+          <Typography.Text type="tertiary" size="small">
+            整表删除会各自归档到新建的「{TABLE_ARCHIVE_PREFIX}表名」。
+          </Typography.Text>
+        )}
+      </div>
+      <Tree
+        className="deletion-plan__tree"
+        multiple
+        checkRelation="unRelated"
+        expandAll
+        treeData={treeData}
+        value={checkedKeys}
+        onChange={(value) => {
+          const checked = new Set(
+            (Array.isArray(value) ? value : []).map((item) => String(item)),
+          );
+          setExcludedKeys(
+            new Set(Array.from(activeKeys).filter((key) => !checked.has(key))),
+          );
+        }}
+      />
+    </Modal>
+  );
+}
@@ -0,0 +1,62 @@
+import { Button, Popover, Tag, Typography } from '@douyinfe/semi-ui';
+import type { FieldRef } from '../../utils/dependencyGraph';
+import { getFieldTypeLabel } from '../../utils/fieldTypes';
+import './style.css';
+
+type DependencyImpactProps = {
+  dependents: FieldRef[];
+  /** 把依赖字段也加入删除勾选 */
+  onSelectDependents: (dependents: FieldRef[]) => void;
+  /** 取消勾选被引用的这一项 */
+  onDeselect: () => void;
+};
+
+export default function DependencyImpact(props: DependencyImpactProps) {
+  const { dependents } = props;
+  return (
+    <Popover
+      trigger="click"
+      position="bottomLeft"
+      showArrow
+      content={
+        <div className="dependency-impact">
+          <Typography.Text strong>
+            删除后以下 {dependents.length} 个字段会失效：
+          </Typography.Text>
+          <ul className="dependency-impact__list">
+            {dependents.map((ref) => (
+              <li key={ref.fieldId}>
+                <Typography.Text>
+                  {ref.tableName} / {ref.fieldName}
+                </Typography.Text>
+                <Tag size="small">{getFieldTypeLabel(ref.fieldType)}</Tag>
+              </li>
+            ))}
+          </ul>
+          <div className="dependency-impact__actions">
+            <Button
+              size="small"
+              type="danger"
+              theme="light"
+              onClick={() => props.onSelectDependents(dependents)}
+            >
+              依赖字段一起删
+            </Button>
+            <Button size="small" theme="light" onClick={props.onDeselect}>
+              取消勾选此项
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <Tag
+        size="small"
+        color="orange"
+        className="dependency-impact__tag"
+        onClick={(e) => e.stopPropagation()}
+      >
+        ⚠️ 被 {dependents.length} 个字段引用
+      </Tag>
+    </Popover>
+  );
+}
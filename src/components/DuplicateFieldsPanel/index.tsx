@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Empty,
+  Modal,
+  Radio,
+  RadioGroup,
+  Tag,
+  Tooltip,
+  Typography,
+} from '@douyinfe/semi-ui';
+import {
+  canMergeInto,
+  DUPLICATE_REASON_LABELS,
+  DuplicateGroup,
+} from '../../utils/duplicateFields';
+import { getFieldTypeLabel } from '../../utils/fieldTypes';
+import './style.css';
+
+type DuplicateFieldsPanelProps = {
+  groups: DuplicateGroup[];
+  selectedFields: Record<string, Record<string, boolean>>;
+  /** 已读过记录、按单元格内容比对 */
+  contentsCompared: boolean;
+  comparing: boolean;
+  mergingKey: string | null;
+  onCompareContents: (enabled: boolean) => void;
+  onMerge: (group: DuplicateGroup, keepFieldId: string) => void;
+  onQueue: (group: DuplicateGroup, keepFieldId: string) => void;
+  onClose: () => void;
+};
+
+export default function DuplicateFieldsPanel(props: DuplicateFieldsPanelProps) {
+  const { groups, selectedFields, mergingKey } = props;
+  const [keepByGroup, setKeepByGroup] = useState<Record<string, string>>({});
+
+  return (
+    <Modal
+      visible
+      title="重复字段检测"
+      width={720}
+      zIndex={1100}
+      footer={null}
+      onCancel={props.onClose}
+    >
+      <div className="duplicate-fields__toolbar">
+        <Checkbox
+          checked={props.contentsCompared}
+          disabled={props.comparing}
+          onChange={(event) => props.onCompareContents(!!event.target.checked)}
+        >
+          同时比对单元格内容（需读取全部记录）
+        </Checkbox>
+        {props.comparing && (
+          <Typography.Text type="tertiary">正在读取记录…</Typography.Text>
+        )}
+      </div>
+      {groups.length === 0 ? (
+        <Empty description="没发现重复字段，这个 Base 挺干净。" />
+      ) : (
+        <ul className="duplicate-fields">
+          {groups.map((group) => {
+            const keepId = keepByGroup[group.key] ?? group.fields[0].id;
+            const keep =
+              group.fields.find((field) => field.id === keepId) ??
+              group.fields[0];
+            const duplicates = group.fields.filter(
+              (field) => field.id !== keep.id,
+            );
+            const queued = duplicates
+              .filter((field) => !field.isPrimary)
+              .every((field) => selectedFields[group.tableId]?.[field.id]);
+            const mergeable = canMergeInto(keep, duplicates);
+            return (
+              <li key={group.key} className="duplicate-fields__group">
+                <div className="duplicate-fields__header">
+                  <Typography.Text strong>{group.tableName}</Typography.Text>
+                  {group.reasons.map((reason) => (
+                    <Tag key={reason} size="small" color="orange">
+                      {DUPLICATE_REASON_LABELS[reason]}
+                    </Tag>
+                  ))}
+                  {queued && (
+                    <Tag size="small" color="red">
+                      已加入删除勾选
+                    </Tag>
+                  )}
+                </div>
+                <RadioGroup
+                  className="duplicate-fields__options"
+                  direction="vertical"
+                  value={keep.id}
+                  onChange={(event) =>
+                    setKeepByGroup((prev) => ({
+                      ...prev,
+                      [group.key]: event.target.value,
+                    }))
+                  }
+                >
+                  {group.fields.map((field) => (
+                    <Radio key={field.id} value={field.id}>
+                      {field.name || '无名字段'}
+                      <Tag size="small" className="duplicate-fields__type">
+                        {getFieldTypeLabel(field.type)}
+                      </Tag>
+                      {field.id === keep.id && (
+                        <Typography.Text type="success" size="small">
+                          保留
+                        </Typography.Text>
+                      )}
+                    </Radio>
+                  ))}
+                </RadioGroup>
+                <div className="duplicate-fields__actions">
+                  <Tooltip
+                    content={
+                      mergeable
+                        ? '把重复字段里的值补进保留字段的空单元格，再把重复字段加入删除勾选'
+                        : '字段类型不一致或保留字段不可写入，只能直接加入删除'
+                    }
+                  >
+                    <Button
+                      size="small"
+                      theme="solid"
+                      disabled={
+                        !mergeable || (!!mergingKey && mergingKey !== group.key)
+                      }
+                      loading={mergingKey === group.key}
+                      onClick={() => props.onMerge(group, keep.id)}
+                    >
+                      合并后加入删除
+                    </Button>
+                  </Tooltip>
+                  <Button
+                    size="small"
+                    type="danger"
+                    theme="light"
+                    disabled={!!mergingKey}
+                    onClick={() => props.onQueue(group, keep.id)}
+                  >
+                    仅加入删除
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Modal>
+  );
+}
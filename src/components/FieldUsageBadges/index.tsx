@@ -0,0 +1,37 @@
+import { Tag, Tooltip } from '@douyinfe/semi-ui';
+import { formatFillRate, FieldUsage } from '../../utils/fieldUsage';
+import './style.css';
+
+type FieldUsageBadgesProps = {
+  usage: FieldUsage;
+};
+
+/** 填充率越低越可能是没人用的字段，用颜色提示一下 */
+const fillRateColor = (fillRate: number) =>
+  fillRate < 0.1 ? 'red' : fillRate < 0.5 ? 'orange' : 'green';
+
+export default function FieldUsageBadges(props: FieldUsageBadgesProps) {
+  const { usage } = props;
+  return (
+    <span className="field-usage">
+      <Tooltip content={`${usage.filled} / ${usage.total} 条记录有值`}>
+        <Tag size="small" color={fillRateColor(usage.fillRate)}>
+          填充 {formatFillRate(usage)}
+        </Tag>
+      </Tooltip>
+      <Tooltip content="去重后的取值个数">
+        <Tag size="small">
+          {usage.distinct}
+          {usage.distinctCapped ? '+' : ''} 种值
+        </Tag>
+      </Tooltip>
+      {usage.lastModified !== null && (
+        <Tooltip content="按记录的「最后更新时间」估算，有值的记录里最近一次修改">
+          <Tag size="small" color="grey">
+            {new Date(usage.lastModified).toLocaleDateString()} 更新
+          </Tag>
+        </Tooltip>
+      )}
+    </span>
+  );
+}
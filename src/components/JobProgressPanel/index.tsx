@@ -0,0 +1,51 @@
+import { Button, Progress, Tag, Typography } from '@douyinfe/semi-ui';
+import type { JobProgress } from '../../utils/jobRunner';
+import './style.css';
+
+type JobProgressPanelProps = {
+  progress: JobProgress;
+  onCancel: () => void;
+};
+
+export default function JobProgressPanel(props: JobProgressPanelProps) {
+  const { progress } = props;
+  const finished = progress.done + progress.failed;
+  const remaining = Math.max(0, progress.total - finished);
+  return (
+    <div className="job-progress">
+      <div className="job-progress__header">
+        <Typography.Text strong>{progress.title}</Typography.Text>
+        <Button
+          size="small"
+          type="danger"
+          theme="light"
+          loading={progress.cancelling}
+          disabled={progress.cancelling}
+          onClick={props.onCancel}
+        >
+          {progress.cancelling ? '正在收尾…' : '取消'}
+        </Button>
+      </div>
+      <Progress
+        percent={
+          progress.total > 0 ? Math.round((finished / progress.total) * 100) : 0
+        }
+        showInfo
+      />
+      <div className="job-progress__metrics">
+        <Tag color="green">完成 {progress.done}</Tag>
+        <Tag color="red">失败 {progress.failed}</Tag>
+        <Tag>剩余 {remaining}</Tag>
+      </div>
+      {progress.running.length > 0 && (
+        <Typography.Text
+          type="tertiary"
+          size="small"
+          ellipsis={{ showTooltip: true }}
+        >
+          正在处理：{progress.running.join('、')}
+        </Typography.Text>
+      )}
+    </div>
+  );
+}
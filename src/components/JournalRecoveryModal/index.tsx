@@ -0,0 +1,88 @@
+import { Button, Modal, Tag, Typography } from '@douyinfe/semi-ui';
+import {
+  DeletionJournal,
+  getJournalEntries,
+} from '../../utils/deletionJournal';
+import { formatTimestamp } from '../../utils/format';
+import './style.css';
+
+type JournalRecoveryModalProps = {
+  journal: DeletionJournal;
+  /** 删除前的快照还在快照库里时才能回滚 */
+  canRollback: boolean;
+  busy: boolean;
+  onResume: () => void;
+  onSkip: () => void;
+  onRollback: () => void;
+};
+
+export default function JournalRecoveryModal(props: JournalRecoveryModalProps) {
+  const { journal, canRollback, busy } = props;
+  const done = getJournalEntries(journal, 'done');
+  const failed = getJournalEntries(journal, 'failed');
+  const skipped = getJournalEntries(journal, 'skipped');
+  const pending = getJournalEntries(journal, 'pending');
+  return (
+    <Modal
+      visible
+      title="上次删除没跑完"
+      width={480}
+      closable={false}
+      maskClosable={false}
+      footer={
+        <div className="journal-recovery__actions">
+          <Button onClick={props.onSkip} disabled={busy}>
+            跳过剩余项
+          </Button>
+          <Button
+            theme="light"
+            onClick={props.onRollback}
+            disabled={busy || !canRollback || done.length === 0}
+          >
+            回滚已删除的部分
+          </Button>
+          <Button
+            theme="solid"
+            type="danger"
+            onClick={props.onResume}
+            loading={busy}
+          >
+            继续删除（{pending.length}）
+          </Button>
+        </div>
+      }
+    >
+      <div className="confirm-content">
+        <p>
+          · {formatTimestamp(journal.startedAt)}{' '}
+          开始的删除在中途被打断（面板关闭或重载）。
+        </p>
+        <p>· 最后记录于 {formatTimestamp(journal.updatedAt)}。</p>
+      </div>
+      <div className="journal-recovery__metrics">
+        <Tag color="green">已删除 {done.length}</Tag>
+        <Tag color="red">失败 {failed.length}</Tag>
+        {skipped.length > 0 && <Tag color="grey">已跳过 {skipped.length}</Tag>}
+        <Tag>未执行 {pending.length}</Tag>
+      </div>
+      {pending.length > 0 && (
+        <ul className="journal-recovery__list">
+          {pending.map((entry) => (
+            <li key={entry.key}>
+              <Typography.Text type="tertiary">
+                {entry.kind === 'table'
+                  ? `整表 ${entry.tableName}`
+                  : `${entry.tableName} / ${entry.fieldName}`}
+              </Typography.Text>
+            </li>
+          ))}
+        </ul>
+      )}
+      {!canRollback && (
+        <Typography.Text type="warning">
+          找不到这次删除前的快照，无法自动回滚已删除的部分。
+        </Typography.Text>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,178 @@
+import { useMemo, useState } from 'react';
+import {
+  Button,
+  Input,
+  Modal,
+  Radio,
+  RadioGroup,
+  Table,
+  Tag,
+  Typography,
+} from '@douyinfe/semi-ui';
+import { IconDownload, IconRefresh, IconSearch } from '@douyinfe/semi-icons';
+import { formatTimestamp } from '../../utils/format';
+import {
+  countReport,
+  downloadReport,
+  getRetryableItems,
+  OperationReport,
+  REPORT_OPERATION_LABELS,
+  REPORT_STATUS_LABELS,
+  ReportItem,
+  ReportStatus,
+} from '../../utils/operationReport';
+import './style.css';
+
+const STATUS_COLORS: Record<ReportStatus, 'green' | 'grey' | 'red'> = {
+  success: 'green',
+  skipped: 'grey',
+  failed: 'red',
+};
+
+type StatusFilter = 'all' | ReportStatus;
+
+type OperationReportPanelProps = {
+  report: OperationReport;
+  retrying: boolean;
+  onRetry: (items: ReportItem[]) => void;
+  onClose: () => void;
+};
+
+const COLUMNS = [
+  {
+    title: '结果',
+    dataIndex: 'status',
+    width: 72,
+    render: (status: ReportStatus) => (
+      <Tag size="small" color={STATUS_COLORS[status]}>
+        {REPORT_STATUS_LABELS[status]}
+      </Tag>
+    ),
+  },
+  {
+    title: '操作',
+    dataIndex: 'operation',
+    width: 88,
+    render: (operation: ReportItem['operation']) =>
+      REPORT_OPERATION_LABELS[operation],
+  },
+  {
+    title: '目标',
+    dataIndex: 'tableName',
+    render: (_: unknown, item: ReportItem) => (
+      <Typography.Text ellipsis={{ showTooltip: true }}>
+        {item.fieldName
+          ? `${item.tableName} / ${item.fieldName}`
+          : item.tableName}
+      </Typography.Text>
+    ),
+  },
+  {
+    title: '说明',
+    dataIndex: 'message',
+    render: (_: unknown, item: ReportItem) => (
+      <div className="operation-report__detail">
+        {item.message && <Typography.Text>{item.message}</Typography.Text>}
+        {item.error && (
+          <Typography.Text type="danger" size="small">
+            {item.error}
+          </Typography.Text>
+        )}
+      </div>
+    ),
+  },
+];
+
+export default function OperationReportPanel(props: OperationReportPanelProps) {
+  const { report, retrying } = props;
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>(() =>
+    report.items.some((item) => item.status === 'failed') ? 'failed' : 'all',
+  );
+  const [keyword, setKeyword] = useState('');
+
+  const counts = useMemo(() => countReport(report), [report]);
+  const retryable = useMemo(() => getRetryableItems(report), [report]);
+
+  const visibleItems = useMemo(() => {
+    const normalized = keyword.trim().toLowerCase();
+    return report.items
+      .map((item, index) => ({ ...item, key: String(index) }))
+      .filter(
+        (item) => statusFilter === 'all' || item.status === statusFilter,
+      )
+      .filter((item) =>
+        normalized.length === 0
+          ? true
+          : [item.tableName, item.fieldName, item.message, item.error]
+              .filter(Boolean)
+              .some((text) => String(text).toLowerCase().includes(normalized)),
+      );
+  }, [report, statusFilter, keyword]);
+
+  return (
+    <Modal
+      visible
+      title={`${report.title} · 结果报告`}
+      width={720}
+      zIndex={1100}
+      onCancel={props.onClose}
+      footer={
+        <div className="operation-report__actions">
+          <Button
+            icon={<IconDownload />}
+            onClick={() => downloadReport(report, 'json')}
+          >
+            导出 JSON
+          </Button>
+          <Button
+            icon={<IconDownload />}
+            onClick={() => downloadReport(report, 'csv')}
+          >
+            导出 CSV
+          </Button>
+          <Button
+            theme="solid"
+            icon={<IconRefresh />}
+            loading={retrying}
+            disabled={retryable.length === 0}
+            onClick={() => props.onRetry(retryable)}
+          >
+            重试失败项（{retryable.length}）
+          </Button>
+        </div>
+      }
+    >
+      <Typography.Text type="tertiary">
+        {formatTimestamp(report.createdAt)} · 共 {report.items.length} 项
+      </Typography.Text>
+      <div className="operation-report__toolbar">
+        <RadioGroup
+          type="button"
+          value={statusFilter}
+          onChange={(event) =>
+            setStatusFilter(event.target.value as StatusFilter)
+          }
+        >
+          <Radio value="all">全部 {report.items.length}</Radio>
+          <Radio value="failed">失败 {counts.failed}</Radio>
+          <Radio value="skipped">跳过 {counts.skipped}</Radio>
+          <Radio value="success">成功 {counts.success}</Radio>
+        </RadioGroup>
+        <Input
+          prefix={<IconSearch />}
+          placeholder="按表名 / 字段名 / 错误检索"
+          value={keyword}
+          onChange={(value) => setKeyword(value)}
+          showClear
+        />
+      </div>
+      <Table
+        size="small"
+        columns={COLUMNS}
+        dataSource={visibleItems}
+        pagination={{ pageSize: 10 }}
+        empty="没有符合筛选条件的条目"
+      />
+    </Modal>
+  );
+}
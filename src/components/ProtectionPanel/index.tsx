@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import {
+  Button,
+  Empty,
+  Input,
+  Modal,
+  Popconfirm,
+  Select,
+  Tag,
+  Typography,
+} from '@douyinfe/semi-ui';
+import { IconDelete, IconLock } from '@douyinfe/semi-icons';
+import type { TableBundle } from '../../types';
+import {
+  createRuleId,
+  describeRule,
+  ProtectionList,
+  ProtectionRule,
+  validatePattern,
+} from '../../utils/protection';
+import './style.css';
+
+type ProtectionPanelProps = {
+  list: ProtectionList;
+  bundles: TableBundle[];
+  onSave: (rules: ProtectionRule[]) => void;
+  onClose: () => void;
+};
+
+const RULE_KIND_LABELS: Record<ProtectionRule['kind'], string> = {
+  table: '表',
+  field: '字段',
+  pattern: '规则',
+};
+
+export default function ProtectionPanel(props: ProtectionPanelProps) {
+  const { list, bundles } = props;
+  const [rules, setRules] = useState<ProtectionRule[]>(list.rules);
+  const [pattern, setPattern] = useState('');
+  const patternError = pattern ? validatePattern(pattern) : null;
+  const changed = JSON.stringify(rules) !== JSON.stringify(list.rules);
+
+  const tableOptions = useMemo(
+    () =>
+      bundles
+        .filter(
+          (bundle) =>
+            !rules.some(
+              (rule) =>
+                rule.kind === 'table' && rule.tableId === bundle.meta.id,
+            ),
+        )
+        .map((bundle) => ({
+          value: bundle.meta.id,
+          label: bundle.meta.name || '无名表',
+        })),
+    [bundles, rules],
+  );
+
+  const fieldOptions = useMemo(
+    () =>
+      bundles.flatMap((bundle) =>
+        bundle.fields
+          .filter(
+            (field) =>
+              !rules.some(
+                (rule) => rule.kind === 'field' && rule.fieldId === field.id,
+              ),
+          )
+          .map((field) => ({
+            value: `${bundle.meta.id}:${field.id}`,
+            label: `${bundle.meta.name || '无名表'} / ${
+              field.name || '无名字段'
+            }`,
+          })),
+      ),
+    [bundles, rules],
+  );
+
+  const addTable = (tableId: string) => {
+    const bundle = bundles.find((item) => item.meta.id === tableId);
+    if (bundle) {
+      setRules((prev) => [
+        ...prev,
+        {
+          id: createRuleId(),
+          kind: 'table',
+          tableId,
+          tableName: bundle.meta.name || '无名表',
+        },
+      ]);
+    }
+  };
+
+  const addField = (value: string) => {
+    const [tableId, fieldId] = value.split(':');
+    const bundle = bundles.find((item) => item.meta.id === tableId);
+    const field = bundle?.fields.find((item) => item.id === fieldId);
+    if (bundle && field) {
+      setRules((prev) => [
+        ...prev,
+        {
+          id: createRuleId(),
+          kind: 'field',
+          tableId,
+          tableName: bundle.meta.name || '无名表',
+          fieldId,
+          fieldName: field.name || '无名字段',
+        },
+      ]);
+    }
+  };
+
+  const addPattern = () => {
+    const trimmed = pattern.trim();
+    if (validatePattern(trimmed)) {
+      return;
+    }
+    setRules((prev) => [
+      ...prev,
+      { id: createRuleId(), kind: 'pattern', pattern: trimmed },
+    ]);
+    setPattern('');
+  };
+
+  return (
+    <Modal
+      visible
+      title="保护名单"
+      width={640}
+      zIndex={1100}
+      onCancel={props.onClose}
+      footer={
+        <div className="protection-panel__footer">
+          <Button onClick={props.onClose}>取消</Button>
+          <Popconfirm
+            title="确认修改保护名单？"
+            content="保护名单存在 bridge 数据里，对这个 Base 的所有协作者生效。"
+            onConfirm={() => props.onSave(rules)}
+          >
+            <Button theme="solid" disabled={!changed}>
+              保存修改
+            </Button>
+          </Popconfirm>
+        </div>
+      }
+    >
+      <Typography.Text type="tertiary">
+        受保护的表和字段会挂上小锁，无法勾选，也不会被任何批量操作删除。名称规则同时匹配表名与字段名。
+      </Typography.Text>
+      <div className="protection-panel__add">
+        <Select
+          placeholder="保护整张表"
+          filter
+          value={undefined}
+          optionList={tableOptions}
+          onChange={(value) => addTable(String(value))}
+        />
+        <Select
+          placeholder="保护单个字段"
+          filter
+          value={undefined}
+          optionList={fieldOptions}
+          onChange={(value) => addField(String(value))}
+        />
+        <div className="protection-panel__pattern">
+          <Input
+            placeholder="名称规则，如 核心_* 或 /^kpi/"
+            value={pattern}
+            validateStatus={patternError ? 'error' : 'default'}
+            onChange={setPattern}
+            onEnterPress={addPattern}
+          />
+          <Button disabled={!pattern || !!patternError} onClick={addPattern}>
+            添加规则
+          </Button>
+        </div>
+        {patternError && (
+          <Typography.Text type="danger" size="small">
+            {patternError}
+          </Typography.Text>
+        )}
+      </div>
+      {rules.length === 0 ? (
+        <Empty description="还没有受保护的表或字段。" />
+      ) : (
+        <ul className="protection-panel__rules">
+          {rules.map((rule) => (
+            <li key={rule.id}>
+              <Tag size="small" color="amber" prefixIcon={<IconLock />}>
+                {RULE_KIND_LABELS[rule.kind]}
+              </Tag>
+              <Typography.Text ellipsis={{ showTooltip: true }}>
+                {describeRule(rule)}
+              </Typography.Text>
+              <Button
+                size="small"
+                theme="borderless"
+                type="danger"
+                icon={<IconDelete />}
+                aria-label="移除保护"
+                onClick={() =>
+                  setRules((prev) => prev.filter((item) => item.id !== rule.id))
+                }
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+    </Modal>
+  );
+}
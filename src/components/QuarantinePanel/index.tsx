@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import {
+  Button,
+  Empty,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Tag,
+  Typography,
+} from '@douyinfe/semi-ui';
+import { IconRestore } from '@douyinfe/semi-icons';
+import { formatTimestamp } from '../../utils/format';
+import {
+  describeQuarantineItem,
+  getEntriesOlderThan,
+  getQuarantineAgeDays,
+  QuarantineList,
+} from '../../utils/quarantine';
+import './style.css';
+
+type QuarantinePanelProps = {
+  list: QuarantineList;
+  restoringId: string | null;
+  onRestore: (entryId: string) => void;
+  /** 把超过 days 天的条目交给删除计划 */
+  onPurge: (days: number) => void;
+  onClose: () => void;
+};
+
+export default function QuarantinePanel(props: QuarantinePanelProps) {
+  const { list, restoringId } = props;
+  const [purgeDays, setPurgeDays] = useState(30);
+  const purgeCount = getEntriesOlderThan(list, purgeDays).length;
+
+  return (
+    <Modal
+      visible
+      title={`隔离区（${list.entries.length}）`}
+      width={640}
+      zIndex={1100}
+      onCancel={props.onClose}
+      footer={
+        <div className="quarantine-panel__footer">
+          <InputNumber
+            className="quarantine-panel__days"
+            value={purgeDays}
+            min={0}
+            prefix="超过"
+            suffix="天"
+            onNumberChange={(value) =>
+              setPurgeDays(Number.isFinite(value) ? Math.max(0, value) : 0)
+            }
+          />
+          <Popconfirm
+            title={`清除 ${purgeCount} 项？`}
+            content="会走正常的删除流程：先看删除计划，再按风险确认，执行前照常快照。"
+            disabled={purgeCount === 0}
+            onConfirm={() => props.onPurge(purgeDays)}
+          >
+            <Button type="danger" theme="solid" disabled={purgeCount === 0}>
+              彻底清除（{purgeCount}）
+            </Button>
+          </Popconfirm>
+        </div>
+      }
+    >
+      <Typography.Text type="tertiary">
+        隔离的字段被加上「[隔离]」前缀并在所有视图中隐藏，表只改名；什么都没删，随时一键恢复。
+      </Typography.Text>
+      {list.entries.length === 0 ? (
+        <Empty description="隔离区空空如也。" />
+      ) : (
+        <ul className="quarantine-panel__entries">
+          {list.entries.map((entry) => {
+            const age = getQuarantineAgeDays(entry);
+            return (
+              <li key={entry.id}>
+                <Tag
+                  size="small"
+                  color={entry.kind === 'table' ? 'red' : 'blue'}
+                >
+                  {entry.kind === 'table' ? '表' : '字段'}
+                </Tag>
+                <Typography.Text ellipsis={{ showTooltip: true }}>
+                  {describeQuarantineItem(entry)}
+                </Typography.Text>
+                <Typography.Text type="tertiary" size="small">
+                  {formatTimestamp(entry.quarantinedAt)}
+                  {age > 0 ? ` · ${age} 天前` : ' · 今天'}
+                </Typography.Text>
+                <Button
+                  size="small"
+                  theme="borderless"
+                  icon={<IconRestore />}
+                  loading={restoringId === entry.id}
+                  disabled={!!restoringId && restoringId !== entry.id}
+                  onClick={() => props.onRestore(entry.id)}
+                >
+                  恢复
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react';
+import {
+  Button,
+  Empty,
+  Input,
+  Modal,
+  Popconfirm,
+  Radio,
+  RadioGroup,
+  Tag,
+  Typography,
+} from '@douyinfe/semi-ui';
+import type { TableBundle } from '../../types';
+import {
+  CleanupRecipe,
+  RECIPE_SCOPE_LABELS,
+  RecipeItem,
+  recipeItemKey,
+  RecipeLibrary,
+  RecipePreview,
+  RecipeScope,
+  resolveRecipe,
+} from '../../utils/cleanupRecipes';
+import type { FieldUsageMap } from '../../utils/fieldUsage';
+import { formatTimestamp } from '../../utils/format';
+import './style.css';
+
+type RecipePanelProps = {
+  library: RecipeLibrary;
+  bundles: TableBundle[];
+  usage: FieldUsageMap;
+  currentQuery: string;
+  selectionCount: number;
+  onSave: (name: string, scope: RecipeScope) => void;
+  onLoadFilter: (recipe: CleanupRecipe) => void;
+  onApply: (recipe: CleanupRecipe, preview: RecipePreview) => void;
+  onDelete: (recipeId: string) => void;
+  onClose: () => void;
+};
+
+const describeItem = (item: RecipeItem) =>
+  item.kind === 'table'
+    ? `整表「${item.tableName}」`
+    : `${item.tableName} / ${item.fieldName}`;
+
+export default function RecipePanel(props: RecipePanelProps) {
+  const { library, bundles, usage } = props;
+  const hasQuery = props.currentQuery.trim().length > 0;
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<RecipeScope>(
+    hasQuery ? 'fields' : 'selection',
+  );
+  const [activeId, setActiveId] = useState<string | null>(
+    library.recipes[0]?.id ?? null,
+  );
+
+  const active = library.recipes.find((recipe) => recipe.id === activeId);
+  const preview = useMemo(
+    () => (active ? resolveRecipe(active, bundles, usage) : null),
+    [active, bundles, usage],
+  );
+  const canSave =
+    name.trim().length > 0 &&
+    (scope === 'selection' ? props.selectionCount > 0 : hasQuery);
+
+  return (
+    <Modal
+      visible
+      title="清理配方"
+      width={760}
+      zIndex={1100}
+      footer={null}
+      onCancel={props.onClose}
+    >
+      <section className="recipe-panel__save">
+        <Input
+          placeholder="给配方起个名字，比如「每个迭代清临时字段」"
+          value={name}
+          onChange={setName}
+        />
+        <RadioGroup
+          value={scope}
+          onChange={(event) => setScope(event.target.value as RecipeScope)}
+        >
+          <Radio value="fields" disabled={!hasQuery}>
+            {RECIPE_SCOPE_LABELS.fields}
+          </Radio>
+          <Radio value="tables" disabled={!hasQuery}>
+            {RECIPE_SCOPE_LABELS.tables}
+          </Radio>
+          <Radio value="selection" disabled={props.selectionCount === 0}>
+            {RECIPE_SCOPE_LABELS.selection}（{props.selectionCount}）
+          </Radio>
+        </RadioGroup>
+        <Button
+          theme="solid"
+          disabled={!canSave}
+          onClick={() => {
+            props.onSave(name.trim(), scope);
+            setName('');
+          }}
+        >
+          保存当前{scope === 'selection' ? '勾选' : '查询'}
+        </Button>
+      </section>
+      {hasQuery && scope !== 'selection' && (
+        <Typography.Text type="tertiary" size="small">
+          将保存查询：<code>{props.currentQuery}</code>
+        </Typography.Text>
+      )}
+
+      {library.recipes.length === 0 ? (
+        <Empty description="还没有配方，先用搜索框筛好，再存一份。" />
+      ) : (
+        <div className="recipe-panel">
+          <ul className="recipe-panel__list">
+            {library.recipes.map((recipe) => (
+              <li
+                key={recipe.id}
+                className={`recipe-panel__item ${
+                  recipe.id === activeId ? 'recipe-panel__item--active' : ''
+                }`}
+                onClick={() => setActiveId(recipe.id)}
+              >
+                <Typography.Text strong ellipsis={{ showTooltip: true }}>
+                  {recipe.name}
+                </Typography.Text>
+                <Tag size="small">{RECIPE_SCOPE_LABELS[recipe.scope]}</Tag>
+                <Typography.Text type="tertiary" size="small">
+                  {recipe.lastRunAt
+                    ? `上次使用 ${formatTimestamp(recipe.lastRunAt)}`
+                    : `创建于 ${formatTimestamp(recipe.createdAt)}`}
+                </Typography.Text>
+              </li>
+            ))}
+          </ul>
+          {active && preview && (
+            <div className="recipe-panel__preview">
+              {active.scope !== 'selection' && (
+                <Typography.Text type="tertiary" size="small">
+                  查询：<code>{active.query}</code>
+                </Typography.Text>
+              )}
+              <Typography.Text strong>
+                现在命中 {preview.matched.length} 项
+                {preview.missing.length > 0
+                  ? `，${preview.missing.length} 项已不存在`
+                  : ''}
+              </Typography.Text>
+              <ul className="recipe-panel__matches">
+                {preview.matched.map((item) => (
+                  <li key={recipeItemKey(item)}>
+                    <Typography.Text>{describeItem(item)}</Typography.Text>
+                    {item.isNew && (
+                      <Tag size="small" color="blue">
+                        新命中
+                      </Tag>
+                    )}
+                  </li>
+                ))}
+                {preview.missing.map((item) => (
+                  <li key={recipeItemKey(item)}>
+                    <Typography.Text type="tertiary" delete>
+                      {describeItem(item)}
+                    </Typography.Text>
+                    <Tag size="small" color="grey">
+                      已不存在
+                    </Tag>
+                  </li>
+                ))}
+              </ul>
+              <div className="recipe-panel__actions">
+                <Popconfirm
+                  title="删除这个配方？"
+                  content="只删配方本身，不影响表和字段。"
+                  onConfirm={() => props.onDelete(active.id)}
+                >
+                  <Button type="danger" theme="borderless">
+                    删除配方
+                  </Button>
+                </Popconfirm>
+                {active.scope !== 'selection' && (
+                  <Button onClick={() => props.onLoadFilter(active)}>
+                    载入到搜索框
+                  </Button>
+                )}
+                <Button
+                  theme="solid"
+                  type="danger"
+                  disabled={preview.matched.length === 0}
+                  onClick={() => props.onApply(active, preview)}
+                >
+                  按配方勾选 {preview.matched.length} 项
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,165 @@
+import {
+  Button,
+  DatePicker,
+  Input,
+  Radio,
+  RadioGroup,
+  Select,
+} from '@douyinfe/semi-ui';
+import { IconDelete, IconPlus } from '@douyinfe/semi-icons';
+import type { IFieldMeta } from '@lark-base-open/js-sdk';
+import { getFieldTypeLabel } from '../../utils/fieldTypes';
+import {
+  createCondition,
+  FILTER_OPERATOR_LABELS,
+  FilterOperator,
+  getConditionKind,
+  getFieldOperators,
+  RecordCondition,
+  RecordFilter,
+  VALUELESS_OPERATORS,
+} from '../../utils/recordFilter';
+import './style.css';
+
+type RecordFilterEditorProps = {
+  fields: IFieldMeta[];
+  filter: RecordFilter;
+  onChange: (filter: RecordFilter) => void;
+};
+
+/** 记录条件编辑器：按条件删记录、清空字段值都用它 */
+export default function RecordFilterEditor(props: RecordFilterEditorProps) {
+  const { fields, filter } = props;
+
+  const updateCondition = (id: string, patch: Partial<RecordCondition>) =>
+    props.onChange({
+      ...filter,
+      conditions: filter.conditions.map((condition) =>
+        condition.id === id ? { ...condition, ...patch } : condition,
+      ),
+    });
+
+  const changeField = (id: string, fieldId: string) => {
+    const field = fields.find((item) => item.id === fieldId);
+    if (field) {
+      updateCondition(id, {
+        fieldId,
+        operator: getFieldOperators(field.type)[0],
+        value: '',
+      });
+    }
+  };
+
+  const addCondition = () => {
+    const field = fields.find((item) => item.isPrimary) ?? fields[0];
+    if (field) {
+      props.onChange({
+        ...filter,
+        conditions: [...filter.conditions, createCondition(field)],
+      });
+    }
+  };
+
+  const fieldOptions = fields.map((field) => ({
+    value: field.id,
+    label: `${field.name}（${getFieldTypeLabel(field.type)}）`,
+  }));
+
+  const renderValueInput = (condition: RecordCondition) => {
+    if (VALUELESS_OPERATORS.has(condition.operator)) {
+      return <span className="record-filter__value" />;
+    }
+    const field = fields.find((item) => item.id === condition.fieldId);
+    if (field && getConditionKind(field.type) === 'date') {
+      return (
+        <DatePicker
+          className="record-filter__value"
+          type="date"
+          format="yyyy-MM-dd"
+          value={condition.value || undefined}
+          onChange={(_, dateString) =>
+            updateCondition(condition.id, { value: String(dateString ?? '') })
+          }
+        />
+      );
+    }
+    return (
+      <Input
+        className="record-filter__value"
+        placeholder="值"
+        value={condition.value}
+        onChange={(value) => updateCondition(condition.id, { value })}
+      />
+    );
+  };
+
+  return (
+    <div className="record-filter__conditions">
+      <RadioGroup
+        type="button"
+        value={filter.conjunction}
+        onChange={(event) =>
+          props.onChange({
+            ...filter,
+            conjunction: event.target.value as RecordFilter['conjunction'],
+          })
+        }
+      >
+        <Radio value="and">满足全部条件</Radio>
+        <Radio value="or">满足任一条件</Radio>
+      </RadioGroup>
+      {filter.conditions.map((condition) => {
+        const field = fields.find((item) => item.id === condition.fieldId);
+        return (
+          <div key={condition.id} className="record-filter__condition">
+            <Select
+              className="record-filter__field"
+              filter
+              value={condition.fieldId}
+              optionList={fieldOptions}
+              onChange={(value) => changeField(condition.id, String(value))}
+            />
+            <Select
+              className="record-filter__operator"
+              value={condition.operator}
+              optionList={(field ? getFieldOperators(field.type) : []).map(
+                (operator) => ({
+                  value: operator,
+                  label: FILTER_OPERATOR_LABELS[operator],
+                }),
+              )}
+              onChange={(value) =>
+                updateCondition(condition.id, {
+                  operator: value as FilterOperator,
+                })
+              }
+            />
+            {renderValueInput(condition)}
+            <Button
+              theme="borderless"
+              type="danger"
+              icon={<IconDelete />}
+              aria-label="移除条件"
+              onClick={() =>
+                props.onChange({
+                  ...filter,
+                  conditions: filter.conditions.filter(
+                    (item) => item.id !== condition.id,
+                  ),
+                })
+              }
+            />
+          </div>
+        );
+      })}
+      <Button
+        className="record-filter__add"
+        theme="borderless"
+        icon={<IconPlus />}
+        onClick={addCondition}
+      >
+        添加条件
+      </Button>
+    </div>
+  );
+}
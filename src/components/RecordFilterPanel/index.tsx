@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Button,
+  Modal,
+  Popconfirm,
+  Select,
+  Spin,
+  Table,
+  Tag,
+  Typography,
+} from '@douyinfe/semi-ui';
+import type { IOpenCellValue, IRecord } from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../../types';
+import { BackupProgress, cellToText } from '../../utils/recordBackup';
+import {
+  findMatchingRecords,
+  RecordFilter,
+  RecordMatchResult,
+  validateFilter,
+} from '../../utils/recordFilter';
+import RecordFilterEditor from '../RecordFilterEditor';
+import './style.css';
+
+type RecordFilterPanelProps = {
+  bundles: TableBundle[];
+  /** 受保护的表不能选，记录也不能删 */
+  isTableLocked: (bundle: TableBundle) => boolean;
+  busy: boolean;
+  /** 先快照备份再分批删除，完成后面板会重新筛选一遍 */
+  onDelete: (tableId: string, recordIds: string[]) => Promise<void>;
+  onClose: () => void;
+};
+
+/** 条件改动后稍等一下再扫描，免得每敲一个字就读一遍整表 */
+const SCAN_DELAY = 500;
+const MAX_SAMPLE_COLUMNS = 5;
+
+export default function RecordFilterPanel(props: RecordFilterPanelProps) {
+  const { bundles, busy } = props;
+  const [tableId, setTableId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<RecordFilter>({
+    conjunction: 'and',
+    conditions: [],
+  });
+  const [result, setResult] = useState<RecordMatchResult | null>(null);
+  const [scanProgress, setScanProgress] = useState<BackupProgress | null>(
+    null,
+  );
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [scanVersion, setScanVersion] = useState(0);
+
+  const bundle = bundles.find((item) => item.meta.id === tableId) ?? null;
+  const fields = bundle?.fields ?? [];
+  const filterError = bundle ? validateFilter(filter, fields) : null;
+
+  useEffect(() => {
+    setResult(null);
+    setScanError(null);
+    if (!bundle || filterError) {
+      return undefined;
+    }
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      try {
+        const matched = await findMatchingRecords(
+          bundle.meta.id,
+          bundle.fields,
+          filter,
+          { signal: controller.signal, onProgress: setScanProgress },
+        );
+        if (!controller.signal.aborted) {
+          setResult(matched);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error(error);
+          setScanError('读取记录失败，稍后再试。');
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setScanProgress(null);
+        }
+      }
+    }, SCAN_DELAY);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+      setScanProgress(null);
+    };
+  }, [bundle, filter, filterError, scanVersion]);
+
+  // 样例表展示索引列和条件里用到的字段
+  const sampleColumns = useMemo(() => {
+    const ids = [
+      ...fields.filter((field) => field.isPrimary).map((field) => field.id),
+      ...filter.conditions.map((condition) => condition.fieldId),
+    ];
+    return Array.from(new Set(ids))
+      .slice(0, MAX_SAMPLE_COLUMNS)
+      .flatMap((fieldId) => {
+        const field = fields.find((item) => item.id === fieldId);
+        return field
+          ? [
+              {
+                title: field.name,
+                dataIndex: field.id,
+                render: (_: unknown, record: IRecord) => (
+                  <Typography.Text ellipsis={{ showTooltip: true }}>
+                    {cellToText(record.fields[field.id] as IOpenCellValue) ||
+                      '—'}
+                  </Typography.Text>
+                ),
+              },
+            ]
+          : [];
+      });
+  }, [fields, filter.conditions]);
+
+  const matchedCount = result?.recordIds.length ?? 0;
+
+  return (
+    <Modal
+      visible
+      title="按条件删除记录"
+      width={780}
+      zIndex={1100}
+      onCancel={props.onClose}
+      footer={
+        <Popconfirm
+          title={`删除 ${matchedCount} 条记录？`}
+          content="会先拍快照并备份这些记录，之后可以从快照回滚找回。"
+          disabled={!result || matchedCount === 0}
+          onConfirm={async () => {
+            if (bundle && result) {
+              await props.onDelete(bundle.meta.id, result.recordIds);
+              setScanVersion((prev) => prev + 1);
+            }
+          }}
+        >
+          <Button
+            type="danger"
+            theme="solid"
+            loading={busy}
+            disabled={!result || matchedCount === 0}
+          >
+            删除命中的记录（{matchedCount}）
+          </Button>
+        </Popconfirm>
+      }
+    >
+      <div className="record-filter__head">
+        <Select
+          className="record-filter__table"
+          placeholder="选择一张表"
+          filter
+          value={tableId ?? undefined}
+          optionList={bundles.map((item) => ({
+            value: item.meta.id,
+            label: `${item.meta.name || '无名表'}${
+              props.isTableLocked(item) ? '（受保护）' : ''
+            }`,
+            disabled: props.isTableLocked(item),
+          }))}
+          onChange={(value) => {
+            setTableId(String(value));
+            setFilter((prev) => ({ ...prev, conditions: [] }));
+          }}
+        />
+      </div>
+      {bundle && (
+        <RecordFilterEditor
+          fields={fields}
+          filter={filter}
+          onChange={setFilter}
+        />
+      )}
+      <div className="record-filter__status">
+        {!bundle ? (
+          <Typography.Text type="tertiary">
+            先选一张表，再添加条件；命中的记录会实时数出来。
+          </Typography.Text>
+        ) : filterError ? (
+          <Typography.Text type="warning">{filterError}</Typography.Text>
+        ) : scanError ? (
+          <Typography.Text type="danger">{scanError}</Typography.Text>
+        ) : !result ? (
+          <Spin size="small">
+            <Typography.Text type="tertiary">
+              正在筛选
+              {scanProgress
+                ? ` ${scanProgress.done} / ${scanProgress.total}`
+                : '…'}
+            </Typography.Text>
+          </Spin>
+        ) : (
+          <Tag color={matchedCount > 0 ? 'red' : 'grey'} size="large">
+            命中 {matchedCount} / {result.scanned} 条
+          </Tag>
+        )}
+      </div>
+      {result && result.sample.length > 0 && (
+        <Table
+          className="record-filter__sample"
+          size="small"
+          rowKey="recordId"
+          columns={sampleColumns}
+          dataSource={result.sample}
+          pagination={false}
+        />
+      )}
+    </Modal>
+  );
+}
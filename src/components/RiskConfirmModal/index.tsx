@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Input, Modal, Tag, Typography } from '@douyinfe/semi-ui';
+import type { TagColor } from '@douyinfe/semi-ui/lib/es/tag/interface';
+import {
+  DeletionPlan,
+  getPlanOperations,
+} from '../../utils/deletionPlan';
+import {
+  RISK_TIER_LABELS,
+  RiskAssessment,
+  RiskTier,
+} from '../../utils/riskTiers';
+import './style.css';
+
+type RiskConfirmModalProps = {
+  plan: DeletionPlan;
+  assessment: RiskAssessment;
+  onCancel: () => void;
+  onConfirm: () => void;
+};
+
+const TIER_COLORS: Record<RiskTier, TagColor> = {
+  low: 'green',
+  medium: 'amber',
+  high: 'orange',
+  critical: 'red',
+};
+
+export default function RiskConfirmModal(props: RiskConfirmModalProps) {
+  const { plan, assessment } = props;
+  const { countdown, typedPhrase } = assessment.requirement;
+  const [remaining, setRemaining] = useState(countdown);
+  const [typed, setTyped] = useState('');
+  const operations = getPlanOperations(plan);
+
+  useEffect(() => {
+    if (remaining <= 0) {
+      return undefined;
+    }
+    const timer = window.setTimeout(() => setRemaining((prev) => prev - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [remaining]);
+
+  const typedOk = typedPhrase === null || typed.trim() === typedPhrase;
+  const ready = remaining <= 0 && typedOk;
+
+  return (
+    <Modal
+      visible
+      title={
+        <span className="risk-confirm__title">
+          再确认一次
+          <Tag color={TIER_COLORS[assessment.tier]}>
+            {RISK_TIER_LABELS[assessment.tier]}
+          </Tag>
+        </span>
+      }
+      width={480}
+      zIndex={1100}
+      okText={remaining > 0 ? `确认删除（${remaining}s）` : '确认删除'}
+      cancelText="我再想想"
+      okButtonProps={{ type: 'danger', disabled: !ready }}
+      onOk={props.onConfirm}
+      onCancel={props.onCancel}
+    >
+      <div className="confirm-content">
+        {assessment.reasons.map((reason) => (
+          <p key={reason}>· {reason}</p>
+        ))}
+      </div>
+      <div className="risk-confirm__summary">
+        {operations.tables.map((item) => (
+          <Typography.Text key={item.key} type="danger" strong>
+            删除整表「{item.tableName}」
+          </Typography.Text>
+        ))}
+        {operations.fieldsByTable.map((group) => (
+          <Typography.Text key={group.tableId} type="danger">
+            「{group.tableName}」删除 {group.fields.length} 个字段：
+            {group.fields.map((item) => item.fieldName).join('、')}
+          </Typography.Text>
+        ))}
+      </div>
+      {typedPhrase !== null && (
+        <div className="risk-confirm__typed">
+          <Typography.Text>
+            请输入 <Typography.Text code>{typedPhrase}</Typography.Text> 以继续：
+          </Typography.Text>
+          <Input
+            autoFocus
+            value={typed}
+            placeholder={typedPhrase}
+            validateStatus={typed && !typedOk ? 'error' : 'default'}
+            onChange={setTyped}
+          />
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Button, InputNumber, Modal, Typography } from '@douyinfe/semi-ui';
+import {
+  DEFAULT_RISK_SETTINGS,
+  getRiskRequirement,
+  RISK_SETTING_TIERS,
+  RISK_TIER_LABELS,
+  RiskLimits,
+  RiskSettings,
+  RiskSettingTier,
+} from '../../utils/riskTiers';
+import './style.css';
+
+type RiskSettingsPanelProps = {
+  settings: RiskSettings;
+  onSave: (settings: RiskSettings) => void;
+  onClose: () => void;
+};
+
+const LIMIT_LABELS: Record<keyof RiskLimits, string> = {
+  tables: '表 ≥',
+  fields: '字段 ≥',
+  records: '记录 ≥',
+};
+
+const REQUIREMENT_HINTS: Record<RiskSettingTier, string> = {
+  medium: '看一眼计划摘要',
+  high: '输入删除项数',
+  critical: '输入「确认删除 N 项」',
+};
+
+const describeRequirement = (tier: RiskSettingTier) =>
+  `${REQUIREMENT_HINTS[tier]}，等 ${getRiskRequirement(tier, 0).countdown} 秒`;
+
+export default function RiskSettingsPanel(props: RiskSettingsPanelProps) {
+  const [draft, setDraft] = useState<RiskSettings>(props.settings);
+
+  const updateLimit = (
+    tier: RiskSettingTier,
+    key: keyof RiskLimits,
+    value: number,
+  ) =>
+    setDraft((prev) => ({
+      ...prev,
+      [tier]: { ...prev[tier], [key]: Math.max(1, Math.round(value) || 1) },
+    }));
+
+  return (
+    <Modal
+      visible
+      title="风险阈值"
+      width={560}
+      zIndex={1100}
+      onCancel={props.onClose}
+      footer={
+        <div className="risk-settings__footer">
+          <Button onClick={() => setDraft(DEFAULT_RISK_SETTINGS)}>
+            恢复默认
+          </Button>
+          <Button onClick={props.onClose}>取消</Button>
+          <Button theme="solid" onClick={() => props.onSave(draft)}>
+            保存
+          </Button>
+        </div>
+      }
+    >
+      <Typography.Text type="tertiary">
+        任一指标达到门槛就进入对应档位；删除前快照或记录备份失败时一律按极高风险处理。
+      </Typography.Text>
+      <div className="risk-settings__rows">
+        {RISK_SETTING_TIERS.map((tier) => (
+          <div key={tier} className="risk-settings__row">
+            <Typography.Text strong>{RISK_TIER_LABELS[tier]}</Typography.Text>
+            <div className="risk-settings__limits">
+              {(Object.keys(LIMIT_LABELS) as (keyof RiskLimits)[]).map(
+                (key) => (
+                  <InputNumber
+                    key={key}
+                    size="small"
+                    prefix={LIMIT_LABELS[key]}
+                    min={1}
+                    value={draft[tier][key]}
+                    onNumberChange={(value) => updateLimit(tier, key, value)}
+                  />
+                ),
+              )}
+            </div>
+            <Typography.Text type="tertiary" size="small">
+              {describeRequirement(tier)}
+            </Typography.Text>
+          </div>
+        ))}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,253 @@
+import { useMemo, useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Empty,
+  Modal,
+  Select,
+  Tag,
+  Tooltip,
+  Typography,
+} from '@douyinfe/semi-ui';
+import { IconUndo } from '@douyinfe/semi-icons';
+import type { Snapshot, SnapshotField, SnapshotTable } from '../../types';
+import { getFieldTypeLabel } from '../../utils/fieldTypes';
+import { formatTimestamp } from '../../utils/format';
+import {
+  DiffChange,
+  DIFF_CHANGE_LABELS,
+  diffSchemas,
+  FieldDiff,
+  TableDiff,
+} from '../../utils/schemaDiff';
+import './style.css';
+
+const LIVE_TARGET = 'live';
+
+const CHANGE_COLORS: Record<DiffChange, 'green' | 'red' | 'blue' | 'orange' | 'violet'> = {
+  added: 'green',
+  removed: 'red',
+  renamed: 'blue',
+  typeChanged: 'orange',
+  propertyChanged: 'violet',
+};
+
+type SchemaDiffPanelProps = {
+  /** 作为对比基准（before）的快照 */
+  baseSnapshot: Snapshot;
+  snapshots: Snapshot[];
+  liveTables: SnapshotTable[];
+  restoringKey: string | null;
+  onClose: () => void;
+  onRestore: (tableDiff: TableDiff, fieldDiff?: FieldDiff) => void;
+};
+
+const renderChanges = (changes: DiffChange[]) =>
+  changes.map((change) => (
+    <Tag key={change} size="small" color={CHANGE_COLORS[change]}>
+      {DIFF_CHANGE_LABELS[change]}
+    </Tag>
+  ));
+
+const describeField = (diff: FieldDiff) => {
+  const { before, after } = diff;
+  const name = (field?: SnapshotField) => field?.name ?? '—';
+  if (before && after && before.name !== after.name) {
+    return `${name(before)} → ${name(after)}`;
+  }
+  return name(before ?? after);
+};
+
+const describeFieldType = (diff: FieldDiff) => {
+  const { before, after } = diff;
+  if (before && after && before.type !== after.type) {
+    return `${getFieldTypeLabel(before.type)} → ${getFieldTypeLabel(after.type)}`;
+  }
+  const field = before ?? after;
+  return field ? getFieldTypeLabel(field.type) : '';
+};
+
+const describeTable = (diff: TableDiff) => {
+  const { before, after } = diff;
+  if (before && after && before.tableName !== after.tableName) {
+    return `${before.tableName} → ${after.tableName}`;
+  }
+  return (before ?? after)?.tableName ?? '无名表';
+};
+
+/** 只有快照一侧存在的项才有东西可恢复，新增项不提供恢复 */
+const canRestore = (changes: DiffChange[], hasBefore: boolean) =>
+  hasBefore && changes.length > 0 && !changes.includes('added');
+
+export default function SchemaDiffPanel(props: SchemaDiffPanelProps) {
+  const { baseSnapshot, snapshots, liveTables, restoringKey } = props;
+  const [target, setTarget] = useState<string>(LIVE_TARGET);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+
+  const compareWithLive = target === LIVE_TARGET;
+  const targetSnapshot = compareWithLive
+    ? null
+    : snapshots.find((item) => item.id === target) ?? null;
+
+  const diff = useMemo(
+    () =>
+      diffSchemas(
+        baseSnapshot.tables,
+        targetSnapshot ? targetSnapshot.tables : liveTables,
+      ),
+    [baseSnapshot, targetSnapshot, liveTables],
+  );
+
+  const visibleTables = useMemo(
+    () =>
+      diff.tables
+        .map((table) => ({
+          table,
+          fields: onlyChanges
+            ? table.fields.filter((field) => field.changes.length > 0)
+            : table.fields,
+        }))
+        .filter(
+          ({ table, fields }) =>
+            !onlyChanges || table.changes.length > 0 || fields.length > 0,
+        ),
+    [diff, onlyChanges],
+  );
+
+  const targetOptions = [
+    { value: LIVE_TARGET, label: '当前 Base（实时）' },
+    ...snapshots
+      .filter((item) => item.id !== baseSnapshot.id)
+      .map((item) => ({
+        value: item.id,
+        label: `${item.label} · ${formatTimestamp(item.timestamp)}`,
+      })),
+  ];
+
+  const summaryTags = (scope: 'tables' | 'fields', unit: string) =>
+    (Object.keys(DIFF_CHANGE_LABELS) as DiffChange[])
+      .filter((change) => diff.summary[scope][change] > 0)
+      .map((change) => (
+        <Tag key={`${scope}-${change}`} color={CHANGE_COLORS[change]}>
+          {unit}
+          {DIFF_CHANGE_LABELS[change]} {diff.summary[scope][change]}
+        </Tag>
+      ));
+
+  const restoreButton = (tableDiff: TableDiff, fieldDiff?: FieldDiff) => {
+    const key = fieldDiff ? `${tableDiff.key}/${fieldDiff.key}` : tableDiff.key;
+    const item = fieldDiff ?? tableDiff;
+    if (!canRestore(item.changes, !!item.before)) {
+      return null;
+    }
+    return (
+      <Tooltip
+        content={
+          compareWithLive
+            ? '只把这一项恢复成快照里的样子'
+            : '对比对象是快照，切换到「当前 Base」后才能恢复'
+        }
+      >
+        <Button
+          size="small"
+          theme="borderless"
+          icon={<IconUndo />}
+          loading={restoringKey === key}
+          disabled={!compareWithLive || (restoringKey !== null && restoringKey !== key)}
+          onClick={() => props.onRestore(tableDiff, fieldDiff)}
+        >
+          恢复
+        </Button>
+      </Tooltip>
+    );
+  };
+
+  const summary = [...summaryTags('tables', '表'), ...summaryTags('fields', '字段')];
+
+  return (
+    <Modal
+      visible
+      title={`结构对比：${baseSnapshot.label}`}
+      footer={null}
+      width={640}
+      zIndex={1100}
+      onCancel={props.onClose}
+      bodyStyle={{ paddingBottom: 24 }}
+    >
+      <div className="schema-diff__toolbar">
+        <Typography.Text type="tertiary">对比对象</Typography.Text>
+        <Select
+          size="small"
+          value={target}
+          optionList={targetOptions}
+          onChange={(value) => {
+            if (typeof value === 'string') {
+              setTarget(value);
+            }
+          }}
+          style={{ flex: 1, minWidth: 0 }}
+        />
+        <Checkbox
+          checked={onlyChanges}
+          onChange={(event) => setOnlyChanges(!!event.target.checked)}
+        >
+          只看变化
+        </Checkbox>
+      </div>
+      <div className="schema-diff__summary">
+        {summary.length > 0 ? (
+          summary
+        ) : (
+          <Typography.Text type="tertiary">
+            结构完全一致，没有变化。
+          </Typography.Text>
+        )}
+      </div>
+      {visibleTables.length === 0 ? (
+        <Empty description="没有可显示的差异。" />
+      ) : (
+        <ul className="schema-diff">
+          {visibleTables.map(({ table, fields }) => (
+            <li key={table.key} className="schema-diff__table">
+              <div className="schema-diff__row">
+                <Typography.Text strong ellipsis={{ showTooltip: true }}>
+                  {describeTable(table)}
+                </Typography.Text>
+                {table.matchedBy === 'name' && (
+                  <Tooltip content="ID 对不上，按名称配对">
+                    <Tag size="small">按名称</Tag>
+                  </Tooltip>
+                )}
+                {renderChanges(table.changes)}
+                <span className="schema-diff__spacer" />
+                {restoreButton(table)}
+              </div>
+              {fields.length > 0 && (
+                <ul className="schema-diff__fields">
+                  {fields.map((field) => (
+                    <li key={field.key} className="schema-diff__row">
+                      <Typography.Text ellipsis={{ showTooltip: true }}>
+                        {describeField(field)}
+                      </Typography.Text>
+                      <Typography.Text type="tertiary" size="small">
+                        {describeFieldType(field)}
+                      </Typography.Text>
+                      {field.matchedBy === 'name' && (
+                        <Tooltip content="ID 对不上，按名称配对">
+                          <Tag size="small">按名称</Tag>
+                        </Tooltip>
+                      )}
+                      {renderChanges(field.changes)}
+                      <span className="schema-diff__spacer" />
+                      {table.before && table.after && restoreButton(table, field)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,318 @@
+import { useRef, useState } from 'react';
+import {
+  Button,
+  Empty,
+  Input,
+  Popconfirm,
+  Radio,
+  RadioGroup,
+  Select,
+  Tag,
+  Tooltip,
+  Typography,
+} from '@douyinfe/semi-ui';
+import {
+  IconBookmark,
+  IconCamera,
+  IconClose,
+  IconColumnsStroked,
+  IconDelete,
+  IconDownload,
+  IconEdit,
+  IconRefresh,
+  IconUndo,
+  IconUpload,
+} from '@douyinfe/semi-icons';
+import type { Snapshot, SnapshotLibrary } from '../../types';
+import { formatTimestamp } from '../../utils/format';
+import type { RollbackMode } from '../../utils/rollback';
+import './style.css';
+
+const RETENTION_OPTIONS = [
+  { value: 5, label: '保留最近 5 份未置顶' },
+  { value: 10, label: '保留最近 10 份未置顶' },
+  { value: 20, label: '保留最近 20 份未置顶' },
+  { value: 50, label: '保留最近 50 份未置顶' },
+  { value: -1, label: '不限数量' },
+];
+
+type SnapshotDrawerProps = {
+  library: SnapshotLibrary;
+  selectedSnapshot: Snapshot | null;
+  loading: boolean;
+  snapshotBusy: boolean;
+  rollbackBusy: boolean;
+  rollbackMode: RollbackMode;
+  onRollbackModeChange: (mode: RollbackMode) => void;
+  onClose: () => void;
+  onRefresh: () => void;
+  onCapture: () => void;
+  onRollback: () => void;
+  onSelect: (snapshotId: string) => void;
+  onRename: (snapshotId: string, label: string) => void;
+  onTogglePin: (snapshotId: string) => void;
+  onDelete: (snapshotId: string) => void;
+  onExport: (snapshotId: string) => void;
+  onCompare: (snapshotId: string) => void;
+  onImport: (file: File) => void;
+  onRetentionChange: (keepUnpinned: number | null) => void;
+};
+
+export default function SnapshotDrawer(props: SnapshotDrawerProps) {
+  const {
+    library,
+    selectedSnapshot,
+    loading,
+    snapshotBusy,
+    rollbackBusy,
+  } = props;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const commitRename = () => {
+    if (editingId && draftLabel.trim()) {
+      props.onRename(editingId, draftLabel.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <>
+      <div className="snapshot-overlay" onClick={props.onClose} />
+      <div className="snapshot-drawer">
+        <div className="snapshot-drawer-header">
+          <Typography.Title heading={5}>快照库</Typography.Title>
+          <Button
+            type="tertiary"
+            theme="borderless"
+            icon={<IconClose />}
+            onClick={props.onClose}
+            style={{ minWidth: 'auto', padding: '4px' }}
+          />
+        </div>
+        <div className="snapshot-drawer-content">
+          <div className="snapshot-card__meta">
+            <Typography.Text strong>
+              {selectedSnapshot
+                ? `回滚目标：${selectedSnapshot.label}`
+                : '尚未创建快照'}
+            </Typography.Text>
+            <Typography.Text type="tertiary">
+              {selectedSnapshot
+                ? `快照时间：${formatTimestamp(selectedSnapshot.timestamp)}`
+                : '删除前请务必保存一次结构快照'}
+            </Typography.Text>
+            {selectedSnapshot && (
+              <div style={{ marginTop: '8px' }}>
+                <Typography.Text type="tertiary" style={{ display: 'block', marginBottom: '8px' }}>
+                  📋 <strong>说明：</strong>
+                  {selectedSnapshot.recordBackup
+                    ? `本快照附带 ${selectedSnapshot.recordBackup.cellCount} 个单元格的记录备份（存于本机浏览器），回滚时会按记录 ID / 索引列写回。`
+                    : '本快照仅保存数据表和字段结构，不包含数据记录内容。'}
+                </Typography.Text>
+                <Typography.Text type="warning" style={{ display: 'block' }}>
+                  💡 <strong>温馨提示：</strong>
+                </Typography.Text>
+                <ul style={{ marginTop: '4px', marginBottom: 0, paddingLeft: '20px' }}>
+                  <li>如需恢复数据记录内容：进入「历史记录」→ 找到对应时间点记录 → 点击「还原此版本」，可恢复完整数据（包括记录内容）</li>
+                  <li>记录备份只保存在当前浏览器，换设备或清理缓存后需依赖「历史记录」</li>
+                </ul>
+              </div>
+            )}
+          </div>
+          <div className="snapshot-card__actions">
+            <Tooltip content="刷新当前的表与字段清单">
+              <Button
+                icon={<IconRefresh />}
+                onClick={props.onRefresh}
+                loading={loading}
+                block
+              >
+                刷新
+              </Button>
+            </Tooltip>
+            <Tooltip content="手动保存一份结构快照，心里更踏实">
+              <Button
+                icon={<IconCamera />}
+                theme="light"
+                onClick={props.onCapture}
+                loading={snapshotBusy}
+                block
+              >
+                记录快照
+              </Button>
+            </Tooltip>
+            <RadioGroup
+              type="button"
+              value={props.rollbackMode}
+              onChange={(event) =>
+                props.onRollbackModeChange(event.target.value as RollbackMode)
+              }
+            >
+              <Tooltip content="只补回缺失的字段，整表消失的才重建；已存在的字段保持不动">
+                <Radio value="inPlace">原位恢复</Radio>
+              </Tooltip>
+              <Tooltip content="每张快照表都另建一张 ♻️ 副本，原表不受影响">
+                <Radio value="duplicate">另建副本</Radio>
+              </Tooltip>
+            </RadioGroup>
+            <Tooltip content="回滚到下方选中的快照（尽力而为版）">
+              <Button
+                icon={<IconUndo />}
+                theme="light"
+                onClick={props.onRollback}
+                loading={rollbackBusy}
+                disabled={!selectedSnapshot || snapshotBusy}
+                block
+              >
+                快照回滚
+              </Button>
+            </Tooltip>
+            <Tooltip content="从导出的 JSON 文件恢复一份快照到快照库">
+              <Button
+                icon={<IconUpload />}
+                theme="light"
+                onClick={() => fileInputRef.current?.click()}
+                block
+              >
+                导入快照
+              </Button>
+            </Tooltip>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              style={{ display: 'none' }}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) {
+                  props.onImport(file);
+                }
+                event.target.value = '';
+              }}
+            />
+          </div>
+          <div className="snapshot-library__retention">
+            <Typography.Text type="tertiary">保留策略</Typography.Text>
+            <Select
+              size="small"
+              value={library.retention.keepUnpinned ?? -1}
+              optionList={RETENTION_OPTIONS}
+              onChange={(value) => {
+                if (typeof value === 'number') {
+                  props.onRetentionChange(value < 0 ? null : value);
+                }
+              }}
+              style={{ width: 200 }}
+            />
+          </div>
+          {library.snapshots.length === 0 ? (
+            <Empty description="快照库空空如也。" />
+          ) : (
+            <ul className="snapshot-library">
+              {library.snapshots.map((snap) => {
+                const isSelected = selectedSnapshot?.id === snap.id;
+                return (
+                  <li
+                    key={snap.id}
+                    className={`snapshot-library__item ${
+                      isSelected ? 'snapshot-library__item-selected' : ''
+                    }`}
+                    onClick={() => props.onSelect(snap.id)}
+                  >
+                    <div className="snapshot-library__title">
+                      {editingId === snap.id ? (
+                        <Input
+                          size="small"
+                          autoFocus
+                          value={draftLabel}
+                          onChange={(value) => setDraftLabel(value)}
+                          onBlur={commitRename}
+                          onEnterPress={commitRename}
+                          onClick={(e) => e.stopPropagation()}
+                        />
+                      ) : (
+                        <Typography.Text strong ellipsis={{ showTooltip: true }}>
+                          {snap.label}
+                        </Typography.Text>
+                      )}
+                      <Tag size="small" color={snap.kind === 'auto' ? 'orange' : 'blue'}>
+                        {snap.kind === 'auto' ? '自动' : '手动'}
+                      </Tag>
+                      {snap.pinned && (
+                        <Tag size="small" color="green">
+                          置顶
+                        </Tag>
+                      )}
+                    </div>
+                    <Typography.Text type="tertiary" size="small">
+                      {formatTimestamp(snap.timestamp)} · {snap.tableCount} 张表 ·{' '}
+                      {snap.fieldCount} 个字段
+                    </Typography.Text>
+                    <div
+                      className="snapshot-library__actions"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <Tooltip content={snap.pinned ? '取消置顶' : '置顶后不受保留策略清理'}>
+                        <Button
+                          size="small"
+                          theme="borderless"
+                          type={snap.pinned ? 'primary' : 'tertiary'}
+                          icon={<IconBookmark />}
+                          onClick={() => props.onTogglePin(snap.id)}
+                        />
+                      </Tooltip>
+                      <Tooltip content="与当前 Base 或其他快照对比结构">
+                        <Button
+                          size="small"
+                          theme="borderless"
+                          type="tertiary"
+                          icon={<IconColumnsStroked />}
+                          onClick={() => props.onCompare(snap.id)}
+                        />
+                      </Tooltip>
+                      <Tooltip content="导出为 JSON 文件">
+                        <Button
+                          size="small"
+                          theme="borderless"
+                          type="tertiary"
+                          icon={<IconDownload />}
+                          onClick={() => props.onExport(snap.id)}
+                        />
+                      </Tooltip>
+                      <Tooltip content="重命名">
+                        <Button
+                          size="small"
+                          theme="borderless"
+                          type="tertiary"
+                          icon={<IconEdit />}
+                          onClick={() => {
+                            setEditingId(snap.id);
+                            setDraftLabel(snap.label);
+                          }}
+                        />
+                      </Tooltip>
+                      <Popconfirm
+                        title="删除这份快照？"
+                        content="删除后无法再回滚到该快照。"
+                        onConfirm={() => props.onDelete(snap.id)}
+                      >
+                        <Button
+                          size="small"
+                          theme="borderless"
+                          type="danger"
+                          icon={<IconDelete />}
+                        />
+                      </Popconfirm>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,291 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Button,
+  Modal,
+  Popconfirm,
+  Select,
+  Spin,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+} from '@douyinfe/semi-ui';
+import { IconRestore } from '@douyinfe/semi-icons';
+import { IFieldMeta } from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../../types';
+import { getFieldTypeLabel } from '../../utils/fieldTypes';
+import {
+  ConversionChange,
+  ConversionSample,
+  ConvertibleFieldType,
+  CONVERTIBLE_FIELD_TYPES,
+  getConversionBlocker,
+  sampleConversion,
+  VALUE_OUTCOME_LABELS,
+} from '../../utils/typeConversion';
+import './style.css';
+
+export type TypeConversionGroup = {
+  bundle: TableBundle;
+  fields: IFieldMeta[];
+};
+
+type TypeConversionModalProps = {
+  groups: TypeConversionGroup[];
+  /** 受保护而被排除的字段数 */
+  lockedCount: number;
+  busy: boolean;
+  canUndo: boolean;
+  undoing: boolean;
+  onApply: (changes: ConversionChange[]) => void;
+  onUndo: () => void;
+  onClose: () => void;
+};
+
+type ConversionRow = {
+  key: string;
+  bundle: TableBundle;
+  field: IFieldMeta;
+  blocker: string | null;
+};
+
+const OUTCOME_COLORS = {
+  kept: 'green',
+  changed: 'orange',
+  lost: 'red',
+} as const;
+
+const sampleKey = (tableId: string, fieldId: string) => `${tableId}:${fieldId}`;
+
+export default function TypeConversionModal(props: TypeConversionModalProps) {
+  const { groups, busy } = props;
+  const [toType, setToType] = useState<ConvertibleFieldType | null>(null);
+  const [samples, setSamples] = useState<Record<string, ConversionSample>>(
+    {},
+  );
+  const [sampling, setSampling] = useState(false);
+  const [sampleError, setSampleError] = useState<string | null>(null);
+
+  const rows = useMemo<ConversionRow[]>(
+    () =>
+      groups.flatMap((group) =>
+        group.fields.map((field) => ({
+          key: sampleKey(group.bundle.meta.id, field.id),
+          bundle: group.bundle,
+          field,
+          blocker:
+            toType === null ? null : getConversionBlocker(field, toType),
+        })),
+      ),
+    [groups, toType],
+  );
+
+  // 换目标类型就重新抽样；只读每张表第一页
+  useEffect(() => {
+    setSamples({});
+    setSampleError(null);
+    if (toType === null) {
+      return undefined;
+    }
+    let cancelled = false;
+    setSampling(true);
+    (async () => {
+      try {
+        const next: Record<string, ConversionSample> = {};
+        for (const group of groups) {
+          const fields = group.fields.filter(
+            (field) => !getConversionBlocker(field, toType),
+          );
+          if (fields.length === 0) {
+            continue;
+          }
+          const result = await sampleConversion(
+            group.bundle.meta.id,
+            fields,
+            toType,
+          );
+          for (const [fieldId, sample] of Object.entries(result)) {
+            next[sampleKey(group.bundle.meta.id, fieldId)] = sample;
+          }
+        }
+        if (!cancelled) {
+          setSamples(next);
+        }
+      } catch (error) {
+        console.error(error);
+        if (!cancelled) {
+          setSampleError('抽样失败，预测不出来，但仍然可以转换。');
+        }
+      } finally {
+        if (!cancelled) {
+          setSampling(false);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [groups, toType]);
+
+  const changes: ConversionChange[] =
+    toType === null
+      ? []
+      : rows
+          .filter((row) => !row.blocker)
+          .map((row) => ({
+            tableId: row.bundle.meta.id,
+            tableName: row.bundle.meta.name || '无名表',
+            fieldId: row.field.id,
+            fieldName: row.field.name || '无名字段',
+            fromType: row.field.type,
+            toType,
+          }));
+  const lostCount = Object.values(samples).reduce(
+    (sum, sample) => sum + sample.counts.lost,
+    0,
+  );
+
+  const columns = [
+    {
+      title: '字段',
+      dataIndex: 'key',
+      render: (_: unknown, row: ConversionRow) => (
+        <Typography.Text ellipsis={{ showTooltip: true }}>
+          {row.bundle.meta.name || '无名表'} / {row.field.name || '无名字段'}
+        </Typography.Text>
+      ),
+    },
+    {
+      title: '当前类型',
+      dataIndex: 'type',
+      width: 110,
+      render: (_: unknown, row: ConversionRow) =>
+        getFieldTypeLabel(row.field.type),
+    },
+    {
+      title: '样本预测',
+      dataIndex: 'sample',
+      render: (_: unknown, row: ConversionRow) => {
+        if (row.blocker) {
+          return (
+            <Tag size="small" color="grey">
+              {row.blocker}
+            </Tag>
+          );
+        }
+        const sample = samples[row.key];
+        if (!sample) {
+          return sampling ? <Spin size="small" /> : '—';
+        }
+        if (sample.filled === 0) {
+          return (
+            <Typography.Text type="tertiary">
+              前 {sample.sampled} 条都是空的
+            </Typography.Text>
+          );
+        }
+        const tags = (['kept', 'changed', 'lost'] as const)
+          .filter((outcome) => sample.counts[outcome] > 0)
+          .map((outcome) => (
+            <Tag key={outcome} size="small" color={OUTCOME_COLORS[outcome]}>
+              {VALUE_OUTCOME_LABELS[outcome]} {sample.counts[outcome]}
+            </Tag>
+          ));
+        return sample.examples.length > 0 ? (
+          <Tooltip
+            content={
+              <ul className="type-conversion__examples">
+                {sample.examples.map((example, index) => (
+                  <li key={index}>
+                    {example.before} → {example.after || '（空）'}
+                  </li>
+                ))}
+              </ul>
+            }
+          >
+            <span className="type-conversion__tags">{tags}</span>
+          </Tooltip>
+        ) : (
+          <span className="type-conversion__tags">{tags}</span>
+        );
+      },
+    },
+  ];
+
+  return (
+    <Modal
+      visible
+      title="转换字段类型"
+      width={780}
+      zIndex={1100}
+      onCancel={props.onClose}
+      footer={
+        <div className="type-conversion__footer">
+          {props.canUndo && (
+            <Button
+              icon={<IconRestore />}
+              loading={props.undoing}
+              disabled={busy}
+              onClick={props.onUndo}
+            >
+              撤销上次转换
+            </Button>
+          )}
+          <Popconfirm
+            title={`转换 ${changes.length} 个字段？`}
+            content={
+              lostCount > 0
+                ? `样本里就有 ${lostCount} 个值会丢失。转换前会拍快照并备份字段值，可以撤销。`
+                : '转换前会拍快照并备份字段值，可以撤销。'
+            }
+            disabled={changes.length === 0}
+            onConfirm={() => props.onApply(changes)}
+          >
+            <Button
+              type={lostCount > 0 ? 'danger' : 'primary'}
+              theme="solid"
+              loading={busy}
+              disabled={changes.length === 0}
+            >
+              开始转换（{changes.length}）
+            </Button>
+          </Popconfirm>
+        </div>
+      }
+    >
+      <div className="type-conversion__head">
+        <Select
+          className="type-conversion__type"
+          placeholder="转换成…"
+          value={toType ?? undefined}
+          optionList={CONVERTIBLE_FIELD_TYPES.map((type) => ({
+            value: type,
+            label: getFieldTypeLabel(type),
+          }))}
+          onChange={(value) => setToType(value as ConvertibleFieldType)}
+        />
+        <Typography.Text type="tertiary">
+          按每张表前 200 条记录预估，实际以宿主转换结果为准。
+        </Typography.Text>
+      </div>
+      {props.lockedCount > 0 && (
+        <Typography.Text type="warning" className="type-conversion__hint">
+          {props.lockedCount} 个字段在保护名单里，已排除。
+        </Typography.Text>
+      )}
+      {sampleError && (
+        <Typography.Text type="danger" className="type-conversion__hint">
+          {sampleError}
+        </Typography.Text>
+      )}
+      <Table
+        className="type-conversion__table"
+        size="small"
+        rowKey="key"
+        columns={columns}
+        dataSource={rows}
+        pagination={false}
+      />
+    </Modal>
+  );
+}
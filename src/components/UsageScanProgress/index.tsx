@@ -0,0 +1,43 @@
+import { Button, Progress, Typography } from '@douyinfe/semi-ui';
+import type { UsageScanProgress as ScanProgress } from '../../utils/fieldUsage';
+import './style.css';
+
+type UsageScanProgressProps = {
+  progress: ScanProgress;
+  onCancel: () => void;
+};
+
+export default function UsageScanProgress(props: UsageScanProgressProps) {
+  const { progress } = props;
+  return (
+    <div className="usage-scan">
+      <div className="usage-scan__header">
+        <Typography.Text strong>
+          正在扫描字段用量（{progress.tableIndex + 1} / {progress.tableCount}{' '}
+          张表）
+        </Typography.Text>
+        <Button
+          size="small"
+          type="danger"
+          theme="light"
+          loading={progress.cancelling}
+          disabled={progress.cancelling}
+          onClick={props.onCancel}
+        >
+          {progress.cancelling ? '正在收尾…' : '停止扫描'}
+        </Button>
+      </div>
+      <Progress
+        percent={
+          progress.total > 0
+            ? Math.round((progress.done / progress.total) * 100)
+            : 0
+        }
+        showInfo
+      />
+      <Typography.Text type="tertiary" size="small">
+        「{progress.tableName}」：已读 {progress.done} / {progress.total} 条记录
+      </Typography.Text>
+    </div>
+  );
+}
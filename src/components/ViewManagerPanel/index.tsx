@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Empty,
+  Input,
+  Modal,
+  Popconfirm,
+  Select,
+  Tag,
+  Typography,
+} from '@douyinfe/semi-ui';
+import { IconLock } from '@douyinfe/semi-icons';
+import { ViewType } from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../../types';
+import {
+  describeViewSettings,
+  getViewTypeLabel,
+  matchViewName,
+  ViewTarget,
+  viewKey,
+} from '../../utils/views';
+import './style.css';
+
+type ViewManagerPanelProps = {
+  bundles: TableBundle[];
+  /** 受保护的表里的视图只展示，不能勾选 */
+  isTableLocked: (bundle: TableBundle) => boolean;
+  busy: boolean;
+  onDelete: (targets: ViewTarget[]) => void;
+  onClose: () => void;
+};
+
+const ALL_TYPES = 'all';
+
+export default function ViewManagerPanel(props: ViewManagerPanelProps) {
+  const { bundles, isTableLocked, busy } = props;
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [pattern, setPattern] = useState('');
+  const [typeFilter, setTypeFilter] = useState<ViewType | typeof ALL_TYPES>(
+    ALL_TYPES,
+  );
+
+  const candidates = useMemo<ViewTarget[]>(
+    () =>
+      bundles.flatMap((bundle) =>
+        isTableLocked(bundle)
+          ? []
+          : bundle.views.map((view) => ({ bundle, view })),
+      ),
+    [bundles, isTableLocked],
+  );
+  const targets = candidates.filter(
+    ({ bundle, view }) => selected[viewKey(bundle.meta.id, view.id)],
+  );
+  const typeOptions = useMemo(
+    () => [
+      { value: ALL_TYPES, label: '全部类型' },
+      ...Array.from(
+        new Set(bundles.flatMap((bundle) => bundle.views.map((v) => v.type))),
+      ).map((type) => ({ value: type, label: getViewTypeLabel(type) })),
+    ],
+    [bundles],
+  );
+
+  const toggle = (key: string, checked: boolean) =>
+    setSelected((prev) => ({ ...prev, [key]: checked }));
+
+  // 跨表按名称批量勾选，叠加在已有选择上
+  const selectByPattern = () => {
+    const matched = candidates.filter(
+      ({ view }) =>
+        matchViewName(view.name, pattern) &&
+        (typeFilter === ALL_TYPES || view.type === typeFilter),
+    );
+    setSelected((prev) => {
+      const next = { ...prev };
+      for (const { bundle, view } of matched) {
+        next[viewKey(bundle.meta.id, view.id)] = true;
+      }
+      return next;
+    });
+  };
+
+  const tablesLosingAll = bundles.filter(
+    (bundle) =>
+      bundle.views.length > 0 &&
+      bundle.views.every((view) => selected[viewKey(bundle.meta.id, view.id)]),
+  ).length;
+
+  return (
+    <Modal
+      visible
+      title="视图管理"
+      width={820}
+      zIndex={1100}
+      onCancel={props.onClose}
+      footer={
+        <div className="view-manager__footer">
+          <Typography.Text type="tertiary">
+            已选 {targets.length} 个视图
+          </Typography.Text>
+          <Button
+            disabled={targets.length === 0}
+            onClick={() => setSelected({})}
+          >
+            清空选择
+          </Button>
+          <Popconfirm
+            title={`删除 ${targets.length} 个视图？`}
+            content={
+              tablesLosingAll > 0
+                ? `有 ${tablesLosingAll} 张表的视图全选了，每张会留下一个。删除前会拍快照记下视图配置，回滚时重建。`
+                : '删除前会拍快照记下视图配置，回滚时重建。'
+            }
+            disabled={targets.length === 0}
+            onConfirm={() => props.onDelete(targets)}
+          >
+            <Button
+              type="danger"
+              theme="solid"
+              loading={busy}
+              disabled={targets.length === 0}
+            >
+              删除视图（{targets.length}）
+            </Button>
+          </Popconfirm>
+        </div>
+      }
+    >
+      <div className="view-manager__head">
+        <Input
+          className="view-manager__pattern"
+          placeholder="视图名，支持 * 通配，例如 临时*"
+          value={pattern}
+          onChange={setPattern}
+          onEnterPress={selectByPattern}
+        />
+        <Select
+          className="view-manager__type"
+          value={typeFilter}
+          optionList={typeOptions}
+          onChange={(value) => setTypeFilter(value as ViewType)}
+        />
+        <Button disabled={!pattern.trim()} onClick={selectByPattern}>
+          按名称选中
+        </Button>
+      </div>
+      <div className="view-manager__list">
+        {bundles.length === 0 && <Empty description="还没有数据表" />}
+        {bundles.map((bundle) => {
+          const locked = isTableLocked(bundle);
+          const views = bundle.views.filter(
+            (view) => typeFilter === ALL_TYPES || view.type === typeFilter,
+          );
+          if (views.length === 0) {
+            return null;
+          }
+          return (
+            <section key={bundle.meta.id} className="view-manager__table">
+              <Typography.Text strong>
+                {bundle.meta.name || '无名表'}
+                {locked && (
+                  <Tag
+                    size="small"
+                    color="amber"
+                    prefixIcon={<IconLock />}
+                    className="view-manager__lock"
+                  >
+                    受保护
+                  </Tag>
+                )}
+              </Typography.Text>
+              {views.map((view) => {
+                const key = viewKey(bundle.meta.id, view.id);
+                const summary = describeViewSettings(view, bundle.fields);
+                const details = [
+                  summary.filter && `筛选 ${summary.filter}`,
+                  summary.sort && `排序 ${summary.sort}`,
+                  summary.group && `分组 ${summary.group}`,
+                ].filter(Boolean);
+                return (
+                  <div key={key} className="view-manager__row">
+                    <Checkbox
+                      checked={!!selected[key]}
+                      disabled={locked}
+                      onChange={(event) => toggle(key, !!event.target.checked)}
+                    >
+                      {view.name || '无名视图'}
+                    </Checkbox>
+                    <Tag size="small" color="blue">
+                      {getViewTypeLabel(view.type)}
+                    </Tag>
+                    <Typography.Text
+                      type="tertiary"
+                      size="small"
+                      ellipsis={{ showTooltip: true }}
+                      className="view-manager__details"
+                    >
+                      {details.length > 0 ? details.join('；') : '无筛选排序'}
+                    </Typography.Text>
+                  </div>
+                );
+              })}
+            </section>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,91 @@
+import type {
+  FieldType,
+  IFieldMeta,
+  ITableMeta,
+  IViewMeta,
+  ViewType,
+} from '@lark-base-open/js-sdk';
+
+export type TableBundle = {
+  meta: ITableMeta;
+  fields: IFieldMeta[];
+  /** 视图元数据，property 里带筛选 / 排序 / 分组（视图类型支持时） */
+  views: IViewMeta[];
+};
+
+export type SnapshotField = {
+  id: string;
+  name: string;
+  type: FieldType;
+  isPrimary?: boolean;
+  property?: unknown;
+};
+
+export type SnapshotTable = {
+  tableId: string;
+  tableName: string;
+  fields: SnapshotField[];
+};
+
+/** auto：删除前自动拍下；manual：用户手动记录 */
+export type SnapshotKind = 'auto' | 'manual';
+
+/**
+ * 不删字段时的备份用途：deletedRecords 只含按条件删掉的记录，恢复时整条追加回去；
+ * clearedValues / convertedValues 是清空或转换类型前的字段值，恢复时按记录 ID 原位写回。
+ */
+export type RecordBackupPurpose =
+  | 'deletedRecords'
+  | 'clearedValues'
+  | 'convertedValues';
+
+export type RecordBackupTable = {
+  tableId: string;
+  wholeTable: boolean;
+  fieldIds: string[];
+  recordCount: number;
+  purpose?: RecordBackupPurpose;
+};
+
+/** 删除视图前记下的配置，回滚时按它重建视图 */
+export type SnapshotView = {
+  id: string;
+  tableId: string;
+  tableName: string;
+  name: string;
+  type: ViewType;
+  property?: unknown;
+  /** 删除时可见的字段，读不到时为空 */
+  visibleFieldIds?: string[];
+};
+
+/** 记录值本体存放在 IndexedDB，这里只保留摘要 */
+export type RecordBackupSummary = {
+  capturedAt: string;
+  cellCount: number;
+  tables: RecordBackupTable[];
+};
+
+export type Snapshot = {
+  id: string;
+  kind: SnapshotKind;
+  label: string;
+  timestamp: string;
+  pinned: boolean;
+  tableCount: number;
+  fieldCount: number;
+  tables: SnapshotTable[];
+  recordBackup?: RecordBackupSummary;
+  views?: SnapshotView[];
+};
+
+export type SnapshotRetention = {
+  /** 最多保留的未置顶快照数量，null 表示不限 */
+  keepUnpinned: number | null;
+};
+
+export type SnapshotLibrary = {
+  version: 2;
+  snapshots: Snapshot[];
+  retention: SnapshotRetention;
+};
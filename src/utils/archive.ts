@@ -0,0 +1,373 @@
+import {
+  bitable,
+  FieldType,
+  IAddFieldConfig,
+  IFieldMeta,
+  IOpenCellValue,
+  IOpenSegmentType,
+  IOpenTextSegment,
+  IRecordValue,
+  ITable,
+} from '@lark-base-open/js-sdk';
+import type { DeletionPlan } from './deletionPlan';
+import { getPlanOperations } from './deletionPlan';
+import { formatTimestamp } from './format';
+import {
+  adaptCellValue,
+  BackupProgress,
+  cellToText,
+  forEachRecordPage,
+  RECORD_CHUNK_SIZE,
+} from './recordBackup';
+
+export const DEFAULT_ARCHIVE_TABLE_NAME = 'BulkDel Archive';
+export const TABLE_ARCHIVE_PREFIX = '归档 · ';
+
+/** 字段归档到新建或已有的表；整表删除时每张源表各自归档到一张新表 */
+export type ArchiveTarget =
+  | { mode: 'new'; name: string }
+  | { mode: 'existing'; tableId: string };
+
+/** 一张源表的归档核对结果，keys 是对应的删除计划条目 */
+export type ArchiveCheck = {
+  keys: string[];
+  sourceName: string;
+  archiveName: string;
+  expected: number;
+  copied: number;
+  error?: string;
+};
+
+/** 归档表固定带的几列，第一列是索引列 */
+const META_COLUMNS = {
+  recordId: '源记录 ID',
+  table: '源表',
+  primary: '源索引列',
+  batch: '归档批次',
+  time: '归档时间',
+};
+
+type CopyableFieldType =
+  | FieldType.Text
+  | FieldType.Number
+  | FieldType.SingleSelect
+  | FieldType.MultiSelect
+  | FieldType.DateTime
+  | FieldType.Checkbox
+  | FieldType.Phone
+  | FieldType.Url
+  | FieldType.Barcode
+  | FieldType.Progress
+  | FieldType.Currency
+  | FieldType.Rating
+  | FieldType.Email;
+
+/** 这些类型的值可以原样写进同类型的新列，其余一律转成文本 */
+const COPYABLE_FIELD_TYPES = new Set<FieldType>([
+  FieldType.Text,
+  FieldType.Number,
+  FieldType.SingleSelect,
+  FieldType.MultiSelect,
+  FieldType.DateTime,
+  FieldType.Checkbox,
+  FieldType.Phone,
+  FieldType.Url,
+  FieldType.Barcode,
+  FieldType.Progress,
+  FieldType.Currency,
+  FieldType.Rating,
+  FieldType.Email,
+]);
+
+type ColumnSpec = IAddFieldConfig & { name: string };
+
+const isCopyableField = (
+  field: IFieldMeta,
+): field is Extract<IFieldMeta, { type: CopyableFieldType }> =>
+  COPYABLE_FIELD_TYPES.has(field.type);
+
+const text = (value: string): IOpenTextSegment[] => [
+  { type: IOpenSegmentType.Text, text: value },
+];
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error ?? '未知错误');
+
+export const isArchiveSuccessful = (check: ArchiveCheck) =>
+  !check.error && check.copied === check.expected;
+
+const pickFreeName = (preferred: string, taken: Set<string>) => {
+  let name = preferred;
+  let suffix = 1;
+  while (taken.has(name)) {
+    name = `${preferred} (${suffix})`;
+    suffix += 1;
+  }
+  taken.add(name);
+  return name;
+};
+
+const metaColumnSpecs = (): ColumnSpec[] =>
+  Object.values(META_COLUMNS).map((name) => ({ name, type: FieldType.Text }));
+
+const fieldColumnSpec = (field: IFieldMeta, name: string): ColumnSpec => {
+  if (!isCopyableField(field)) {
+    return { name, type: FieldType.Text };
+  }
+  // 只带上类型和属性，字段 ID、索引列标记这些 meta 不属于新建配置
+  const { id, isPrimary, description, exInfo, ...config } = field;
+  return { ...config, name };
+};
+
+/** 按列名补齐缺失的列，已有同名列不动；返回列名到字段元数据的映射 */
+const ensureColumns = async (table: ITable, specs: ColumnSpec[]) => {
+  const existing = new Set(
+    (await table.getFieldMetaList()).map((field) => field.name),
+  );
+  for (const spec of specs) {
+    if (!existing.has(spec.name)) {
+      await table.addField(spec);
+      existing.add(spec.name);
+    }
+  }
+  return new Map(
+    (await table.getFieldMetaList()).map((field) => [field.name, field]),
+  );
+};
+
+const createArchiveTable = async (name: string, specs: ColumnSpec[]) => {
+  const { tableId } = await bitable.base.addTable({
+    name,
+    fields: specs,
+  });
+  return bitable.base.getTableById(tableId);
+};
+
+/** 同类型列写原值（选项按名称对应），文本列写纯文本，其余类型不匹配的列跳过 */
+const toArchiveValue = (
+  value: IOpenCellValue | undefined,
+  source: IFieldMeta,
+  column: IFieldMeta,
+) => {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (column.type === source.type && COPYABLE_FIELD_TYPES.has(source.type)) {
+    return adaptCellValue(value, column);
+  }
+  if (column.type === FieldType.Text) {
+    const plain = cellToText(value);
+    return plain ? text(plain) : undefined;
+  }
+  return undefined;
+};
+
+/** 把源表的记录连同记录 ID、索引列文本追加进归档表，返回源表记录数 */
+const copyRecords = async (
+  source: ITable,
+  sourceName: string,
+  fields: { meta: IFieldMeta; column: string }[],
+  target: ITable,
+  columns: Map<string, IFieldMeta>,
+  batchId: string,
+  onProgress?: (progress: BackupProgress) => void,
+) => {
+  const primary = (await source.getFieldMetaList()).find(
+    (field) => field.isPrimary,
+  );
+  const column = (name: string) => columns.get(name)?.id ?? '';
+  const archivedAt = formatTimestamp(new Date().toISOString());
+  let total = 0;
+  let copied = 0;
+  await forEachRecordPage(source, async (records, pageTotal) => {
+    total = pageTotal;
+    const rows = records.map((record): IRecordValue => {
+      const row: IRecordValue['fields'] = {
+        [column(META_COLUMNS.recordId)]: text(record.recordId),
+        [column(META_COLUMNS.table)]: text(sourceName),
+        [column(META_COLUMNS.batch)]: text(batchId),
+        [column(META_COLUMNS.time)]: text(archivedAt),
+      };
+      if (primary) {
+        row[column(META_COLUMNS.primary)] = text(
+          cellToText(record.fields[primary.id]),
+        );
+      }
+      for (const field of fields) {
+        const columnMeta = columns.get(field.column);
+        const value = columnMeta
+          ? toArchiveValue(record.fields[field.meta.id], field.meta, columnMeta)
+          : undefined;
+        if (columnMeta && value !== undefined) {
+          row[columnMeta.id] = value;
+        }
+      }
+      return { fields: row };
+    });
+    for (let start = 0; start < rows.length; start += RECORD_CHUNK_SIZE) {
+      await target.addRecords(rows.slice(start, start + RECORD_CHUNK_SIZE));
+    }
+    copied += records.length;
+    onProgress?.({ label: sourceName, done: copied, total });
+  });
+  // 按源表报的总数核对，翻页中途断了也看得出来
+  return total;
+};
+
+/** 重新读一遍归档表，按批次数出真正落进去的记录数 */
+const countBatches = async (target: ITable) => {
+  const batchField = (await target.getFieldMetaList()).find(
+    (field) => field.name === META_COLUMNS.batch,
+  );
+  const counts = new Map<string, number>();
+  if (!batchField) {
+    return counts;
+  }
+  await forEachRecordPage(target, (records) => {
+    for (const record of records) {
+      const batch = cellToText(record.fields[batchField.id]);
+      counts.set(batch, (counts.get(batch) ?? 0) + 1);
+    }
+  });
+  return counts;
+};
+
+/**
+ * 按删除计划归档：字段按源表分批写进同一张归档表，整表各自新建一张归档表。
+ * 写完重新数一遍归档表里每批的记录数，与源表记录数一致才算归档成功。
+ */
+export const archivePlan = async (
+  plan: DeletionPlan,
+  target: ArchiveTarget,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<ArchiveCheck[]> => {
+  const operations = getPlanOperations(plan);
+  const runId = `archive_${Date.now().toString(36)}`;
+  const takenNames = new Set(
+    (await bitable.base.getTableMetaList()).map((meta) => meta.name),
+  );
+  const checks: ArchiveCheck[] = [];
+
+  for (const item of operations.tables) {
+    const archiveName = pickFreeName(
+      `${TABLE_ARCHIVE_PREFIX}${item.tableName}`,
+      takenNames,
+    );
+    const check: ArchiveCheck = {
+      keys: [item.key],
+      sourceName: item.tableName,
+      archiveName,
+      expected: 0,
+      copied: 0,
+    };
+    try {
+      const source = await bitable.base.getTableById(item.tableId);
+      const metaNames = new Set(Object.values(META_COLUMNS));
+      const fields = (await source.getFieldMetaList()).map((meta) => ({
+        meta,
+        column: pickFreeName(meta.name, metaNames),
+      }));
+      const archive = await createArchiveTable(archiveName, [
+        ...metaColumnSpecs(),
+        ...fields.map((field) => fieldColumnSpec(field.meta, field.column)),
+      ]);
+      const columns = new Map(
+        (await archive.getFieldMetaList()).map((field) => [field.name, field]),
+      );
+      const batchId = `${runId}:${item.tableId}`;
+      check.expected = await copyRecords(
+        source,
+        item.tableName,
+        fields,
+        archive,
+        columns,
+        batchId,
+        onProgress,
+      );
+      check.copied = (await countBatches(archive)).get(batchId) ?? 0;
+    } catch (error) {
+      console.error('整表归档失败', item.tableName, error);
+      check.error = errorMessage(error);
+    }
+    checks.push(check);
+  }
+
+  if (operations.fieldsByTable.length === 0) {
+    return checks;
+  }
+  let archive: ITable | null = null;
+  let archiveName = '';
+  try {
+    if (target.mode === 'existing') {
+      archive = await bitable.base.getTableById(target.tableId);
+      archiveName = await archive.getName();
+    } else {
+      archiveName = pickFreeName(
+        target.name.trim() || DEFAULT_ARCHIVE_TABLE_NAME,
+        takenNames,
+      );
+      archive = await createArchiveTable(archiveName, metaColumnSpecs());
+    }
+  } catch (error) {
+    console.error('准备归档表失败', error);
+    return [
+      ...checks,
+      ...operations.fieldsByTable.map((group) => ({
+        keys: group.fields.map((field) => field.key),
+        sourceName: group.tableName,
+        archiveName: archiveName || DEFAULT_ARCHIVE_TABLE_NAME,
+        expected: 0,
+        copied: 0,
+        error: errorMessage(error),
+      })),
+    ];
+  }
+
+  const fieldChecks: { check: ArchiveCheck; batchId: string }[] = [];
+  for (const group of operations.fieldsByTable) {
+    const check: ArchiveCheck = {
+      keys: group.fields.map((field) => field.key),
+      sourceName: group.tableName,
+      archiveName,
+      expected: 0,
+      copied: 0,
+    };
+    const batchId = `${runId}:${group.tableId}`;
+    fieldChecks.push({ check, batchId });
+    try {
+      const source = await bitable.base.getTableById(group.tableId);
+      const metaList = await source.getFieldMetaList();
+      const fields = metaList
+        .filter((meta) => group.fieldIds.includes(meta.id))
+        .map((meta) => ({ meta, column: `${group.tableName} · ${meta.name}` }));
+      const columns = await ensureColumns(archive, [
+        ...metaColumnSpecs(),
+        ...fields.map((field) => fieldColumnSpec(field.meta, field.column)),
+      ]);
+      check.expected = await copyRecords(
+        source,
+        group.tableName,
+        fields,
+        archive,
+        columns,
+        batchId,
+        onProgress,
+      );
+    } catch (error) {
+      console.error('字段归档失败', group.tableName, error);
+      check.error = errorMessage(error);
+    }
+  }
+  try {
+    const counts = await countBatches(archive);
+    for (const { check, batchId } of fieldChecks) {
+      check.copied = counts.get(batchId) ?? 0;
+    }
+  } catch (error) {
+    console.error('核对归档记录数失败', error);
+    for (const { check } of fieldChecks) {
+      check.error = check.error ?? errorMessage(error);
+    }
+  }
+  return [...checks, ...fieldChecks.map(({ check }) => check)];
+};
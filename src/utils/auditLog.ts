@@ -0,0 +1,316 @@
+import {
+  bitable,
+  FieldType,
+  IAddFieldConfig,
+  IOpenCellValue,
+  IOpenSegmentType,
+  IOpenTextSegment,
+  IRecordValue,
+  ITable,
+} from '@lark-base-open/js-sdk';
+import { formatTimestamp } from './format';
+import {
+  countReport,
+  OperationReport,
+  REPORT_OPERATION_LABELS,
+} from './operationReport';
+import { RECORD_CHUNK_SIZE } from './recordBackup';
+
+export const LOCAL_STORAGE_AUDIT_KEY = 'boom-table-shredder-audit-log';
+export const BRIDGE_AUDIT_KEY = 'boom.table-shredder.audit-log.v1';
+export const AUDIT_TABLE_NAME = 'BulkDel Audit';
+
+/** 日志只增不删，超过上限时丢最旧的，免得 bridge 数据无限膨胀 */
+const MAX_AUDIT_ENTRIES = 500;
+/** 单条日志最多记录的目标数，其余折叠成“…等 N 项” */
+const MAX_AUDIT_TARGETS = 200;
+
+export type AuditAction =
+  | 'snapshot'
+  | 'delete'
+  | 'rollback'
+  | 'quarantine'
+  | 'rename'
+  | 'convert';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  snapshot: '快照',
+  delete: '删除',
+  rollback: '回滚',
+  quarantine: '隔离',
+  rename: '改名',
+  convert: '转换类型',
+};
+
+export type AuditCounts = {
+  success: number;
+  skipped: number;
+  failed: number;
+};
+
+export type AuditEntry = {
+  id: string;
+  action: AuditAction;
+  at: string;
+  /** bridge.getUserId() 返回的操作人，取不到时为 null */
+  userId: string | null;
+  /** 快照名称、报告标题等补充说明 */
+  detail: string;
+  targets: string[];
+  counts: AuditCounts;
+  /** 已写入 BulkDel Audit 表的时间 */
+  syncedAt?: string;
+};
+
+export type AuditLog = {
+  version: 1;
+  entries: AuditEntry[];
+};
+
+export const createEmptyAuditLog = (): AuditLog => ({
+  version: 1,
+  entries: [],
+});
+
+export const getActingUserId = async (): Promise<string | null> => {
+  try {
+    return (await bitable.bridge.getUserId()) || null;
+  } catch (error) {
+    console.warn('获取当前用户失败', error);
+    return null;
+  }
+};
+
+export const createAuditEntry = (
+  action: AuditAction,
+  userId: string | null,
+  detail: string,
+  targets: string[],
+  counts: AuditCounts,
+): AuditEntry => ({
+  id: `audit_${Date.now().toString(36)}_${Math.random()
+    .toString(36)
+    .slice(2, 8)}`,
+  action,
+  at: new Date().toISOString(),
+  userId,
+  detail,
+  targets:
+    targets.length > MAX_AUDIT_TARGETS
+      ? [
+          ...targets.slice(0, MAX_AUDIT_TARGETS),
+          `…等 ${targets.length - MAX_AUDIT_TARGETS} 项`,
+        ]
+      : targets,
+  counts,
+});
+
+/** 结果报告转成一条日志，目标写成“操作 表 / 字段”便于事后检索 */
+export const createReportAuditEntry = (
+  report: OperationReport,
+  userId: string | null,
+): AuditEntry =>
+  createAuditEntry(
+    report.kind === 'rollback' ? 'rollback' : report.kind,
+    userId,
+    report.title,
+    report.items.map(
+      (item) =>
+        `${REPORT_OPERATION_LABELS[item.operation]} ${item.tableName}${
+          item.fieldName ? ` / ${item.fieldName}` : ''
+        }`,
+    ),
+    countReport(report),
+  );
+
+/** 新日志排在最前 */
+export const appendAuditEntry = (
+  log: AuditLog,
+  entry: AuditEntry,
+): AuditLog => ({
+  ...log,
+  entries: [entry, ...log.entries].slice(0, MAX_AUDIT_ENTRIES),
+});
+
+export const markAuditEntriesSynced = (
+  log: AuditLog,
+  ids: Set<string>,
+  syncedAt: string,
+): AuditLog => ({
+  ...log,
+  entries: log.entries.map((entry) =>
+    ids.has(entry.id) ? { ...entry, syncedAt } : entry,
+  ),
+});
+
+const normalizeAuditLog = (raw: unknown): AuditLog | null => {
+  const value = raw as Partial<AuditLog> | null;
+  if (!value || value.version !== 1 || !Array.isArray(value.entries)) {
+    return null;
+  }
+  return {
+    version: 1,
+    entries: value.entries.filter(
+      (entry): entry is AuditEntry =>
+        !!entry &&
+        typeof entry.id === 'string' &&
+        typeof entry.at === 'string' &&
+        Array.isArray(entry.targets),
+    ),
+  };
+};
+
+export const loadPersistedAuditLog = async (): Promise<AuditLog | null> => {
+  const bridge = bitable?.bridge as any;
+  if (bridge && typeof bridge.getData === 'function') {
+    try {
+      const stored = normalizeAuditLog(
+        await bridge.getData?.(BRIDGE_AUDIT_KEY),
+      );
+      // bridge 里没有日志也照实返回，本地缓存是各个 Base 共用的，不能拿来顶替
+      return stored;
+    } catch (error) {
+      console.warn('读取 bridge 审计日志失败', error);
+    }
+  }
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const raw = window.localStorage.getItem(LOCAL_STORAGE_AUDIT_KEY);
+    return raw ? normalizeAuditLog(JSON.parse(raw)) : null;
+  } catch (error) {
+    console.error('读取审计日志缓存失败', error);
+    return null;
+  }
+};
+
+export const persistAuditLog = async (log: AuditLog) => {
+  if (typeof window !== 'undefined') {
+    try {
+      window.localStorage.setItem(
+        LOCAL_STORAGE_AUDIT_KEY,
+        JSON.stringify(log),
+      );
+    } catch (error) {
+      console.error('写入审计日志缓存失败', error);
+    }
+  }
+  const bridge = bitable?.bridge as any;
+  if (!bridge || typeof bridge.setData !== 'function') {
+    return;
+  }
+  try {
+    await bridge.setData?.(BRIDGE_AUDIT_KEY, log);
+  } catch (error) {
+    console.warn('写入 bridge 审计日志失败', error);
+  }
+};
+
+type AuditColumn = {
+  name: string;
+  type: FieldType.Text | FieldType.Number;
+  value: (entry: AuditEntry) => IOpenCellValue;
+};
+
+const text = (value: string): IOpenTextSegment[] => [
+  { type: IOpenSegmentType.Text, text: value },
+];
+
+const columnConfig = ({ name, type }: AuditColumn): IAddFieldConfig => ({
+  name,
+  type,
+});
+
+/** 第一列是索引列，用时间方便按时间排序查看 */
+const AUDIT_COLUMNS: AuditColumn[] = [
+  {
+    name: '时间',
+    type: FieldType.Text,
+    value: (entry) => text(formatTimestamp(entry.at)),
+  },
+  {
+    name: '操作',
+    type: FieldType.Text,
+    value: (entry) => text(AUDIT_ACTION_LABELS[entry.action]),
+  },
+  {
+    name: '操作人',
+    type: FieldType.Text,
+    value: (entry) => text(entry.userId ?? '未知'),
+  },
+  {
+    name: '说明',
+    type: FieldType.Text,
+    value: (entry) => text(entry.detail),
+  },
+  {
+    name: '目标',
+    type: FieldType.Text,
+    value: (entry) => text(entry.targets.join('\n')),
+  },
+  {
+    name: '成功',
+    type: FieldType.Number,
+    value: (entry) => entry.counts.success,
+  },
+  {
+    name: '跳过',
+    type: FieldType.Number,
+    value: (entry) => entry.counts.skipped,
+  },
+  {
+    name: '失败',
+    type: FieldType.Number,
+    value: (entry) => entry.counts.failed,
+  },
+  {
+    name: '日志 ID',
+    type: FieldType.Text,
+    value: (entry) => text(entry.id),
+  },
+];
+
+/** 找到或新建 BulkDel Audit 表，并补齐缺失的列 */
+const ensureAuditTable = async (): Promise<ITable> => {
+  const metaList = await bitable.base.getTableMetaList();
+  const existing = metaList.find((meta) => meta.name === AUDIT_TABLE_NAME);
+  if (!existing) {
+    const { tableId } = await bitable.base.addTable({
+      name: AUDIT_TABLE_NAME,
+      fields: AUDIT_COLUMNS.map(columnConfig),
+    });
+    return bitable.base.getTableById(tableId);
+  }
+  const table = await bitable.base.getTableById(existing.id);
+  const fieldNames = new Set(
+    (await table.getFieldMetaList()).map((field) => field.name),
+  );
+  for (const column of AUDIT_COLUMNS) {
+    if (!fieldNames.has(column.name)) {
+      await table.addField(columnConfig(column));
+    }
+  }
+  return table;
+};
+
+/** 把日志追加写入同一 Base 的 BulkDel Audit 表，历史随数据一起留存 */
+export const appendAuditEntriesToTable = async (entries: AuditEntry[]) => {
+  const table = await ensureAuditTable();
+  const fieldIdByName = new Map(
+    (await table.getFieldMetaList()).map((field) => [field.name, field.id]),
+  );
+  const records = entries.map((entry): IRecordValue => {
+    const fields: IRecordValue['fields'] = {};
+    for (const column of AUDIT_COLUMNS) {
+      const fieldId = fieldIdByName.get(column.name);
+      if (fieldId) {
+        fields[fieldId] = column.value(entry);
+      }
+    }
+    return { fields };
+  });
+  for (let start = 0; start < records.length; start += RECORD_CHUNK_SIZE) {
+    await table.addRecords(records.slice(start, start + RECORD_CHUNK_SIZE));
+  }
+};
@@ -0,0 +1,319 @@
+import { bitable } from '@lark-base-open/js-sdk';
+import type { Snapshot, TableBundle } from '../types';
+import type { ReportItem } from './operationReport';
+
+export type RenameMatchMode = 'plain' | 'regex';
+
+export type RenameCaseChange = 'none' | 'upper' | 'lower' | 'title';
+
+export const RENAME_CASE_LABELS: Record<RenameCaseChange, string> = {
+  none: '保持原样',
+  upper: '全部大写',
+  lower: '全部小写',
+  title: '单词首字母大写',
+};
+
+/** 依次执行：查找替换 → 大小写 → 模板 */
+export type RenameRule = {
+  mode: RenameMatchMode;
+  find: string;
+  /** 正则模式下可以用 $1、$2 引用捕获组 */
+  replace: string;
+  caseSensitive: boolean;
+  caseChange: RenameCaseChange;
+  /** 支持 {name}（前两步的结果）与 {table}（所在表名） */
+  template: string;
+};
+
+export type RenameTarget = {
+  kind: 'table' | 'field';
+  tableId: string;
+  tableName: string;
+  fieldId?: string;
+  name: string;
+};
+
+export type RenamePreviewItem = RenameTarget & {
+  key: string;
+  nextName: string;
+  changed: boolean;
+  /** 新名字为空或与同表其他字段 / 其他表重名时的说明 */
+  conflict: string | null;
+};
+
+/** 一次实际执行的改名，撤销时反过来再走一遍 */
+export type RenameChange = {
+  kind: 'table' | 'field';
+  tableId: string;
+  tableName: string;
+  fieldId?: string;
+  from: string;
+  to: string;
+};
+
+export const DEFAULT_RENAME_TEMPLATE = '{name}';
+
+export const createDefaultRenameRule = (): RenameRule => ({
+  mode: 'plain',
+  find: '',
+  replace: '',
+  caseSensitive: false,
+  caseChange: 'none',
+  template: DEFAULT_RENAME_TEMPLATE,
+});
+
+const escapeRegExp = (input: string) =>
+  input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildPattern = (rule: RenameRule) =>
+  new RegExp(
+    rule.mode === 'regex' ? rule.find : escapeRegExp(rule.find),
+    rule.caseSensitive ? 'g' : 'gi',
+  );
+
+/** 返回错误说明，规则可用时为 null */
+export const validateRenameRule = (rule: RenameRule): string | null => {
+  if (rule.mode === 'regex' && rule.find) {
+    try {
+      buildPattern(rule);
+    } catch (error) {
+      return `正则写得不对：${
+        error instanceof Error ? error.message : String(error)
+      }`;
+    }
+  }
+  if (!rule.template.includes('{name}') && !rule.template.includes('{table}')) {
+    return '模板里至少要有 {name} 或 {table}，不然所有名字都一样';
+  }
+  return null;
+};
+
+const changeCase = (input: string, caseChange: RenameCaseChange) => {
+  switch (caseChange) {
+    case 'upper':
+      return input.toUpperCase();
+    case 'lower':
+      return input.toLowerCase();
+    case 'title':
+      return input.replace(
+        /[A-Za-z][A-Za-z0-9]*/g,
+        (word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase(),
+      );
+    default:
+      return input;
+  }
+};
+
+export const applyRenameRule = (target: RenameTarget, rule: RenameRule) => {
+  let name = target.name;
+  if (rule.find) {
+    // 正则模式下替换串里的 $1 交给 replace 解析；纯文本模式下原样替换
+    const pattern = buildPattern(rule);
+    name =
+      rule.mode === 'regex'
+        ? name.replace(pattern, rule.replace)
+        : name.replace(pattern, () => rule.replace);
+  }
+  name = changeCase(name, rule.caseChange);
+  return rule.template
+    .replace(/\{name\}/g, () => name)
+    .replace(/\{table\}/g, () => target.tableName)
+    .trim();
+};
+
+const targetKey = (target: RenameTarget) =>
+  target.kind === 'table'
+    ? `table:${target.tableId}`
+    : `field:${target.tableId}:${target.fieldId}`;
+
+/** 记下每个名字最终由谁占用，出现两个占用者就是冲突 */
+const findDuplicates = (names: { key: string; name: string }[]) => {
+  const owners = new Map<string, string[]>();
+  for (const item of names) {
+    owners.set(item.name, [...(owners.get(item.name) ?? []), item.key]);
+  }
+  return owners;
+};
+
+/**
+ * 生成改名前后对照。同一张表里的字段、整个多维表格里的表各自不能重名，
+ * 比较时把未选中对象的现名和其他对象改名后的新名字放在一起算。
+ */
+export const buildRenamePreview = (
+  bundles: TableBundle[],
+  targets: RenameTarget[],
+  rule: RenameRule,
+): RenamePreviewItem[] => {
+  const items: RenamePreviewItem[] = targets.map((target) => {
+    const nextName = applyRenameRule(target, rule);
+    return {
+      ...target,
+      key: targetKey(target),
+      nextName,
+      changed: nextName !== target.name,
+      conflict: nextName ? null : '新名字是空的',
+    };
+  });
+  const byKey = new Map(items.map((item) => [item.key, item]));
+  const finalName = (key: string, current: string) =>
+    byKey.get(key)?.nextName ?? current;
+
+  const tableOwners = findDuplicates(
+    bundles.map((bundle) => {
+      const key = targetKey({
+        kind: 'table',
+        tableId: bundle.meta.id,
+        tableName: bundle.meta.name,
+        name: bundle.meta.name,
+      });
+      return { key, name: finalName(key, bundle.meta.name) };
+    }),
+  );
+  const fieldOwners = new Map(
+    bundles.map((bundle) => [
+      bundle.meta.id,
+      findDuplicates(
+        bundle.fields.map((field) => {
+          const key = targetKey({
+            kind: 'field',
+            tableId: bundle.meta.id,
+            tableName: bundle.meta.name,
+            fieldId: field.id,
+            name: field.name,
+          });
+          return { key, name: finalName(key, field.name) };
+        }),
+      ),
+    ]),
+  );
+
+  for (const item of items) {
+    if (item.conflict || !item.changed) {
+      continue;
+    }
+    const owners =
+      item.kind === 'table'
+        ? tableOwners
+        : fieldOwners.get(item.tableId) ?? new Map<string, string[]>();
+    if ((owners.get(item.nextName) ?? []).length > 1) {
+      item.conflict =
+        item.kind === 'table' ? '与其他表重名' : '与同表其他字段重名';
+    }
+  }
+  return items;
+};
+
+export const toRenameChanges = (items: RenamePreviewItem[]): RenameChange[] =>
+  items
+    .filter((item) => item.changed && !item.conflict)
+    .map((item) => ({
+      kind: item.kind,
+      tableId: item.tableId,
+      tableName: item.tableName,
+      fieldId: item.fieldId,
+      from: item.name,
+      to: item.nextName,
+    }));
+
+const setName = async (change: RenameChange, name: string) => {
+  if (change.kind === 'table') {
+    await bitable.base.setTable(change.tableId, { name });
+    return;
+  }
+  const table = await bitable.base.getTableById(change.tableId);
+  await table.setField(change.fieldId ?? '', { name });
+};
+
+/**
+ * 逐个改名。A、B 互换这类新名字正被另一个待改对象占着的情况，
+ * 先把占位的对象挪到临时名字，再统一改成目标名。
+ */
+export const executeRenames = async (
+  changes: RenameChange[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<ReportItem[]> => {
+  const scopeOf = (change: RenameChange) =>
+    change.kind === 'table' ? 'table' : change.tableId;
+  const parked = changes.filter((change) =>
+    changes.some(
+      (other) =>
+        other !== change &&
+        scopeOf(other) === scopeOf(change) &&
+        other.to === change.from,
+    ),
+  );
+  const errors = new Map<RenameChange, string>();
+  const stamp = Date.now().toString(36);
+  for (const change of parked) {
+    try {
+      await setName(change, `${change.from}~${stamp}`);
+    } catch (error) {
+      console.error(error);
+      errors.set(
+        change,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  const items: ReportItem[] = [];
+  let done = 0;
+  for (const change of changes) {
+    const item: ReportItem = {
+      operation: change.kind === 'table' ? 'renameTable' : 'renameField',
+      status: 'success',
+      tableId: change.tableId,
+      tableName: change.kind === 'table' ? change.from : change.tableName,
+      ...(change.kind === 'field'
+        ? { fieldId: change.fieldId, fieldName: change.from }
+        : {}),
+      message: `改成「${change.to}」`,
+    };
+    if (errors.has(change)) {
+      item.status = 'failed';
+      item.error = errors.get(change);
+    } else {
+      try {
+        await setName(change, change.to);
+      } catch (error) {
+        console.error(error);
+        item.status = 'failed';
+        item.error = error instanceof Error ? error.message : String(error);
+        if (parked.includes(change)) {
+          // 挪到临时名后没改成，尽量放回原名
+          await setName(change, change.from).catch(console.error);
+        }
+      }
+    }
+    items.push(item);
+    done += 1;
+    onProgress?.(done, changes.length);
+  }
+  return items;
+};
+
+/** 用改名前快照里的名字把这批对象改回去，已经被删掉的对象会失败 */
+export const revertRenames = (
+  snapshot: Snapshot,
+  changes: RenameChange[],
+  onProgress?: (done: number, total: number) => void,
+) =>
+  executeRenames(
+    changes.map((change) => {
+      const tableSnap = snapshot.tables.find(
+        (table) => table.tableId === change.tableId,
+      );
+      const original =
+        change.kind === 'table'
+          ? tableSnap?.tableName
+          : tableSnap?.fields.find((field) => field.id === change.fieldId)
+              ?.name;
+      return {
+        ...change,
+        tableName: change.kind === 'table' ? change.to : change.tableName,
+        from: change.to,
+        to: original ?? change.from,
+      };
+    }),
+    onProgress,
+  );
@@ -0,0 +1,261 @@
+import { bitable } from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../types';
+import { fieldPlanKey, tablePlanKey } from './deletionPlan';
+import { matchTable, parseFieldQuery } from './fieldQuery';
+import type { FieldUsageMap } from './fieldUsage';
+
+export const LOCAL_STORAGE_RECIPES_KEY = 'boom-table-shredder-recipes';
+export const BRIDGE_RECIPES_KEY = 'boom.table-shredder.recipes.v1';
+
+/**
+ * fields / tables：按保存时的查询重新求值，对应「全选字段」「全选表」；
+ * selection：按 ID 记住当时手动勾选的那几项。
+ */
+export type RecipeScope = 'fields' | 'tables' | 'selection';
+
+export const RECIPE_SCOPE_LABELS: Record<RecipeScope, string> = {
+  fields: '查询命中的字段',
+  tables: '查询命中的整表',
+  selection: '当前勾选的项',
+};
+
+export type RecipeItem = {
+  kind: 'table' | 'field';
+  tableId: string;
+  tableName: string;
+  fieldId?: string;
+  fieldName?: string;
+};
+
+export type CleanupRecipe = {
+  id: string;
+  name: string;
+  scope: RecipeScope;
+  query: string;
+  fieldTypeFilter: string;
+  /** selection 为保存时的勾选；其余为上次命中的结果，用来比对哪些已经不存在 */
+  items: RecipeItem[];
+  createdAt: string;
+  lastRunAt?: string;
+};
+
+export type RecipeLibrary = {
+  version: 1;
+  recipes: CleanupRecipe[];
+};
+
+export type RecipePreview = {
+  /** 在最新表结构里命中的项，isNew 表示上次还没有 */
+  matched: (RecipeItem & { isNew: boolean })[];
+  /** 记录过但表或字段已被删掉的项 */
+  missing: RecipeItem[];
+};
+
+export const createEmptyRecipeLibrary = (): RecipeLibrary => ({
+  version: 1,
+  recipes: [],
+});
+
+export const recipeItemKey = (item: RecipeItem) =>
+  item.kind === 'table'
+    ? tablePlanKey(item.tableId)
+    : fieldPlanKey(item.tableId, item.fieldId ?? '');
+
+/** 把当前勾选转成配方条目，整表勾选时不再重复记它的字段 */
+export const collectSelectionItems = (
+  bundles: TableBundle[],
+  selectedTables: Record<string, boolean>,
+  selectedFields: Record<string, Record<string, boolean>>,
+): RecipeItem[] =>
+  bundles.flatMap((bundle): RecipeItem[] => {
+    const tableName = bundle.meta.name ?? '无名表';
+    if (selectedTables[bundle.meta.id]) {
+      return [{ kind: 'table', tableId: bundle.meta.id, tableName }];
+    }
+    const picked = selectedFields[bundle.meta.id] ?? {};
+    return bundle.fields
+      .filter((field) => picked[field.id])
+      .map((field) => ({
+        kind: 'field',
+        tableId: bundle.meta.id,
+        tableName,
+        fieldId: field.id,
+        fieldName: field.name ?? '无名字段',
+      }));
+  });
+
+/** 按配方里的查询对最新表结构求值，索引列不会被选中 */
+const evaluateRule = (
+  recipe: CleanupRecipe,
+  bundles: TableBundle[],
+  usage: FieldUsageMap,
+): RecipeItem[] => {
+  const query = parseFieldQuery(recipe.query);
+  return bundles.flatMap((bundle): RecipeItem[] => {
+    const tableName = bundle.meta.name ?? '无名表';
+    const matched = matchTable(
+      query,
+      bundle.meta,
+      bundle.fields,
+      usage[bundle.meta.id],
+    );
+    if (recipe.scope === 'tables') {
+      return matched.tableMatches
+        ? [{ kind: 'table', tableId: bundle.meta.id, tableName }]
+        : [];
+    }
+    return matched.visibleFields
+      .filter(
+        (field) =>
+          !field.isPrimary &&
+          (recipe.fieldTypeFilter === 'all' ||
+            String(field.type) === recipe.fieldTypeFilter),
+      )
+      .map((field) => ({
+        kind: 'field',
+        tableId: bundle.meta.id,
+        tableName,
+        fieldId: field.id,
+        fieldName: field.name ?? '无名字段',
+      }));
+  });
+};
+
+const existsIn = (item: RecipeItem, bundles: TableBundle[]) => {
+  const bundle = bundles.find((candidate) => candidate.meta.id === item.tableId);
+  if (!bundle) {
+    return false;
+  }
+  return (
+    item.kind === 'table' ||
+    bundle.fields.some((field) => field.id === item.fieldId)
+  );
+};
+
+export const resolveRecipe = (
+  recipe: CleanupRecipe,
+  bundles: TableBundle[],
+  usage: FieldUsageMap,
+): RecipePreview => {
+  const missing = recipe.items.filter((item) => !existsIn(item, bundles));
+  const current =
+    recipe.scope === 'selection'
+      ? recipe.items.filter((item) => existsIn(item, bundles))
+      : evaluateRule(recipe, bundles, usage);
+  const known = new Set(recipe.items.map(recipeItemKey));
+  return {
+    matched: current.map((item) => ({
+      ...item,
+      isNew: recipe.scope !== 'selection' && !known.has(recipeItemKey(item)),
+    })),
+    missing,
+  };
+};
+
+export const createRecipe = (
+  name: string,
+  scope: RecipeScope,
+  query: string,
+  fieldTypeFilter: string,
+  bundles: TableBundle[],
+  selectionItems: RecipeItem[],
+  usage: FieldUsageMap,
+): CleanupRecipe => {
+  const recipe: CleanupRecipe = {
+    id: `recipe_${Date.now().toString(36)}_${Math.random()
+      .toString(36)
+      .slice(2, 8)}`,
+    name,
+    scope,
+    query,
+    fieldTypeFilter,
+    items: selectionItems,
+    createdAt: new Date().toISOString(),
+  };
+  if (scope !== 'selection') {
+    recipe.items = evaluateRule(recipe, bundles, usage);
+  }
+  return recipe;
+};
+
+export const upsertRecipe = (
+  library: RecipeLibrary,
+  recipe: CleanupRecipe,
+): RecipeLibrary => ({
+  ...library,
+  recipes: library.recipes.some((item) => item.id === recipe.id)
+    ? library.recipes.map((item) => (item.id === recipe.id ? recipe : item))
+    : [recipe, ...library.recipes],
+});
+
+export const removeRecipe = (
+  library: RecipeLibrary,
+  recipeId: string,
+): RecipeLibrary => ({
+  ...library,
+  recipes: library.recipes.filter((item) => item.id !== recipeId),
+});
+
+const normalizeRecipeLibrary = (raw: unknown): RecipeLibrary | null => {
+  const value = raw as Partial<RecipeLibrary> | null;
+  if (!value || value.version !== 1 || !Array.isArray(value.recipes)) {
+    return null;
+  }
+  return {
+    version: 1,
+    recipes: value.recipes.filter(
+      (recipe): recipe is CleanupRecipe =>
+        !!recipe &&
+        typeof recipe.id === 'string' &&
+        typeof recipe.query === 'string' &&
+        Array.isArray(recipe.items),
+    ),
+  };
+};
+
+/** 配方存进 bridge，跟着 Base 走；bridge 不可用时才退回本机缓存（各 Base 共用） */
+export const loadPersistedRecipes = async (): Promise<RecipeLibrary | null> => {
+  const bridge = bitable?.bridge as any;
+  if (bridge && typeof bridge.getData === 'function') {
+    try {
+      const stored = normalizeRecipeLibrary(
+        await bridge.getData?.(BRIDGE_RECIPES_KEY),
+      );
+      return stored;
+    } catch (error) {
+      console.warn('读取 bridge 清理配方失败', error);
+    }
+  }
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const raw = window.localStorage.getItem(LOCAL_STORAGE_RECIPES_KEY);
+    return raw ? normalizeRecipeLibrary(JSON.parse(raw)) : null;
+  } catch (error) {
+    console.error('读取清理配方缓存失败', error);
+    return null;
+  }
+};
+
+export const persistRecipes = async (library: RecipeLibrary) => {
+  if (typeof window !== 'undefined') {
+    try {
+      window.localStorage.setItem(
+        LOCAL_STORAGE_RECIPES_KEY,
+        JSON.stringify(library),
+      );
+    } catch (error) {
+      console.error('写入清理配方缓存失败', error);
+    }
+  }
+  const bridge = bitable?.bridge as any;
+  if (!bridge || typeof bridge.setData !== 'function') {
+    return;
+  }
+  try {
+    await bridge.setData?.(BRIDGE_RECIPES_KEY, library);
+  } catch (error) {
+    console.warn('写入 bridge 清理配方失败', error);
+  }
+};
@@ -0,0 +1,117 @@
+import { bitable, IRecord } from '@lark-base-open/js-sdk';
+import type { RecordBackupPurpose, Snapshot } from '../types';
+import type { ReportItem } from './operationReport';
+import {
+  BackupProgress,
+  forEachRecordPage,
+  isComputedFieldType,
+  loadRecordBackup,
+  RECORD_CHUNK_SIZE,
+  restoreRecordValues,
+} from './recordBackup';
+
+export type ClearResult = {
+  recordCount: number;
+  cellCount: number;
+  /** 公式、系统字段等写不进去的字段 */
+  skippedFieldIds: string[];
+};
+
+/**
+ * 把字段值分批写成空值，recordIds 为 null 时清空整列。
+ * 调用前要先把这些单元格备份进快照，撤销时才有东西写回。
+ */
+export const clearFieldValues = async (
+  tableId: string,
+  fieldIds: string[],
+  recordIds: string[] | null,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<ClearResult> => {
+  const table = await bitable.base.getTableById(tableId);
+  const tableName = await table.getName();
+  const metaList = await table.getFieldMetaList();
+  const writable = metaList.filter(
+    (field) => fieldIds.includes(field.id) && !isComputedFieldType(field.type),
+  );
+  const result: ClearResult = {
+    recordCount: 0,
+    cellCount: 0,
+    skippedFieldIds: fieldIds.filter(
+      (fieldId) => !writable.some((field) => field.id === fieldId),
+    ),
+  };
+  if (writable.length === 0) {
+    return result;
+  }
+
+  let targetIds = recordIds;
+  if (!targetIds) {
+    const allIds: string[] = [];
+    await forEachRecordPage(table, (records) => {
+      allIds.push(...records.map((record) => record.recordId));
+    });
+    targetIds = allIds;
+  }
+  // IOpenCellValue 本身就含 null，setRecords 写 null 即清空单元格
+  const emptyFields: IRecord['fields'] = Object.fromEntries(
+    writable.map((field) => [field.id, null]),
+  );
+  for (let index = 0; index < targetIds.length; index += RECORD_CHUNK_SIZE) {
+    const batch: IRecord[] = targetIds
+      .slice(index, index + RECORD_CHUNK_SIZE)
+      .map((recordId) => ({ recordId, fields: emptyFields }));
+    await table.setRecords(batch);
+    result.recordCount += batch.length;
+    result.cellCount += batch.length * writable.length;
+    onProgress?.({
+      label: tableName,
+      done: result.recordCount,
+      total: targetIds.length,
+    });
+  }
+  return result;
+};
+
+/** 按记录 ID 把快照里备份的旧值写回，已经不在的记录不会补建 */
+export const restoreBackedUpValues = async (
+  snapshot: Snapshot,
+  purpose: Exclude<RecordBackupPurpose, 'deletedRecords'>,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<ReportItem[]> => {
+  const tables = (snapshot.recordBackup?.tables ?? []).filter(
+    (item) => item.purpose === purpose,
+  );
+  const items: ReportItem[] = [];
+  for (const item of tables) {
+    const tableName =
+      snapshot.tables.find((table) => table.tableId === item.tableId)
+        ?.tableName || '无名表';
+    try {
+      const backup = await loadRecordBackup(snapshot.id, item.tableId);
+      const table = await bitable.base.getTableById(item.tableId);
+      const restored = await restoreRecordValues(
+        table,
+        backup,
+        new Map(item.fieldIds.map((fieldId) => [fieldId, fieldId])),
+        { appendUnmatched: false, matchByPrimary: false, onProgress },
+      );
+      items.push({
+        operation: 'restoreRecords',
+        status: 'success',
+        tableId: item.tableId,
+        tableName,
+        message: `写回 ${restored.cellsRestored} 个单元格`,
+      });
+    } catch (error) {
+      console.error(error);
+      items.push({
+        operation: 'restoreRecords',
+        status: 'failed',
+        tableId: item.tableId,
+        tableName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return items;
+};
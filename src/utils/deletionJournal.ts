@@ -0,0 +1,175 @@
+import { bitable } from '@lark-base-open/js-sdk';
+import { getActingUserId } from './auditLog';
+import type { PlanItem } from './deletionPlan';
+
+export const LOCAL_STORAGE_JOURNAL_KEY = 'boom-table-shredder-deletion-journal';
+export const BRIDGE_JOURNAL_KEY = 'boom.table-shredder.deletion-journal.v1';
+
+/** skipped 是执行前被拦下的条目（如受保护），和报告里的“跳过”一致 */
+export type JournalEntryStatus = 'pending' | 'done' | 'failed' | 'skipped';
+
+export type JournalEntry = PlanItem & {
+  status: JournalEntryStatus;
+  error?: string;
+};
+
+/** 日志属于哪个 Base 的哪个人，别人的日志或别的 Base 的日志一律不认 */
+export type JournalOwner = {
+  baseId: string | null;
+  userId: string | null;
+};
+
+/** 删除过程的流水账：每项操作执行完立刻落盘，面板重载后据此续跑或回滚 */
+export type DeletionJournal = JournalOwner & {
+  version: 1;
+  id: string;
+  /** 删除前自动快照的 ID，快照失败仍强行删除时为 null */
+  snapshotId: string | null;
+  startedAt: string;
+  updatedAt: string;
+  entries: JournalEntry[];
+};
+
+export const getJournalOwner = async (): Promise<JournalOwner> => {
+  let baseId: string | null = null;
+  try {
+    baseId = (await bitable.base.getSelection()).baseId;
+  } catch (error) {
+    console.warn('获取当前 Base 失败', error);
+  }
+  return { baseId, userId: await getActingUserId() };
+};
+
+export const createJournal = (
+  items: PlanItem[],
+  snapshotId: string | null,
+  owner: JournalOwner,
+): DeletionJournal => {
+  const now = new Date().toISOString();
+  return {
+    ...owner,
+    version: 1,
+    id: `job_${Date.now().toString(36)}_${Math.random()
+      .toString(36)
+      .slice(2, 8)}`,
+    snapshotId,
+    startedAt: now,
+    updatedAt: now,
+    entries: items.map((item) => ({ ...item, status: 'pending' })),
+  };
+};
+
+export const markJournalEntry = (
+  journal: DeletionJournal,
+  key: string,
+  status: JournalEntryStatus,
+  error?: string,
+): DeletionJournal => ({
+  ...journal,
+  updatedAt: new Date().toISOString(),
+  entries: journal.entries.map((entry) =>
+    entry.key === key ? { ...entry, status, error } : entry,
+  ),
+});
+
+export const getJournalEntries = (
+  journal: DeletionJournal,
+  status: JournalEntryStatus,
+) => journal.entries.filter((entry) => entry.status === status);
+
+const normalizeJournal = (raw: unknown): DeletionJournal | null => {
+  const value = raw as Partial<DeletionJournal> | null;
+  if (
+    !value ||
+    value.version !== 1 ||
+    typeof value.id !== 'string' ||
+    !Array.isArray(value.entries)
+  ) {
+    return null;
+  }
+  const entries = value.entries.filter(
+    (entry): entry is JournalEntry =>
+      !!entry &&
+      typeof entry.key === 'string' &&
+      typeof entry.tableId === 'string' &&
+      (entry.kind === 'table' || entry.kind === 'field'),
+  );
+  return {
+    version: 1,
+    id: value.id,
+    baseId: typeof value.baseId === 'string' ? value.baseId : null,
+    userId: typeof value.userId === 'string' ? value.userId : null,
+    snapshotId:
+      typeof value.snapshotId === 'string' ? value.snapshotId : null,
+    startedAt: value.startedAt ?? new Date().toISOString(),
+    updatedAt: value.updatedAt ?? value.startedAt ?? new Date().toISOString(),
+    entries,
+  };
+};
+
+const isOwnedBy = (journal: DeletionJournal, owner: JournalOwner) =>
+  journal.baseId === owner.baseId && journal.userId === owner.userId;
+
+/**
+ * bridge 能读就只认 bridge；localStorage 是所有 Base 共用的，只在 bridge 不可用时兜底。
+ * 不属于当前 Base 和当前用户的日志当作没有，协作者正在跑的删除不会被误判为中断。
+ */
+export const loadPersistedJournal = async (
+  owner: JournalOwner,
+): Promise<DeletionJournal | null> => {
+  const bridge = bitable?.bridge as any;
+  if (bridge && typeof bridge.getData === 'function') {
+    try {
+      const stored = normalizeJournal(
+        await bridge.getData?.(BRIDGE_JOURNAL_KEY),
+      );
+      return stored && isOwnedBy(stored, owner) ? stored : null;
+    } catch (error) {
+      console.warn('读取 bridge 删除日志失败', error);
+    }
+  }
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const raw = window.localStorage.getItem(LOCAL_STORAGE_JOURNAL_KEY);
+    const stored = raw ? normalizeJournal(JSON.parse(raw)) : null;
+    return stored && isOwnedBy(stored, owner) ? stored : null;
+  } catch (error) {
+    console.error('读取删除日志缓存失败', error);
+    return null;
+  }
+};
+
+let pendingBridgeWrite: Promise<void> = Promise.resolve();
+
+/** journal 为 null 表示这次删除已收尾，清掉两处记录 */
+export const persistJournal = async (journal: DeletionJournal | null) => {
+  if (typeof window !== 'undefined') {
+    try {
+      if (journal) {
+        window.localStorage.setItem(
+          LOCAL_STORAGE_JOURNAL_KEY,
+          JSON.stringify(journal),
+        );
+      } else {
+        window.localStorage.removeItem(LOCAL_STORAGE_JOURNAL_KEY);
+      }
+    } catch (error) {
+      console.error('写入删除日志缓存失败', error);
+    }
+  }
+  const bridge = bitable?.bridge as any;
+  if (!bridge || typeof bridge.setData !== 'function') {
+    return;
+  }
+  // 并发任务会连续触发写入，串起来保证后写的状态不被先写的覆盖
+  pendingBridgeWrite = pendingBridgeWrite.then(async () => {
+    try {
+      await bridge.setData?.(BRIDGE_JOURNAL_KEY, journal);
+    } catch (error) {
+      console.warn('写入 bridge 删除日志失败', error);
+    }
+  });
+  await pendingBridgeWrite;
+};
@@ -0,0 +1,281 @@
+import type { FieldType } from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../types';
+
+export type PlanSkipReason =
+  | 'keepLastTable'
+  | 'primaryField'
+  | 'coveredByTable'
+  | 'missing'
+  | 'protected'
+  | 'archiveFailed'
+  | 'deselected';
+
+export const PLAN_SKIP_LABELS: Record<PlanSkipReason, string> = {
+  keepLastTable: '多维表格至少要留一张表，改为清空它的非索引字段',
+  primaryField: '索引列不可删除',
+  coveredByTable: '整表删除时随表一起消失',
+  missing: '当前 Base 中已不存在',
+  protected: '在保护名单中，不允许删除',
+  archiveFailed: '归档后记录数核对不上，保留不删',
+  deselected: '已在计划中取消',
+};
+
+export type PlanItem = {
+  /** table:<tableId> 或 field:<tableId>:<fieldId>，树节点与取消勾选都用它 */
+  key: string;
+  kind: 'table' | 'field';
+  tableId: string;
+  tableName: string;
+  fieldId?: string;
+  fieldName?: string;
+  fieldType?: FieldType;
+  /** null 表示会被执行，否则说明跳过原因 */
+  skipReason: PlanSkipReason | null;
+};
+
+export type PlanTableNode = {
+  tableId: string;
+  tableName: string;
+  /** 没勾整表、只删字段时为 null */
+  table: PlanItem | null;
+  fields: PlanItem[];
+};
+
+export type DeletionPlanCounts = {
+  tables: number;
+  fields: number;
+  skipped: number;
+};
+
+export type DeletionPlan = {
+  nodes: PlanTableNode[];
+  counts: DeletionPlanCounts;
+  /** 生成计划时的表结构，判断要不要留下最后一张表时用 */
+  bundles: TableBundle[];
+};
+
+export const tablePlanKey = (tableId: string) => `table:${tableId}`;
+
+export const fieldPlanKey = (tableId: string, fieldId: string) =>
+  `field:${tableId}:${fieldId}`;
+
+const countPlan = (nodes: PlanTableNode[]): DeletionPlanCounts => {
+  const counts: DeletionPlanCounts = { tables: 0, fields: 0, skipped: 0 };
+  for (const node of nodes) {
+    for (const item of node.table ? [node.table, ...node.fields] : node.fields) {
+      if (item.skipReason) {
+        counts.skipped += 1;
+      } else if (item.kind === 'table') {
+        counts.tables += 1;
+      } else {
+        counts.fields += 1;
+      }
+    }
+  }
+  return counts;
+};
+
+const planFieldItem = (
+  bundle: TableBundle,
+  fieldId: string,
+  skipReason: PlanSkipReason | null,
+): PlanItem => {
+  const meta = bundle.fields.find((field) => field.id === fieldId);
+  return {
+    key: fieldPlanKey(bundle.meta.id, fieldId),
+    kind: 'field',
+    tableId: bundle.meta.id,
+    tableName: bundle.meta.name || '无名表',
+    fieldId,
+    fieldName: meta?.name || fieldId,
+    fieldType: meta?.type,
+    skipReason: meta ? skipReason : 'missing',
+  };
+};
+
+/**
+ * 把勾选状态和当前表结构翻译成一份明确的删除计划：
+ * 整表删除覆盖的字段、索引列与已经不存在的目标都标成跳过并写明原因。
+ * 要不要留下最后一张表交给 settleLastTable，等跳过项都定下来再判断。纯函数，不碰 SDK。
+ */
+export const buildDeletionPlan = (
+  bundles: TableBundle[],
+  selectedTables: Record<string, boolean>,
+  selectedFields: Record<string, Record<string, boolean>>,
+): DeletionPlan => {
+  const checkedFieldIds = (tableId: string) =>
+    Object.entries(selectedFields[tableId] ?? {})
+      .filter(([, checked]) => checked)
+      .map(([fieldId]) => fieldId);
+
+  const nodes: PlanTableNode[] = [];
+  for (const bundle of bundles) {
+    const tableId = bundle.meta.id;
+    const tableName = bundle.meta.name || '无名表';
+    const tableSelected = !!selectedTables[tableId];
+    const fieldIds = checkedFieldIds(tableId);
+    if (!tableSelected && fieldIds.length === 0) {
+      continue;
+    }
+    const fieldItem = (fieldId: string, skipReason: PlanSkipReason | null) =>
+      planFieldItem(bundle, fieldId, skipReason);
+
+    if (tableSelected) {
+      nodes.push({
+        tableId,
+        tableName,
+        table: {
+          key: tablePlanKey(tableId),
+          kind: 'table',
+          tableId,
+          tableName,
+          skipReason: null,
+        },
+        fields: fieldIds.map((fieldId) => fieldItem(fieldId, 'coveredByTable')),
+      });
+    } else {
+      nodes.push({
+        tableId,
+        tableName,
+        table: null,
+        fields: fieldIds.map((fieldId) => {
+          const isPrimary = bundle.fields.find(
+            (field) => field.id === fieldId,
+          )?.isPrimary;
+          return fieldItem(fieldId, isPrimary ? 'primaryField' : null);
+        }),
+      });
+    }
+  }
+
+  // 勾选后表已被删掉（或在别处改了）的目标也列出来，让用户知道它们不会执行
+  const liveTableIds = new Set(bundles.map((bundle) => bundle.meta.id));
+  const staleTableIds = new Set([
+    ...Object.keys(selectedTables).filter((tableId) => selectedTables[tableId]),
+    ...Object.keys(selectedFields).filter(
+      (tableId) => checkedFieldIds(tableId).length > 0,
+    ),
+  ]);
+  for (const tableId of staleTableIds) {
+    if (liveTableIds.has(tableId)) {
+      continue;
+    }
+    nodes.push({
+      tableId,
+      tableName: tableId,
+      table: {
+        key: tablePlanKey(tableId),
+        kind: 'table',
+        tableId,
+        tableName: tableId,
+        skipReason: 'missing',
+      },
+      fields: [],
+    });
+  }
+
+  return { nodes, counts: countPlan(nodes), bundles };
+};
+
+/**
+ * 多维表格至少要留一张表：保护、取消勾选等跳过项都定下来之后，
+ * 整表删除仍覆盖全部表时，才把最后一张改为保留并清空它的非索引字段。
+ */
+export const settleLastTable = (plan: DeletionPlan): DeletionPlan => {
+  const deletable = new Set(
+    plan.nodes
+      .filter((node) => node.table?.skipReason === null)
+      .map((node) => node.tableId),
+  );
+  const last = plan.bundles[plan.bundles.length - 1];
+  const keepNeeded =
+    !!last && plan.bundles.every((bundle) => deletable.has(bundle.meta.id));
+  if (!keepNeeded) {
+    return plan;
+  }
+  const nodes = plan.nodes.map((node) =>
+    node.tableId === last.meta.id && node.table
+      ? {
+          ...node,
+          table: { ...node.table, skipReason: 'keepLastTable' as const },
+          fields: last.fields.map((field) =>
+            planFieldItem(
+              last,
+              field.id,
+              field.isPrimary ? 'primaryField' : null,
+            ),
+          ),
+        }
+      : node,
+  );
+  return { ...plan, nodes, counts: countPlan(nodes) };
+};
+
+/** 用户在计划树里取消勾选的条目改为跳过，其余保持不变 */
+export const excludePlanItems = (
+  plan: DeletionPlan,
+  excludedKeys: Set<string>,
+): DeletionPlan => {
+  const exclude = (item: PlanItem): PlanItem =>
+    item.skipReason === null && excludedKeys.has(item.key)
+      ? { ...item, skipReason: 'deselected' }
+      : item;
+  const nodes = plan.nodes.map((node) => ({
+    ...node,
+    table: node.table ? exclude(node.table) : null,
+    fields: node.fields.map(exclude),
+  }));
+  return { ...plan, nodes, counts: countPlan(nodes) };
+};
+
+/** 受保护的条目一律改为跳过，不管它原本是怎么被勾上的 */
+export const protectPlanItems = (
+  plan: DeletionPlan,
+  isProtected: (item: PlanItem) => boolean,
+): DeletionPlan => {
+  const protect = (item: PlanItem): PlanItem =>
+    item.skipReason !== 'missing' && isProtected(item)
+      ? { ...item, skipReason: 'protected' }
+      : item;
+  const nodes = plan.nodes.map((node) => ({
+    ...node,
+    table: node.table ? protect(node.table) : null,
+    fields: node.fields.map(protect),
+  }));
+  return { ...plan, nodes, counts: countPlan(nodes) };
+};
+
+/** 先归档再删除时，没有通过归档核对的条目改为跳过 */
+export const skipUnarchivedItems = (
+  plan: DeletionPlan,
+  archivedKeys: Set<string>,
+): DeletionPlan => {
+  const check = (item: PlanItem): PlanItem =>
+    item.skipReason === null && !archivedKeys.has(item.key)
+      ? { ...item, skipReason: 'archiveFailed' }
+      : item;
+  const nodes = plan.nodes.map((node) => ({
+    ...node,
+    table: node.table ? check(node.table) : null,
+    fields: node.fields.map(check),
+  }));
+  return { ...plan, nodes, counts: countPlan(nodes) };
+};
+
+/** 按执行顺序取出真正要执行的操作：先删整表，再按表分组删字段 */
+export const getPlanOperations = (plan: DeletionPlan) => ({
+  tables: plan.nodes
+    .map((node) => node.table)
+    .filter((item): item is PlanItem => !!item && item.skipReason === null),
+  fieldsByTable: plan.nodes
+    .map((node) => {
+      const fields = node.fields.filter((item) => item.skipReason === null);
+      return {
+        tableId: node.tableId,
+        tableName: node.tableName,
+        fields,
+        fieldIds: fields.map((item) => item.fieldId ?? ''),
+      };
+    })
+    .filter((group) => group.fields.length > 0),
+});
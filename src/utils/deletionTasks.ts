@@ -0,0 +1,35 @@
+import { bitable } from '@lark-base-open/js-sdk';
+import type { PlanItem } from './deletionPlan';
+import type { JobTask } from './jobRunner';
+import type { ReportItem } from './operationReport';
+
+/** 把删除计划 / 删除日志里的一项转成任务引擎能执行的任务 */
+export const createDeletionTask = (item: PlanItem): JobTask =>
+  item.kind === 'table'
+    ? {
+        key: item.key,
+        label: `表 ${item.tableName}`,
+        run: async () => {
+          await bitable.base.deleteTable(item.tableId);
+        },
+      }
+    : {
+        key: item.key,
+        label: `字段 ${item.fieldName}（${item.tableName}）`,
+        run: async () => {
+          const table = await bitable.base.getTableById(item.tableId);
+          await table.deleteField(item.fieldId ?? '');
+        },
+      };
+
+export const toDeletionReportItem = (
+  item: PlanItem,
+  patch: Pick<ReportItem, 'status'> & Partial<ReportItem>,
+): ReportItem => ({
+  operation: item.kind === 'table' ? 'deleteTable' : 'deleteField',
+  tableId: item.tableId,
+  tableName: item.tableName,
+  fieldId: item.fieldId,
+  fieldName: item.fieldName,
+  ...patch,
+});
@@ -0,0 +1,127 @@
+import type { FieldType } from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../types';
+import { fieldPlanKey, tablePlanKey } from './deletionPlan';
+import { extractFieldReferences } from './fieldReferences';
+
+export type FieldRef = {
+  tableId: string;
+  tableName: string;
+  fieldId: string;
+  fieldName: string;
+  fieldType: FieldType;
+};
+
+/** 被引用的表 / 字段 ID → 引用它的字段，关联、回填与公式都算 */
+export type DependencyGraph = {
+  dependentsByTable: Map<string, FieldRef[]>;
+  dependentsByField: Map<string, FieldRef[]>;
+};
+
+const pushRef = (map: Map<string, FieldRef[]>, id: string, ref: FieldRef) => {
+  const list = map.get(id);
+  if (list) {
+    list.push(ref);
+  } else {
+    map.set(id, [ref]);
+  }
+};
+
+/** 扫描全部表的字段属性，建立反向引用图 */
+export const buildDependencyGraph = (
+  bundles: TableBundle[],
+): DependencyGraph => {
+  const graph: DependencyGraph = {
+    dependentsByTable: new Map(),
+    dependentsByField: new Map(),
+  };
+  for (const bundle of bundles) {
+    for (const field of bundle.fields) {
+      const references = extractFieldReferences(field.type, field.property);
+      if (
+        references.tableIds.length === 0 &&
+        references.fieldIds.length === 0
+      ) {
+        continue;
+      }
+      const ref: FieldRef = {
+        tableId: bundle.meta.id,
+        tableName: bundle.meta.name || '无名表',
+        fieldId: field.id,
+        fieldName: field.name || '无名字段',
+        fieldType: field.type,
+      };
+      for (const tableId of references.tableIds) {
+        pushRef(graph.dependentsByTable, tableId, ref);
+      }
+      for (const fieldId of references.fieldIds) {
+        if (fieldId !== field.id) {
+          pushRef(graph.dependentsByField, fieldId, ref);
+        }
+      }
+    }
+  }
+  return graph;
+};
+
+const uniqueRefs = (refs: FieldRef[]) => {
+  const seen = new Set<string>();
+  return refs.filter((ref) => {
+    if (seen.has(ref.fieldId)) {
+      return false;
+    }
+    seen.add(ref.fieldId);
+    return true;
+  });
+};
+
+/**
+ * 找出勾选项中被其他字段依赖的目标。键与删除计划一致（table:/field:），
+ * 值为删除后会失效、且自身不在删除范围内的依赖字段。
+ */
+export const findSelectionImpacts = (
+  graph: DependencyGraph,
+  bundles: TableBundle[],
+  selectedTables: Record<string, boolean>,
+  selectedFields: Record<string, Record<string, boolean>>,
+): Map<string, FieldRef[]> => {
+  const doomedFieldIds = new Set<string>();
+  for (const bundle of bundles) {
+    const tableSelected = !!selectedTables[bundle.meta.id];
+    for (const field of bundle.fields) {
+      if (tableSelected || selectedFields[bundle.meta.id]?.[field.id]) {
+        doomedFieldIds.add(field.id);
+      }
+    }
+  }
+  const survives = (ref: FieldRef) =>
+    !selectedTables[ref.tableId] && !doomedFieldIds.has(ref.fieldId);
+
+  const impacts = new Map<string, FieldRef[]>();
+  for (const bundle of bundles) {
+    const tableId = bundle.meta.id;
+    if (selectedTables[tableId]) {
+      const dependents = uniqueRefs([
+        ...(graph.dependentsByTable.get(tableId) ?? []),
+        ...bundle.fields.flatMap(
+          (field) => graph.dependentsByField.get(field.id) ?? [],
+        ),
+      ]).filter(survives);
+      if (dependents.length > 0) {
+        impacts.set(tablePlanKey(tableId), dependents);
+      }
+      continue;
+    }
+    for (const field of bundle.fields) {
+      if (!selectedFields[tableId]?.[field.id]) {
+        continue;
+      }
+      const dependents = uniqueRefs(
+        graph.dependentsByField.get(field.id) ?? [],
+      ).filter(survives);
+      if (dependents.length > 0) {
+        impacts.set(fieldPlanKey(tableId, field.id), dependents);
+      }
+    }
+  }
+  return impacts;
+};
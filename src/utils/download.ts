@@ -0,0 +1,12 @@
+/** 通过临时链接触发浏览器下载一段文本 */
+export const downloadTextFile = (name: string, text: string, type: string) => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = name;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,235 @@
+import {
+  bitable,
+  IFieldMeta,
+  IOpenCellValue,
+  IRecord,
+} from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../types';
+import { isEmptyCell } from './fieldUsage';
+import { stableStringify } from './format';
+import {
+  adaptCellValue,
+  BackupProgress,
+  forEachRecordPage,
+  isComputedFieldType,
+  RECORD_CHUNK_SIZE,
+} from './recordBackup';
+
+export type DuplicateReason = 'name' | 'schema' | 'content';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  name: '名称相近',
+  schema: '类型与属性相同',
+  content: '单元格内容相同',
+};
+
+/** 同一张表里疑似重复的一组字段；合并只能在同表内逐行进行 */
+export type DuplicateGroup = {
+  key: string;
+  tableId: string;
+  tableName: string;
+  reasons: DuplicateReason[];
+  fields: IFieldMeta[];
+};
+
+/** fieldId -> 全部单元格内容的指纹，空字段不参与 */
+export type ContentFingerprints = Map<string, string>;
+
+/** 去掉大小写、分隔符和“(1)”“_new”“副本”之类的尾巴，Owner (1) 与 owner_new 会得到同一个名字 */
+export const normalizeFieldName = (name: string) => {
+  let normalized = name.trim().toLowerCase();
+  const suffix =
+    /(\s*[(（]\s*\d+\s*[)）]|[\s_\-.]+(new|old|copy|bak|backup|tmp)\d*|[\s_\-.]*(副本|备份)\d*)$/;
+  while (suffix.test(normalized)) {
+    const next = normalized.replace(suffix, '');
+    if (next.length === 0 || next === normalized) {
+      break;
+    }
+    normalized = next;
+  }
+  return normalized.replace(/[\s_\-.]+/g, '');
+};
+
+/** 属性为空的字段（普通文本、数字等）同类型一抓一大把，不拿来判重 */
+const schemaSignature = (field: IFieldMeta) => {
+  const property = stableStringify(field.property ?? null);
+  if (property === 'null' || property === '{}') {
+    return null;
+  }
+  return `${field.type}:${property}`;
+};
+
+/** 32 位 FNV-1a，逐格累加，不必把整列内容留在内存里 */
+const fnv1a = (hash: number, text: string) => {
+  let next = hash;
+  for (let index = 0; index < text.length; index += 1) {
+    next ^= text.charCodeAt(index);
+    next = Math.imul(next, 0x01000193);
+  }
+  return next >>> 0;
+};
+
+/** 读一遍表的记录，为每个有值的字段算出内容指纹 */
+export const fingerprintTableContents = async (
+  bundle: TableBundle,
+): Promise<ContentFingerprints> => {
+  const table = await bitable.base.getTableById(bundle.meta.id);
+  const hashes = new Map<string, number>(
+    bundle.fields.map((field) => [field.id, 0x811c9dc5]),
+  );
+  const filled = new Set<string>();
+  await forEachRecordPage(table, (records) => {
+    for (const record of records) {
+      for (const field of bundle.fields) {
+        const value = record.fields[field.id];
+        const empty = isEmptyCell(value);
+        if (!empty) {
+          filled.add(field.id);
+        }
+        hashes.set(
+          field.id,
+          fnv1a(
+            hashes.get(field.id) ?? 0,
+            `${record.recordId}=${empty ? '' : stableStringify(value)};`,
+          ),
+        );
+      }
+    }
+  });
+  const fingerprints: ContentFingerprints = new Map();
+  for (const fieldId of filled) {
+    fingerprints.set(fieldId, String(hashes.get(fieldId)));
+  }
+  return fingerprints;
+};
+
+/**
+ * 按表找出疑似重复的字段：名称归一化后相同、类型与属性完全一致，
+ * 或（传入指纹时）单元格内容完全一致。三种信号满足其一即归为一组。
+ */
+export const findDuplicateFields = (
+  bundles: TableBundle[],
+  contents?: Map<string, ContentFingerprints>,
+): DuplicateGroup[] => {
+  const groups: DuplicateGroup[] = [];
+  for (const bundle of bundles) {
+    const parent = new Map(bundle.fields.map((field) => [field.id, field.id]));
+    const find = (id: string): string => {
+      const root = parent.get(id) ?? id;
+      if (root === id) {
+        return id;
+      }
+      const top = find(root);
+      parent.set(id, top);
+      return top;
+    };
+    const reasonsByPair: { ids: string[]; reason: DuplicateReason }[] = [];
+
+    const link = (
+      reason: DuplicateReason,
+      signatureOf: (field: IFieldMeta) => string | null,
+    ) => {
+      const buckets = new Map<string, string[]>();
+      for (const field of bundle.fields) {
+        const signature = signatureOf(field);
+        if (signature) {
+          buckets.set(signature, [...(buckets.get(signature) ?? []), field.id]);
+        }
+      }
+      for (const ids of buckets.values()) {
+        if (ids.length < 2) {
+          continue;
+        }
+        reasonsByPair.push({ ids, reason });
+        for (const id of ids.slice(1)) {
+          parent.set(find(id), find(ids[0]));
+        }
+      }
+    };
+
+    link('name', (field) => normalizeFieldName(field.name ?? '') || null);
+    link('schema', schemaSignature);
+    const fingerprints = contents?.get(bundle.meta.id);
+    if (fingerprints) {
+      link('content', (field) => fingerprints.get(field.id) ?? null);
+    }
+
+    const members = new Map<string, IFieldMeta[]>();
+    for (const field of bundle.fields) {
+      const root = find(field.id);
+      members.set(root, [...(members.get(root) ?? []), field]);
+    }
+    for (const [root, fields] of members) {
+      if (fields.length < 2) {
+        continue;
+      }
+      const reasons = Array.from(
+        new Set(
+          reasonsByPair
+            .filter((pair) => find(pair.ids[0]) === root)
+            .map((pair) => pair.reason),
+        ),
+      );
+      groups.push({
+        key: `${bundle.meta.id}:${root}`,
+        tableId: bundle.meta.id,
+        tableName: bundle.meta.name ?? '无名表',
+        reasons,
+        // 索引列排最前，默认保留它或最早建的字段
+        fields: [...fields].sort(
+          (a, b) => Number(!!b.isPrimary) - Number(!!a.isPrimary),
+        ),
+      });
+    }
+  }
+  return groups;
+};
+
+/** 只有同类型、可写入的字段才能把值搬过去 */
+export const canMergeInto = (keep: IFieldMeta, duplicates: IFieldMeta[]) =>
+  !isComputedFieldType(keep.type) &&
+  duplicates.every((field) => field.type === keep.type);
+
+/**
+ * 用重复字段补齐保留字段的空单元格：按给定顺序取第一个有值的重复字段，
+ * 保留字段已有值的记录不动。返回补上的单元格数。
+ */
+export const mergeDuplicateFields = async (
+  tableId: string,
+  keep: IFieldMeta,
+  duplicates: IFieldMeta[],
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<number> => {
+  const table = await bitable.base.getTableById(tableId);
+  const tableName = await table.getName();
+  const updates: IRecord[] = [];
+  await forEachRecordPage(table, (records) => {
+    for (const record of records) {
+      if (!isEmptyCell(record.fields[keep.id])) {
+        continue;
+      }
+      for (const field of duplicates) {
+        const value = record.fields[field.id];
+        if (isEmptyCell(value)) {
+          continue;
+        }
+        const adapted = adaptCellValue(value as IOpenCellValue, keep);
+        if (adapted !== undefined) {
+          updates.push({
+            recordId: record.recordId,
+            fields: { [keep.id]: adapted },
+          });
+          break;
+        }
+      }
+    }
+  });
+  let done = 0;
+  for (let index = 0; index < updates.length; index += RECORD_CHUNK_SIZE) {
+    const batch = updates.slice(index, index + RECORD_CHUNK_SIZE);
+    await table.setRecords(batch);
+    done += batch.length;
+    onProgress?.({ label: tableName, done, total: updates.length });
+  }
+  return updates.length;
+};
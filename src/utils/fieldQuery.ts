@@ -0,0 +1,325 @@
+import { FieldType, IFieldMeta, ITableMeta } from '@lark-base-open/js-sdk';
+import type { FieldUsage } from './fieldUsage';
+import { FIELD_TYPE_LABELS, getFieldTypeLabel } from './fieldTypes';
+
+/**
+ * 搜索框的小型查询语法，空格分隔的条件全部满足才算命中：
+ * - `CRM`：表名或字段名包含关键字（原来的模糊搜索）
+ * - `table:CRM` / `name:/^tmp_/`：按表名 / 字段名过滤，`/…/` 为正则
+ * - `type:formula`：按字段类型（英文名或中文名）过滤，`type:link` 同时命中单向与双向关联
+ * - `primary:false`：是否索引列
+ * - `empty:>90%` / `fill:<10%`：按空值率 / 填充率过滤，需要先扫描字段用量
+ * - 任意条件前加 `-` 表示取反，值里有空格时用引号包起来
+ */
+export type QueryKey =
+  | 'text'
+  | 'table'
+  | 'name'
+  | 'type'
+  | 'primary'
+  | 'empty'
+  | 'fill';
+
+type Matcher = (value: string) => boolean;
+
+export type QueryTerm =
+  | {
+      key: 'text' | 'table' | 'name' | 'type';
+      negated: boolean;
+      match: Matcher;
+    }
+  | { key: 'primary'; negated: boolean; primary: boolean }
+  | {
+      key: 'empty' | 'fill';
+      negated: boolean;
+      compare: (rate: number) => boolean;
+    };
+
+export type QueryError = {
+  token: string;
+  message: string;
+};
+
+export type FieldQuery = {
+  terms: QueryTerm[];
+  errors: QueryError[];
+  /** 是否用到了依赖字段用量扫描的条件 */
+  needsUsage: boolean;
+};
+
+export const QUERY_KEYS: { key: Exclude<QueryKey, 'text'>; hint: string }[] = [
+  { key: 'table', hint: '按表名过滤' },
+  { key: 'name', hint: '按字段名过滤' },
+  { key: 'type', hint: '按字段类型过滤' },
+  { key: 'primary', hint: 'true / false，是否索引列' },
+  { key: 'empty', hint: '空值率，例如 >90%' },
+  { key: 'fill', hint: '填充率，例如 <10%' },
+];
+
+const fieldTypeNames = FieldType as unknown as Record<number, string>;
+
+/** 按空白切词，引号与 /正则/ 里的空白不切 */
+export const tokenizeQuery = (input: string) => {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: '"' | '/' | null = null;
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (quote) {
+      current += char;
+      if (char === quote && input[index - 1] !== '\\') {
+        quote = null;
+      }
+      continue;
+    }
+    if (/\s/.test(char)) {
+      if (current) {
+        tokens.push(current);
+      }
+      current = '';
+      continue;
+    }
+    if (char === '"' || (char === '/' && /(^-?|:)$/.test(current))) {
+      quote = char;
+    }
+    current += char;
+  }
+  if (current) {
+    tokens.push(current);
+  }
+  return tokens;
+};
+
+const buildMatcher = (raw: string): Matcher | string => {
+  if (raw.length > 1 && raw.startsWith('/')) {
+    const end = raw.lastIndexOf('/');
+    if (end === 0) {
+      return '正则缺少结尾的 /';
+    }
+    try {
+      const regex = new RegExp(raw.slice(1, end), raw.slice(end + 1) || 'i');
+      return (value) => regex.test(value);
+    } catch (error) {
+      return `正则写错了：${(error as Error).message}`;
+    }
+  }
+  const needle = raw.replace(/^"|"$/g, '').toLowerCase();
+  if (!needle) {
+    return '缺少要匹配的值';
+  }
+  return (value) => value.toLowerCase().includes(needle);
+};
+
+const buildRateCompare = (
+  raw: string,
+): ((rate: number) => boolean) | string => {
+  const matched = /^(>=|<=|>|<|=)?\s*(\d+(?:\.\d+)?)\s*%?$/.exec(raw);
+  if (!matched) {
+    return '比例要写成 >90% 这样的形式';
+  }
+  const operator = matched[1] ?? '=';
+  const threshold = Number(matched[2]) / 100;
+  switch (operator) {
+    case '>':
+      return (rate) => rate > threshold;
+    case '>=':
+      return (rate) => rate >= threshold;
+    case '<':
+      return (rate) => rate < threshold;
+    case '<=':
+      return (rate) => rate <= threshold;
+    default:
+      return (rate) => Math.abs(rate - threshold) < 0.005;
+  }
+};
+
+export const parseFieldQuery = (input: string): FieldQuery => {
+  const query: FieldQuery = { terms: [], errors: [], needsUsage: false };
+  for (const token of tokenizeQuery(input)) {
+    const negated = token.startsWith('-') && token.length > 1;
+    const body = negated ? token.slice(1) : token;
+    const separator = body.indexOf(':');
+    const key = separator > 0 ? body.slice(0, separator).toLowerCase() : '';
+    const value = separator > 0 ? body.slice(separator + 1) : body;
+    const fail = (message: string) => query.errors.push({ token, message });
+
+    if (!key || body.startsWith('/') || body.startsWith('"')) {
+      const match = buildMatcher(body);
+      if (typeof match === 'string') {
+        fail(match);
+      } else {
+        query.terms.push({ key: 'text', negated, match });
+      }
+      continue;
+    }
+    if (key === 'table' || key === 'name' || key === 'type') {
+      const match = buildMatcher(value);
+      if (typeof match === 'string') {
+        fail(match);
+      } else {
+        query.terms.push({ key, negated, match });
+      }
+      continue;
+    }
+    if (key === 'primary') {
+      if (value !== 'true' && value !== 'false') {
+        fail('primary 只能是 true 或 false');
+      } else {
+        query.terms.push({ key, negated, primary: value === 'true' });
+      }
+      continue;
+    }
+    if (key === 'empty' || key === 'fill') {
+      const compare = buildRateCompare(value);
+      if (typeof compare === 'string') {
+        fail(compare);
+      } else {
+        query.terms.push({ key, negated, compare });
+        query.needsUsage = true;
+      }
+      continue;
+    }
+    fail(`不认识的条件「${key}:」`);
+  }
+  return query;
+};
+
+const typeTexts = (type: FieldType) => [
+  (fieldTypeNames[type] ?? '').toLowerCase(),
+  getFieldTypeLabel(type),
+];
+
+/** 只看表名的条件；表名不满足时整张表都不显示 */
+const isTableTerm = (term: QueryTerm) => term.key === 'table';
+
+const testTerm = (
+  term: QueryTerm,
+  tableName: string,
+  field: IFieldMeta | null,
+  usage: FieldUsage | undefined,
+): boolean => {
+  let result: boolean;
+  switch (term.key) {
+    case 'table':
+      result = term.match(tableName);
+      break;
+    case 'text':
+      result =
+        term.match(tableName) || (!!field && term.match(field.name ?? ''));
+      break;
+    case 'name':
+      result = !!field && term.match(field.name ?? '');
+      break;
+    case 'type':
+      result = !!field && typeTexts(field.type).some(term.match);
+      break;
+    case 'primary':
+      result = !!field && !!field.isPrimary === term.primary;
+      break;
+    default:
+      // 还没扫描用量的字段一律不命中，取反也不命中，免得误选
+      if (!usage) {
+        return false;
+      }
+      result = term.compare(
+        term.key === 'fill' ? usage.fillRate : 1 - usage.fillRate,
+      );
+  }
+  return term.negated ? !result : result;
+};
+
+export type QueryMatch = {
+  /** 表名满足全部条件，可整表勾选 */
+  tableMatches: boolean;
+  visibleFields: IFieldMeta[];
+  shouldDisplay: boolean;
+};
+
+/**
+ * 对一张表求值：表级条件只看表名；其余条件逐字段判断。
+ * 只有纯关键字 / table: 条件且表名全部命中时才算整表命中，
+ * 这样「全选表」与「全选字段」作用的正是查询结果。
+ */
+export const matchTable = (
+  query: FieldQuery,
+  meta: ITableMeta,
+  fields: IFieldMeta[],
+  usage: Record<string, FieldUsage> = {},
+): QueryMatch => {
+  const tableName = meta.name ?? '无名表';
+  const tableTerms = query.terms.filter(isTableTerm);
+  const fieldTerms = query.terms.filter((term) => !isTableTerm(term));
+  if (!tableTerms.every((term) => testTerm(term, tableName, null, undefined))) {
+    return { tableMatches: false, visibleFields: [], shouldDisplay: false };
+  }
+  const tableMatches = fieldTerms.every(
+    (term) => term.key === 'text' && testTerm(term, tableName, null, undefined),
+  );
+  const visibleFields =
+    fieldTerms.length === 0
+      ? fields
+      : fields.filter((field) =>
+          fieldTerms.every((term) =>
+            testTerm(term, tableName, field, usage[field.id]),
+          ),
+        );
+  return {
+    tableMatches,
+    visibleFields,
+    shouldDisplay: tableMatches || visibleFields.length > 0,
+  };
+};
+
+export type QuerySuggestion = {
+  value: string;
+  label: string;
+};
+
+const quoteIfNeeded = (value: string) =>
+  /\s/.test(value) ? `"${value}"` : value;
+
+/** 根据正在输入的最后一个词给出补全，value 是替换后的完整查询 */
+export const suggestQuery = (
+  input: string,
+  tableNames: string[],
+): QuerySuggestion[] => {
+  const head = /\s$/.test(input) ? input : input.replace(/\S+$/, '');
+  const last = input.slice(head.length);
+  const negated = last.startsWith('-');
+  const body = negated ? last.slice(1) : last;
+  const prefix = `${head}${negated ? '-' : ''}`;
+  const separator = body.indexOf(':');
+
+  if (separator < 0) {
+    const typed = body.toLowerCase();
+    return QUERY_KEYS.filter(({ key }) => key.startsWith(typed)).map(
+      ({ key, hint }) => ({
+        value: `${prefix}${key}:`,
+        label: `${key}: ${hint}`,
+      }),
+    );
+  }
+  const key = body.slice(0, separator).toLowerCase();
+  const typed = body.slice(separator + 1).toLowerCase();
+  let values: string[] = [];
+  if (key === 'type') {
+    values = Object.keys(FIELD_TYPE_LABELS)
+      .map((type) => (fieldTypeNames[Number(type)] ?? '').toLowerCase())
+      .filter(Boolean);
+  } else if (key === 'table') {
+    values = tableNames.map(quoteIfNeeded);
+  } else if (key === 'primary') {
+    values = ['true', 'false'];
+  } else if (key === 'empty') {
+    values = ['>90%', '>50%', '=100%'];
+  } else if (key === 'fill') {
+    values = ['<10%', '<50%', '=0%'];
+  }
+  return values
+    .filter((value) => value.toLowerCase().includes(typed) && value !== typed)
+    .slice(0, 12)
+    .map((value) => ({
+      value: `${prefix}${key}:${value} `,
+      label: `${key}:${value}`,
+    }));
+};
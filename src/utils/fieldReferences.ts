@@ -0,0 +1,127 @@
+import { FieldType } from '@lark-base-open/js-sdk';
+
+/** 公式里引用表 / 字段时写的是 ID，形如 bitable::$table[tblxxx].$field[fldxxx] */
+const TABLE_ID_PATTERN = /\btbl[0-9A-Za-z]+\b/g;
+const FIELD_ID_PATTERN = /\bfld[0-9A-Za-z]+\b/g;
+
+/** 属性里引用了其他表或字段的类型，回滚时需要等依赖就位后再重建 */
+export const RELATIONAL_FIELD_TYPES: Set<FieldType> = new Set([
+  FieldType.SingleLink,
+  FieldType.DuplexLink,
+  FieldType.Lookup,
+  FieldType.Formula,
+]);
+
+export type RelationalFieldType =
+  | FieldType.SingleLink
+  | FieldType.DuplexLink
+  | FieldType.Lookup
+  | FieldType.Formula;
+
+export const isRelationalFieldType = (
+  type: FieldType,
+): type is RelationalFieldType => RELATIONAL_FIELD_TYPES.has(type);
+
+export type FieldReferences = {
+  tableIds: string[];
+  fieldIds: string[];
+};
+
+const unique = (items: string[]) => Array.from(new Set(items));
+
+export const getFormulaExpression = (property: unknown): string => {
+  const formula = (property as { formula?: unknown } | null)?.formula;
+  return typeof formula === 'string' ? formula : '';
+};
+
+/** 读出字段属性中引用到的表 ID 与字段 ID */
+export const extractFieldReferences = (
+  type: FieldType,
+  property: unknown,
+): FieldReferences => {
+  const value = (property ?? {}) as Record<string, unknown>;
+  switch (type) {
+    case FieldType.SingleLink:
+    case FieldType.DuplexLink:
+      return {
+        tableIds: typeof value.tableId === 'string' ? [value.tableId] : [],
+        fieldIds: [],
+      };
+    case FieldType.Lookup:
+      return {
+        tableIds:
+          typeof value.refTableId === 'string' ? [value.refTableId] : [],
+        fieldIds:
+          typeof value.refFieldId === 'string' ? [value.refFieldId] : [],
+      };
+    case FieldType.Formula: {
+      const expression = getFormulaExpression(property);
+      return {
+        tableIds: unique(expression.match(TABLE_ID_PATTERN) ?? []),
+        fieldIds: unique(expression.match(FIELD_ID_PATTERN) ?? []),
+      };
+    }
+    default:
+      return { tableIds: [], fieldIds: [] };
+  }
+};
+
+export type RemapResult = {
+  property: unknown;
+  /** 映射不到新 ID 的引用，交给调用方决定如何报告 */
+  unresolved: string[];
+};
+
+/**
+ * 把属性里的旧表 / 旧字段 ID 换成重建后的新 ID。
+ * resolve 返回 undefined 表示找不到对应的新 ID。
+ */
+export const remapFieldProperty = (
+  type: FieldType,
+  property: unknown,
+  resolveTable: (tableId: string) => string | undefined,
+  resolveField: (fieldId: string) => string | undefined,
+): RemapResult => {
+  const unresolved: string[] = [];
+  const mapTable = (tableId: string) => {
+    const next = resolveTable(tableId);
+    if (!next) {
+      unresolved.push(tableId);
+    }
+    return next ?? tableId;
+  };
+  const mapField = (fieldId: string) => {
+    const next = resolveField(fieldId);
+    if (!next) {
+      unresolved.push(fieldId);
+    }
+    return next ?? fieldId;
+  };
+  const value = { ...((property ?? {}) as Record<string, unknown>) };
+
+  switch (type) {
+    case FieldType.SingleLink:
+    case FieldType.DuplexLink:
+      if (typeof value.tableId === 'string') {
+        value.tableId = mapTable(value.tableId);
+      }
+      // 双向关联的对端字段由宿主自动生成，不能指定
+      delete value.backFieldId;
+      return { property: value, unresolved };
+    case FieldType.Lookup:
+      if (typeof value.refTableId === 'string') {
+        value.refTableId = mapTable(value.refTableId);
+      }
+      if (typeof value.refFieldId === 'string') {
+        value.refFieldId = mapField(value.refFieldId);
+      }
+      return { property: value, unresolved };
+    case FieldType.Formula:
+      value.formula = getFormulaExpression(property)
+        .replace(TABLE_ID_PATTERN, mapTable)
+        .replace(FIELD_ID_PATTERN, mapField);
+      return { property: value, unresolved };
+    default:
+      return { property, unresolved };
+  }
+};
@@ -0,0 +1,57 @@
+import { FieldType, IFieldConfig } from '@lark-base-open/js-sdk';
+
+const fieldTypeDictionary = FieldType as unknown as Record<number, string>;
+
+export const FIELD_TYPE_LABELS: Partial<Record<FieldType, string>> = {
+  [FieldType.Text]: '文本',
+  [FieldType.Number]: '数字',
+  [FieldType.SingleSelect]: '单选',
+  [FieldType.MultiSelect]: '多选',
+  [FieldType.DateTime]: '日期 / 时间',
+  [FieldType.Checkbox]: '勾选',
+  [FieldType.User]: '成员',
+  [FieldType.Phone]: '手机号',
+  [FieldType.Url]: '链接',
+  [FieldType.Attachment]: '附件',
+  [FieldType.SingleLink]: '关联（单向）',
+  [FieldType.DuplexLink]: '关联（双向）',
+  [FieldType.Lookup]: '回填',
+  [FieldType.Formula]: '公式',
+  [FieldType.Location]: '地理位置',
+  [FieldType.GroupChat]: '群聊',
+  [FieldType.Object]: '对象',
+  [FieldType.Progress]: '进度',
+  [FieldType.Currency]: '金额',
+  [FieldType.Rating]: '评分',
+  [FieldType.Email]: '邮箱',
+  [FieldType.CreatedTime]: '创建时间',
+  [FieldType.ModifiedTime]: '更新时间',
+  [FieldType.CreatedUser]: '创建人',
+  [FieldType.ModifiedUser]: '更新人',
+  [FieldType.AutoNumber]: '自动编号',
+  [FieldType.Barcode]: '条码 / 二维码',
+  [FieldType.NotSupport]: '暂不支持',
+  [FieldType.Denied]: '无权限',
+};
+
+export const getFieldTypeLabel = (type: FieldType): string => {
+  return (
+    FIELD_TYPE_LABELS[type] ??
+    fieldTypeDictionary[type] ??
+    `类型 ${type}`
+  );
+};
+
+export type FieldConfigOf<T extends FieldType> = Extract<
+  IFieldConfig,
+  { type: T }
+>;
+
+/**
+ * 快照里的 property 是从字段 meta 原样存下的，结构跟着同一字段的 type 走，
+ * 只是落盘后成了 unknown；按 type 取出对应的配置类型，在这一处把 property 认作它的属性。
+ */
+export const toFieldConfig = <T extends FieldType>(
+  type: T,
+  rest: { name?: string; property?: unknown } = {},
+) => ({ type, ...rest } as FieldConfigOf<T>);
@@ -0,0 +1,198 @@
+import {
+  bitable,
+  FieldType,
+  IOpenCellValue,
+  IRecord,
+} from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../types';
+import { stableStringify } from './format';
+import { forEachRecordPage } from './recordBackup';
+
+/** 不同值超过这个数就不再累计，只显示“N+”，避免超大表撑爆内存 */
+export const DISTINCT_VALUE_CAP = 5000;
+
+export type FieldUsage = {
+  filled: number;
+  total: number;
+  /** 0~1，空表记为 0 */
+  fillRate: number;
+  distinct: number;
+  distinctCapped: boolean;
+  /**
+   * 该字段有值的记录里最近一次修改时间（毫秒）。
+   * SDK 不提供单元格级的修改时间，只能借表里的「最后更新时间」字段按记录估算，没有则为 null。
+   */
+  lastModified: number | null;
+};
+
+/** tableId -> fieldId -> 统计结果，与 selectedFields 的结构一致 */
+export type FieldUsageMap = Record<string, Record<string, FieldUsage>>;
+
+export type UsageScanProgress = {
+  tableName: string;
+  tableIndex: number;
+  tableCount: number;
+  done: number;
+  total: number;
+  cancelling: boolean;
+};
+
+export type UsageSort = 'default' | 'fillRate' | 'distinct' | 'lastModified';
+
+export const USAGE_SORT_OPTIONS: { value: UsageSort; label: string }[] = [
+  { value: 'default', label: '默认顺序' },
+  { value: 'fillRate', label: '填充率从低到高' },
+  { value: 'distinct', label: '不同值从少到多' },
+  { value: 'lastModified', label: '最久没人动的在前' },
+];
+
+export const isEmptyCell = (value: IOpenCellValue | undefined) => {
+  if (value === null || value === undefined || value === false) {
+    return true;
+  }
+  if (typeof value === 'string') {
+    return value.trim().length === 0;
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  return false;
+};
+
+type FieldAccumulator = {
+  filled: number;
+  values: Set<string>;
+  capped: boolean;
+  lastModified: number | null;
+};
+
+const getRecordModifiedTime = (record: IRecord, fieldIds: string[]) => {
+  let latest: number | null = null;
+  for (const fieldId of fieldIds) {
+    const value = record.fields[fieldId];
+    if (typeof value === 'number' && (latest === null || value > latest)) {
+      latest = value;
+    }
+  }
+  return latest;
+};
+
+/** 逐张表分页读记录并统计每个字段的填充率、不同值与最近修改时间 */
+export const scanFieldUsage = async (
+  bundles: TableBundle[],
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (progress: UsageScanProgress) => void;
+    /** 每扫完一张表回调一次，界面可以边扫边显示 */
+    onTableScanned?: (tableId: string, usage: Record<string, FieldUsage>) => void;
+  } = {},
+) => {
+  const { signal } = options;
+  for (const [tableIndex, bundle] of bundles.entries()) {
+    if (signal?.aborted) {
+      return;
+    }
+    const tableName = bundle.meta.name ?? '无名表';
+    const table = await bitable.base.getTableById(bundle.meta.id);
+    const modifiedTimeFieldIds = bundle.fields
+      .filter((field) => field.type === FieldType.ModifiedTime)
+      .map((field) => field.id);
+    const accumulators = new Map<string, FieldAccumulator>(
+      bundle.fields.map((field) => [
+        field.id,
+        { filled: 0, values: new Set(), capped: false, lastModified: null },
+      ]),
+    );
+    let done = 0;
+    let total = 0;
+    const report = () =>
+      options.onProgress?.({
+        tableName,
+        tableIndex,
+        tableCount: bundles.length,
+        done,
+        total,
+        cancelling: !!signal?.aborted,
+      });
+    report();
+
+    await forEachRecordPage(table, (records, pageTotal) => {
+      if (signal?.aborted) {
+        // 抛出去打断分页，已扫完的表照样保留
+        throw new DOMException('扫描已取消', 'AbortError');
+      }
+      total = pageTotal;
+      for (const record of records) {
+        const modifiedAt = getRecordModifiedTime(record, modifiedTimeFieldIds);
+        for (const [fieldId, accumulator] of accumulators) {
+          const value = record.fields[fieldId];
+          if (isEmptyCell(value)) {
+            continue;
+          }
+          accumulator.filled += 1;
+          if (!accumulator.capped) {
+            accumulator.values.add(stableStringify(value));
+            if (accumulator.values.size >= DISTINCT_VALUE_CAP) {
+              accumulator.capped = true;
+            }
+          }
+          if (
+            modifiedAt !== null &&
+            (accumulator.lastModified === null ||
+              modifiedAt > accumulator.lastModified)
+          ) {
+            accumulator.lastModified = modifiedAt;
+          }
+        }
+      }
+      done += records.length;
+      report();
+    }).catch((error) => {
+      if (signal?.aborted) {
+        return;
+      }
+      throw error;
+    });
+    if (signal?.aborted) {
+      return;
+    }
+
+    const usage: Record<string, FieldUsage> = {};
+    for (const [fieldId, accumulator] of accumulators) {
+      usage[fieldId] = {
+        filled: accumulator.filled,
+        total: done,
+        fillRate: done > 0 ? accumulator.filled / done : 0,
+        distinct: accumulator.values.size,
+        distinctCapped: accumulator.capped,
+        lastModified: accumulator.lastModified,
+      };
+    }
+    options.onTableScanned?.(bundle.meta.id, usage);
+  }
+};
+
+/** 没扫到的字段排在最后，其余按所选指标升序 */
+export const compareFieldUsage = (
+  sort: UsageSort,
+  a: FieldUsage | undefined,
+  b: FieldUsage | undefined,
+) => {
+  if (sort === 'default' || (!a && !b)) {
+    return 0;
+  }
+  if (!a || !b) {
+    return a ? -1 : 1;
+  }
+  if (sort === 'fillRate') {
+    return a.fillRate - b.fillRate;
+  }
+  if (sort === 'distinct') {
+    return a.distinct - b.distinct;
+  }
+  // 从没改过或取不到时间的视为最旧
+  return (a.lastModified ?? 0) - (b.lastModified ?? 0);
+};
+
+export const formatFillRate = (usage: FieldUsage) =>
+  `${Math.round(usage.fillRate * 100)}%`;
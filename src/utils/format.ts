@@ -0,0 +1,39 @@
+export const cloneJson = <T,>(value: T | undefined): T | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch (error) {
+    console.warn('Failed to clone field property', error);
+    return value;
+  }
+};
+
+export const formatTimestamp = (input: string) => {
+  try {
+    return new Date(input).toLocaleString();
+  } catch {
+    return input;
+  }
+};
+
+/** 键排序后的 JSON，保证同一份快照无论字段顺序如何都得到相同校验和 */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key],
+          )}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
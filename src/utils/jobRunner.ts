@@ -0,0 +1,198 @@
+/** 批量操作的一项任务，run 失败时按 isRetryable 判断是否重试 */
+export type JobTask = {
+  key: string;
+  label: string;
+  run: () => Promise<void>;
+};
+
+export type JobTaskStatus = 'done' | 'failed' | 'cancelled';
+
+export type JobTaskResult = {
+  key: string;
+  label: string;
+  status: JobTaskStatus;
+  attempts: number;
+  error?: string;
+};
+
+export type JobProgress = {
+  title: string;
+  total: number;
+  done: number;
+  failed: number;
+  /** 正在执行的任务名，并发时可能有多个 */
+  running: string[];
+  cancelling: boolean;
+};
+
+export type JobResult = {
+  results: JobTaskResult[];
+  cancelled: boolean;
+  done: number;
+  failed: number;
+};
+
+export type JobOptions = {
+  title: string;
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  isRetryable?: (error: unknown) => boolean;
+  onProgress?: (progress: JobProgress) => void;
+  /** 每项任务有结果时回调，便于调用方逐项记账 */
+  onTaskSettled?: (result: JobTaskResult) => void;
+  /** abort 后不再领取新任务，正在执行的任务跑完当前这一项即停 */
+  signal?: AbortSignal;
+};
+
+export const DEFAULT_JOB_CONCURRENCY = 3;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+
+const RETRYABLE_MESSAGE_PATTERN =
+  /rate limit|too many|429|timeout|timed out|network|ECONNRESET|busy|conflict|频繁|限流|超时|繁忙|冲突/i;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error ?? '未知错误');
+
+/** 限流、超时、网络抖动与写冲突值得重试；权限、参数错误重试也没用 */
+export const isRetryableError = (error: unknown) => {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (code === 429) {
+    return true;
+  }
+  return RETRYABLE_MESSAGE_PATTERN.test(errorMessage(error));
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', finish);
+      resolve();
+    };
+    const timer = setTimeout(finish, ms);
+    signal?.addEventListener('abort', finish);
+  });
+
+/**
+ * 以有限并发执行一批任务：可重试的错误按指数退避重试，
+ * 每完成一项都回调进度，取消后跑完手上的任务就收工。
+ */
+export const runJob = async (
+  tasks: JobTask[],
+  options: JobOptions,
+): Promise<JobResult> => {
+  const concurrency = Math.max(
+    1,
+    options.concurrency ?? DEFAULT_JOB_CONCURRENCY,
+  );
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const isRetryable = options.isRetryable ?? isRetryableError;
+  const { signal } = options;
+
+  const results: JobTaskResult[] = new Array(tasks.length);
+  const running = new Map<string, string>();
+  let cursor = 0;
+  let done = 0;
+  let failed = 0;
+
+  const report = () =>
+    options.onProgress?.({
+      title: options.title,
+      total: tasks.length,
+      done,
+      failed,
+      running: Array.from(running.values()),
+      cancelling: !!signal?.aborted,
+    });
+
+  const runTask = async (task: JobTask): Promise<JobTaskResult> => {
+    let attempts = 0;
+    for (;;) {
+      attempts += 1;
+      try {
+        await task.run();
+        return { key: task.key, label: task.label, status: 'done', attempts };
+      } catch (error) {
+        const retry =
+          attempts <= maxRetries && !signal?.aborted && isRetryable(error);
+        if (!retry) {
+          console.error(error);
+          return {
+            key: task.key,
+            label: task.label,
+            status: 'failed',
+            attempts,
+            error: errorMessage(error),
+          };
+        }
+        // 500ms、1s、2s… 加一点抖动，避免并发任务同时撞上限流
+        const delay = baseDelayMs * 2 ** (attempts - 1);
+        await wait(delay + Math.random() * delay * 0.2, signal);
+        if (signal?.aborted) {
+          return {
+            key: task.key,
+            label: task.label,
+            status: 'cancelled',
+            attempts,
+            error: errorMessage(error),
+          };
+        }
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (cursor < tasks.length && !signal?.aborted) {
+      const index = cursor;
+      cursor += 1;
+      const task = tasks[index];
+      running.set(task.key, task.label);
+      report();
+      const result = await runTask(task);
+      running.delete(task.key);
+      results[index] = result;
+      options.onTaskSettled?.(result);
+      if (result.status === 'done') {
+        done += 1;
+      } else if (result.status === 'failed') {
+        failed += 1;
+      }
+      report();
+    }
+  };
+
+  const onAbort = () => report();
+  signal?.addEventListener('abort', onAbort);
+  try {
+    report();
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, tasks.length) }, worker),
+    );
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  tasks.forEach((task, index) => {
+    if (!results[index]) {
+      results[index] = {
+        key: task.key,
+        label: task.label,
+        status: 'cancelled',
+        attempts: 0,
+      };
+    }
+  });
+  return {
+    results,
+    cancelled: !!signal?.aborted,
+    done,
+    failed,
+  };
+};
@@ -0,0 +1,145 @@
+import { downloadTextFile } from './download';
+
+export type ReportOperation =
+  | 'deleteTable'
+  | 'deleteField'
+  | 'deleteRecords'
+  | 'clearValues'
+  | 'recreateTable'
+  | 'restoreField'
+  | 'restoreRecords'
+  | 'renameTable'
+  | 'renameField'
+  | 'deleteView'
+  | 'restoreView'
+  | 'updateField';
+
+export type ReportStatus = 'success' | 'skipped' | 'failed';
+
+export const REPORT_OPERATION_LABELS: Record<ReportOperation, string> = {
+  deleteTable: '删除表',
+  deleteField: '删除字段',
+  deleteRecords: '删除记录',
+  clearValues: '清空字段值',
+  recreateTable: '重建表',
+  restoreField: '恢复字段',
+  restoreRecords: '写回记录',
+  renameTable: '表改名',
+  renameField: '字段改名',
+  deleteView: '删除视图',
+  restoreView: '重建视图',
+  updateField: '修改字段',
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  success: '成功',
+  skipped: '跳过',
+  failed: '失败',
+};
+
+/**
+ * 单项操作的结果。回滚类操作里 tableId / fieldId 指快照中的原 ID，
+ * 这样“重试失败项”可以直接按 ID 从快照里挑出目标。
+ */
+export type ReportItem = {
+  operation: ReportOperation;
+  status: ReportStatus;
+  tableId?: string;
+  tableName: string;
+  fieldId?: string;
+  fieldName?: string;
+  /** 跳过原因或补充说明 */
+  message?: string;
+  /** SDK 抛出的原始错误信息 */
+  error?: string;
+};
+
+export type ReportKind = 'delete' | 'rollback' | 'rename' | 'convert';
+
+export type OperationReport = {
+  id: string;
+  kind: ReportKind;
+  title: string;
+  createdAt: string;
+  /** 回滚报告对应的快照，重试时要用 */
+  snapshotId?: string;
+  items: ReportItem[];
+};
+
+export const createReport = (
+  kind: ReportKind,
+  title: string,
+  items: ReportItem[],
+  snapshotId?: string,
+): OperationReport => ({
+  id: `report_${Date.now().toString(36)}`,
+  kind,
+  title,
+  createdAt: new Date().toISOString(),
+  snapshotId,
+  items,
+});
+
+export const countReport = (report: OperationReport) => {
+  const counts: Record<ReportStatus, number> = {
+    success: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  for (const item of report.items) {
+    counts[item.status] += 1;
+  }
+  return counts;
+};
+
+const RETRYABLE_OPERATIONS: Set<ReportOperation> = new Set([
+  'deleteTable',
+  'deleteField',
+  'recreateTable',
+  'restoreField',
+]);
+
+/** 能按 ID 重新执行的失败项；记录写回、改名等需要人工判断的不算 */
+export const getRetryableItems = (report: OperationReport) =>
+  report.items.filter(
+    (item) =>
+      item.status === 'failed' &&
+      !!item.tableId &&
+      RETRYABLE_OPERATIONS.has(item.operation),
+  );
+
+const CSV_COLUMNS: { title: string; value: (item: ReportItem) => string }[] = [
+  { title: '操作', value: (item) => REPORT_OPERATION_LABELS[item.operation] },
+  { title: '结果', value: (item) => REPORT_STATUS_LABELS[item.status] },
+  { title: '表 ID', value: (item) => item.tableId ?? '' },
+  { title: '表名', value: (item) => item.tableName },
+  { title: '字段 ID', value: (item) => item.fieldId ?? '' },
+  { title: '字段名', value: (item) => item.fieldName ?? '' },
+  { title: '说明', value: (item) => item.message ?? '' },
+  { title: 'SDK 错误', value: (item) => item.error ?? '' },
+];
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const reportToCsv = (items: ReportItem[]) =>
+  [
+    CSV_COLUMNS.map((column) => column.title),
+    ...items.map((item) => CSV_COLUMNS.map((column) => column.value(item))),
+  ]
+    .map((row) => row.map(escapeCsv).join(','))
+    .join('\r\n');
+
+export const downloadReport = (
+  report: OperationReport,
+  format: 'json' | 'csv',
+) => {
+  const stamp = report.createdAt.replace(/[:.]/g, '-');
+  const name = `bulkdel-report_${report.kind}_${stamp}.${format}`;
+  if (format === 'json') {
+    downloadTextFile(name, JSON.stringify(report, null, 2), 'application/json');
+  } else {
+    // 带 BOM，Excel 打开中文不乱码
+    downloadTextFile(name, `\uFEFF${reportToCsv(report.items)}`, 'text/csv');
+  }
+};
@@ -0,0 +1,221 @@
+import { bitable, IFieldMeta } from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../types';
+import type { PlanItem } from './deletionPlan';
+
+export const LOCAL_STORAGE_PROTECTION_KEY = 'boom-table-shredder-protection';
+export const BRIDGE_PROTECTION_KEY = 'boom.table-shredder.protection.v1';
+
+/** 名称规则同时作用于表名和字段名：`tmp_*` 这样的通配符，或 `/…/` 正则 */
+export type ProtectionRule =
+  | { id: string; kind: 'table'; tableId: string; tableName: string }
+  | {
+      id: string;
+      kind: 'field';
+      tableId: string;
+      tableName: string;
+      fieldId: string;
+      fieldName: string;
+    }
+  | { id: string; kind: 'pattern'; pattern: string };
+
+export type ProtectionList = {
+  version: 1;
+  rules: ProtectionRule[];
+  updatedAt?: string;
+};
+
+export type ProtectionGuard = {
+  tableRule: (tableId: string, tableName: string) => ProtectionRule | null;
+  /** 所在表受保护时，表里的字段也一并受保护 */
+  fieldRule: (
+    tableId: string,
+    tableName: string,
+    fieldId: string,
+    fieldName: string,
+  ) => ProtectionRule | null;
+};
+
+export const createEmptyProtectionList = (): ProtectionList => ({
+  version: 1,
+  rules: [],
+});
+
+export const createRuleId = () =>
+  `protect_${Date.now().toString(36)}_${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+
+const compilePattern = (pattern: string): RegExp => {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    return new RegExp(regex[1], regex[2] || 'i');
+  }
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+};
+
+/** 返回错误说明，合法时为 null */
+export const validatePattern = (pattern: string): string | null => {
+  if (!pattern.trim()) {
+    return '规则不能为空';
+  }
+  try {
+    compilePattern(pattern.trim());
+    return null;
+  } catch (error) {
+    return `正则写错了：${(error as Error).message}`;
+  }
+};
+
+export const describeRule = (rule: ProtectionRule) => {
+  if (rule.kind === 'table') {
+    return `整表「${rule.tableName}」`;
+  }
+  if (rule.kind === 'field') {
+    return `字段「${rule.tableName} / ${rule.fieldName}」`;
+  }
+  return `名称规则 ${rule.pattern}`;
+};
+
+export const createProtectionGuard = (list: ProtectionList): ProtectionGuard => {
+  const patterns = list.rules.flatMap((rule) => {
+    if (rule.kind !== 'pattern') {
+      return [];
+    }
+    try {
+      return [{ rule, regex: compilePattern(rule.pattern) }];
+    } catch (error) {
+      console.warn('保护规则无效，已忽略', rule.pattern, error);
+      return [];
+    }
+  });
+  const tables = new Map<string, ProtectionRule>();
+  const fields = new Map<string, ProtectionRule>();
+  for (const rule of list.rules) {
+    if (rule.kind === 'table') {
+      tables.set(rule.tableId, rule);
+    } else if (rule.kind === 'field') {
+      fields.set(`${rule.tableId}:${rule.fieldId}`, rule);
+    }
+  }
+  const matchPattern = (name: string) =>
+    patterns.find(({ regex }) => regex.test(name))?.rule ?? null;
+  const tableRule = (tableId: string, tableName: string) =>
+    tables.get(tableId) ?? matchPattern(tableName);
+  return {
+    tableRule,
+    fieldRule: (tableId, tableName, fieldId, fieldName) =>
+      fields.get(`${tableId}:${fieldId}`) ??
+      tableRule(tableId, tableName) ??
+      matchPattern(fieldName),
+  };
+};
+
+/** 删整表会连带表里所有字段，任一字段命中字段规则或名称规则，整表也算受保护 */
+export const getTableContentRule = (
+  guard: ProtectionGuard,
+  tableId: string,
+  tableName: string,
+  fields: IFieldMeta[],
+) =>
+  guard.tableRule(tableId, tableName) ??
+  fields
+    .map((field) =>
+      guard.fieldRule(tableId, tableName, field.id, field.name || '无名字段'),
+    )
+    .find((rule): rule is ProtectionRule => rule !== null) ??
+  null;
+
+/** bundles 给出当前表结构，整表条目据此检查表里的字段；隔离区的条目也走这里 */
+export const getPlanItemRule = (
+  guard: ProtectionGuard,
+  item: Pick<
+    PlanItem,
+    'kind' | 'tableId' | 'tableName' | 'fieldId' | 'fieldName'
+  >,
+  bundles: TableBundle[],
+) =>
+  item.kind === 'table'
+    ? getTableContentRule(
+        guard,
+        item.tableId,
+        item.tableName,
+        bundles.find((bundle) => bundle.meta.id === item.tableId)?.fields ??
+          [],
+      )
+    : guard.fieldRule(
+        item.tableId,
+        item.tableName,
+        item.fieldId ?? '',
+        item.fieldName ?? '',
+      );
+
+const normalizeProtectionList = (raw: unknown): ProtectionList | null => {
+  const value = raw as Partial<ProtectionList> | null;
+  if (!value || value.version !== 1 || !Array.isArray(value.rules)) {
+    return null;
+  }
+  return {
+    version: 1,
+    updatedAt: value.updatedAt,
+    rules: value.rules.filter(
+      (rule): rule is ProtectionRule =>
+        !!rule &&
+        typeof rule.id === 'string' &&
+        (rule.kind === 'table' ||
+          rule.kind === 'field' ||
+          (rule.kind === 'pattern' && typeof rule.pattern === 'string')),
+    ),
+  };
+};
+
+/** 保护名单存进 bridge，所有协作者看到的是同一份 */
+export const loadPersistedProtection = async (): Promise<ProtectionList | null> => {
+  const bridge = bitable?.bridge as any;
+  if (bridge && typeof bridge.getData === 'function') {
+    try {
+      const stored = normalizeProtectionList(
+        await bridge.getData?.(BRIDGE_PROTECTION_KEY),
+      );
+      // 别的 Base 的规则存在同一份本地缓存里，bridge 可用时不读它
+      return stored;
+    } catch (error) {
+      console.warn('读取 bridge 保护名单失败', error);
+    }
+  }
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const raw = window.localStorage.getItem(LOCAL_STORAGE_PROTECTION_KEY);
+    return raw ? normalizeProtectionList(JSON.parse(raw)) : null;
+  } catch (error) {
+    console.error('读取保护名单缓存失败', error);
+    return null;
+  }
+};
+
+export const persistProtection = async (list: ProtectionList) => {
+  if (typeof window !== 'undefined') {
+    try {
+      window.localStorage.setItem(
+        LOCAL_STORAGE_PROTECTION_KEY,
+        JSON.stringify(list),
+      );
+    } catch (error) {
+      console.error('写入保护名单缓存失败', error);
+    }
+  }
+  const bridge = bitable?.bridge as any;
+  if (!bridge || typeof bridge.setData !== 'function') {
+    return;
+  }
+  try {
+    await bridge.setData?.(BRIDGE_PROTECTION_KEY, list);
+  } catch (error) {
+    console.warn('写入 bridge 保护名单失败', error);
+  }
+};
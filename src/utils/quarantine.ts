@@ -0,0 +1,221 @@
+import { bitable } from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../types';
+import type { RecipeItem } from './cleanupRecipes';
+
+export const LOCAL_STORAGE_QUARANTINE_KEY = 'boom-table-shredder-quarantine';
+export const BRIDGE_QUARANTINE_KEY = 'boom.table-shredder.quarantine.v1';
+
+/** 隔离时加在表名 / 字段名前面的标记，恢复时去掉 */
+export const QUARANTINE_PREFIX = '[隔离]';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** tableName / fieldName 记的是隔离前的原名 */
+export type QuarantineEntry = RecipeItem & {
+  id: string;
+  quarantinedAt: string;
+  /** 隔离时字段原本可见、被我们隐藏掉的视图，恢复时只把这些重新显示 */
+  hiddenViewIds: string[];
+};
+
+export type QuarantineList = {
+  version: 1;
+  entries: QuarantineEntry[];
+};
+
+export const createEmptyQuarantineList = (): QuarantineList => ({
+  version: 1,
+  entries: [],
+});
+
+export const quarantineItemKey = (tableId: string, fieldId?: string) =>
+  fieldId ? `${tableId}:${fieldId}` : tableId;
+
+export const getQuarantineAgeDays = (
+  entry: QuarantineEntry,
+  now = Date.now(),
+) =>
+  Math.floor((now - new Date(entry.quarantinedAt).getTime()) / DAY_MS);
+
+export const getEntriesOlderThan = (list: QuarantineList, days: number) =>
+  list.entries.filter((entry) => getQuarantineAgeDays(entry) >= days);
+
+export const describeQuarantineItem = (item: RecipeItem) =>
+  item.kind === 'table'
+    ? item.tableName
+    : `${item.tableName} / ${item.fieldName ?? ''}`;
+
+const markName = (name: string) =>
+  name.startsWith(QUARANTINE_PREFIX) ? name : `${QUARANTINE_PREFIX}${name}`;
+
+/** 把字段改名并在所有视图里隐藏；索引列没法隐藏，直接拒绝 */
+const quarantineField = async (item: RecipeItem): Promise<string[]> => {
+  const table = await bitable.base.getTableById(item.tableId);
+  const meta = await table.getFieldMetaById(item.fieldId ?? '');
+  if (meta.isPrimary) {
+    throw new Error('索引列不能隔离');
+  }
+  const hiddenViewIds: string[] = [];
+  for (const view of await table.getViewList()) {
+    try {
+      const visible = await view.getVisibleFieldIdList();
+      if (visible.includes(meta.id)) {
+        await view.hideField(meta.id);
+        hiddenViewIds.push(view.id);
+      }
+    } catch (error) {
+      // 表单、甘特等视图不一定支持隐藏字段，跳过即可
+      console.warn('隐藏字段失败，已跳过该视图', view.id, error);
+    }
+  }
+  await table.setField(meta.id, { name: markName(meta.name) });
+  return hiddenViewIds;
+};
+
+/** 逐项隔离，失败的项带着原因返回，不影响其他项 */
+export const quarantineItems = async (
+  items: RecipeItem[],
+  onProgress?: (done: number, total: number) => void,
+) => {
+  const entries: QuarantineEntry[] = [];
+  const failed: { item: RecipeItem; error: string }[] = [];
+  for (const [index, item] of items.entries()) {
+    try {
+      let hiddenViewIds: string[] = [];
+      if (item.kind === 'table') {
+        await bitable.base.setTable(item.tableId, {
+          name: markName(item.tableName),
+        });
+      } else {
+        hiddenViewIds = await quarantineField(item);
+      }
+      entries.push({
+        ...item,
+        id: `quarantine_${Date.now().toString(36)}_${index}`,
+        quarantinedAt: new Date().toISOString(),
+        hiddenViewIds,
+      });
+    } catch (error) {
+      console.error('隔离失败', item, error);
+      failed.push({ item, error: (error as Error)?.message ?? String(error) });
+    }
+    onProgress?.(index + 1, items.length);
+  }
+  return { entries, failed };
+};
+
+/** 改回原名，并把隔离时隐藏的视图重新显示 */
+export const restoreQuarantineEntry = async (entry: QuarantineEntry) => {
+  if (entry.kind === 'table') {
+    await bitable.base.setTable(entry.tableId, { name: entry.tableName });
+    return;
+  }
+  const table = await bitable.base.getTableById(entry.tableId);
+  await table.setField(entry.fieldId ?? '', { name: entry.fieldName });
+  for (const viewId of entry.hiddenViewIds) {
+    try {
+      const view = await table.getViewById(viewId);
+      await view.showField(entry.fieldId ?? '');
+    } catch (error) {
+      console.warn('重新显示字段失败，视图可能已被删除', viewId, error);
+    }
+  }
+};
+
+/** 去掉表或字段已经不在 Base 里的条目（例如已被清除） */
+export const pruneQuarantine = (
+  list: QuarantineList,
+  bundles: TableBundle[],
+): QuarantineList => {
+  const entries = list.entries.filter((entry) => {
+    const bundle = bundles.find((item) => item.meta.id === entry.tableId);
+    return (
+      !!bundle &&
+      (entry.kind === 'table' ||
+        bundle.fields.some((field) => field.id === entry.fieldId))
+    );
+  });
+  return entries.length === list.entries.length ? list : { ...list, entries };
+};
+
+/** 清除时按勾选的结构组织，直接交给删除计划 */
+export const toDeletionSelection = (entries: QuarantineEntry[]) => {
+  const selectedTables: Record<string, boolean> = {};
+  const selectedFields: Record<string, Record<string, boolean>> = {};
+  for (const entry of entries) {
+    if (entry.kind === 'table') {
+      selectedTables[entry.tableId] = true;
+    } else if (entry.fieldId) {
+      selectedFields[entry.tableId] = {
+        ...selectedFields[entry.tableId],
+        [entry.fieldId]: true,
+      };
+    }
+  }
+  return { selectedTables, selectedFields };
+};
+
+const normalizeQuarantineList = (raw: unknown): QuarantineList | null => {
+  const value = raw as Partial<QuarantineList> | null;
+  if (!value || value.version !== 1 || !Array.isArray(value.entries)) {
+    return null;
+  }
+  return {
+    version: 1,
+    entries: value.entries.filter(
+      (entry): entry is QuarantineEntry =>
+        !!entry &&
+        typeof entry.id === 'string' &&
+        typeof entry.tableId === 'string' &&
+        typeof entry.quarantinedAt === 'string',
+    ),
+  };
+};
+
+/** 隔离清单存进 bridge，协作者都能看到、都能恢复 */
+export const loadPersistedQuarantine = async (): Promise<QuarantineList | null> => {
+  const bridge = bitable?.bridge as any;
+  if (bridge && typeof bridge.getData === 'function') {
+    try {
+      const stored = normalizeQuarantineList(
+        await bridge.getData?.(BRIDGE_QUARANTINE_KEY),
+      );
+      // 本地缓存里可能是别的 Base 的隔离条目，bridge 可用时只认 bridge
+      return stored;
+    } catch (error) {
+      console.warn('读取 bridge 隔离清单失败', error);
+    }
+  }
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const raw = window.localStorage.getItem(LOCAL_STORAGE_QUARANTINE_KEY);
+    return raw ? normalizeQuarantineList(JSON.parse(raw)) : null;
+  } catch (error) {
+    console.error('读取隔离清单缓存失败', error);
+    return null;
+  }
+};
+
+export const persistQuarantine = async (list: QuarantineList) => {
+  if (typeof window !== 'undefined') {
+    try {
+      window.localStorage.setItem(
+        LOCAL_STORAGE_QUARANTINE_KEY,
+        JSON.stringify(list),
+      );
+    } catch (error) {
+      console.error('写入隔离清单缓存失败', error);
+    }
+  }
+  const bridge = bitable?.bridge as any;
+  if (!bridge || typeof bridge.setData !== 'function') {
+    return;
+  }
+  try {
+    await bridge.setData?.(BRIDGE_QUARANTINE_KEY, list);
+  } catch (error) {
+    console.warn('写入 bridge 隔离清单失败', error);
+  }
+};
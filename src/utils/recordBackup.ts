@@ -0,0 +1,466 @@
+import {
+  FieldType,
+  IFieldMeta,
+  IOpenCellValue,
+  IOpenSingleSelect,
+  IRecord,
+  ITable,
+} from '@lark-base-open/js-sdk';
+import type { RecordBackupPurpose, RecordBackupSummary } from '../types';
+
+const DB_NAME = 'bulkdel-record-backup';
+const DB_VERSION = 1;
+const STORE_NAME = 'chunks';
+const SNAPSHOT_INDEX = 'snapshotId';
+
+/** SDK 单页最多 200 条，备份与写回都按这个粒度分块 */
+export const RECORD_CHUNK_SIZE = 200;
+
+/** 公式、回填与系统字段由宿主计算，不需要也无法写回 */
+const COMPUTED_FIELD_TYPES = new Set<FieldType>([
+  FieldType.Formula,
+  FieldType.Lookup,
+  FieldType.CreatedTime,
+  FieldType.ModifiedTime,
+  FieldType.CreatedUser,
+  FieldType.ModifiedUser,
+  FieldType.AutoNumber,
+]);
+
+export type BackupRecord = {
+  recordId: string;
+  primaryText: string;
+  fields: Record<string, IOpenCellValue>;
+};
+
+type BackupChunk = {
+  key: string;
+  snapshotId: string;
+  tableId: string;
+  chunkIndex: number;
+  records: BackupRecord[];
+};
+
+export type RecordBackupTarget = {
+  tableId: string;
+  /** 整表删除时备份全部字段 */
+  wholeTable: boolean;
+  fieldIds: string[];
+  /** 只备份这些记录，不传则备份整表记录 */
+  recordIds?: string[];
+  purpose?: RecordBackupPurpose;
+};
+
+export type BackupProgress = {
+  label: string;
+  done: number;
+  total: number;
+};
+
+export type RestoreResult = {
+  cellsRestored: number;
+  recordsMatched: number;
+  recordsAppended: number;
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('当前环境不支持 IndexedDB'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex(SNAPSHOT_INDEX, 'snapshotId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T,>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = work(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const putChunk = (chunk: BackupChunk) =>
+  runTransaction('readwrite', (store) => store.put(chunk));
+
+export const isComputedFieldType = (type: FieldType) =>
+  COMPUTED_FIELD_TYPES.has(type);
+
+/** 把任意单元格值压成纯文本，用于按索引列匹配记录 */
+export const cellToText = (value: IOpenCellValue | undefined): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  if (Array.isArray(value)) {
+    return (value as unknown[])
+      .map((item) => cellToText(item as IOpenCellValue))
+      .join('');
+  }
+  const record = value as unknown as Record<string, unknown>;
+  for (const key of ['text', 'name', 'full_address', 'link']) {
+    if (typeof record[key] === 'string') {
+      return record[key] as string;
+    }
+  }
+  return '';
+};
+
+/** 逐页读取整张表的记录，每读完一页回调一次 */
+export const forEachRecordPage = async (
+  table: ITable,
+  onPage: (records: IRecord[], total: number) => Promise<void> | void,
+) => {
+  let pageToken: number | undefined;
+  do {
+    const response = await table.getRecordsByPage({
+      pageSize: RECORD_CHUNK_SIZE,
+      pageToken,
+    });
+    await onPage(response.records, response.total);
+    pageToken = response.hasMore ? response.pageToken : undefined;
+  } while (pageToken !== undefined);
+};
+
+/**
+ * 删除前把目标字段（或整张表）的记录值分块写入 IndexedDB。
+ * 每张表同时记下索引列文本，回滚时记录 ID 失效也能按索引列匹配。
+ */
+export const captureRecordBackup = async (
+  snapshotId: string,
+  targets: RecordBackupTarget[],
+  loadTable: (tableId: string) => Promise<ITable>,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<RecordBackupSummary> => {
+  const summary: RecordBackupSummary = {
+    capturedAt: new Date().toISOString(),
+    cellCount: 0,
+    tables: [],
+  };
+  await deleteRecordBackup(snapshotId);
+
+  for (const target of targets) {
+    const table = await loadTable(target.tableId);
+    const fieldMetaList: IFieldMeta[] = await table.getFieldMetaList();
+    const primaryField = fieldMetaList.find((field) => field.isPrimary);
+    const wanted = new Set(
+      target.wholeTable
+        ? fieldMetaList.map((field) => field.id)
+        : target.fieldIds,
+    );
+    const fieldIds = fieldMetaList
+      .filter((field) => wanted.has(field.id) && !isComputedFieldType(field.type))
+      .map((field) => field.id);
+    let chunkIndex = 0;
+    let recordCount = 0;
+    let scanned = 0;
+    const tableName = await table.getName();
+    const onlyRecordIds = target.recordIds ? new Set(target.recordIds) : null;
+
+    await forEachRecordPage(table, async (page, total) => {
+      scanned += page.length;
+      const records = onlyRecordIds
+        ? page.filter((record) => onlyRecordIds.has(record.recordId))
+        : page;
+      const chunkRecords: BackupRecord[] = records.map((record) => {
+        const fields: Record<string, IOpenCellValue> = {};
+        for (const fieldId of fieldIds) {
+          const value = record.fields[fieldId];
+          if (value !== null && value !== undefined) {
+            fields[fieldId] = value;
+            summary.cellCount += 1;
+          }
+        }
+        return {
+          recordId: record.recordId,
+          primaryText: primaryField
+            ? cellToText(record.fields[primaryField.id])
+            : '',
+          fields,
+        };
+      });
+      if (chunkRecords.length > 0) {
+        await putChunk({
+          key: `${snapshotId}:${target.tableId}:${chunkIndex}`,
+          snapshotId,
+          tableId: target.tableId,
+          chunkIndex,
+          records: chunkRecords,
+        });
+        chunkIndex += 1;
+      }
+      recordCount += records.length;
+      onProgress?.({ label: tableName, done: scanned, total });
+    });
+
+    summary.tables.push({
+      tableId: target.tableId,
+      wholeTable: target.wholeTable,
+      fieldIds,
+      recordCount,
+      ...(target.purpose ? { purpose: target.purpose } : {}),
+    });
+  }
+  return summary;
+};
+
+export const loadRecordBackup = async (
+  snapshotId: string,
+  tableId: string,
+): Promise<BackupRecord[]> => {
+  const chunks =
+    (await runTransaction<BackupChunk[]>('readonly', (store) =>
+      store.index(SNAPSHOT_INDEX).getAll(snapshotId),
+    )) ?? [];
+  return chunks
+    .filter((chunk) => chunk.tableId === tableId)
+    .sort((a, b) => a.chunkIndex - b.chunkIndex)
+    .flatMap((chunk) => chunk.records);
+};
+
+export const deleteRecordBackup = async (snapshotId: string) => {
+  const keys =
+    (await runTransaction<IDBValidKey[]>('readonly', (store) =>
+      store.index(SNAPSHOT_INDEX).getAllKeys(snapshotId),
+    )) ?? [];
+  if (keys.length === 0) {
+    return;
+  }
+  await runTransaction('readwrite', (store) => {
+    for (const key of keys) {
+      store.delete(key);
+    }
+  });
+};
+
+/**
+ * 追加回去的记录拿到了新 ID，把备份里的旧 ID 换成新的；
+ * 同一份快照再回滚时按记录 ID 就能认出它们，覆盖而不是再追加一遍。
+ */
+export const remapBackupRecordIds = async (
+  snapshotId: string,
+  tableId: string,
+  recordIdMap: Map<string, string>,
+) => {
+  if (recordIdMap.size === 0) {
+    return;
+  }
+  const chunks =
+    (await runTransaction<BackupChunk[]>('readonly', (store) =>
+      store.index(SNAPSHOT_INDEX).getAll(snapshotId),
+    )) ?? [];
+  const touched = chunks.filter(
+    (chunk) =>
+      chunk.tableId === tableId &&
+      chunk.records.some((record) => recordIdMap.has(record.recordId)),
+  );
+  if (touched.length === 0) {
+    return;
+  }
+  await runTransaction('readwrite', (store) => {
+    for (const chunk of touched) {
+      store.put({
+        ...chunk,
+        records: chunk.records.map((record) => {
+          const recordId = recordIdMap.get(record.recordId);
+          return recordId ? { ...record, recordId } : record;
+        }),
+      });
+    }
+  });
+};
+
+/**
+ * 快照被删或被保留策略清理后，顺手回收它们的记录备份。
+ * 备份库按浏览器来源共用，别的 Base 的备份也在里面，所以只删这次从快照库里移除的。
+ */
+export const pruneRecordBackups = async (
+  previousSnapshotIds: string[],
+  keepSnapshotIds: string[],
+) => {
+  const keep = new Set(keepSnapshotIds);
+  for (const snapshotId of previousSnapshotIds) {
+    if (!keep.has(snapshotId)) {
+      await deleteRecordBackup(snapshotId);
+    }
+  }
+};
+
+const isSelectOption = (item: unknown): item is IOpenSingleSelect =>
+  typeof item === 'object' &&
+  item !== null &&
+  typeof (item as Partial<IOpenSingleSelect>).text === 'string';
+
+/** 单选 / 多选重建后选项 ID 会变，按选项文本映射到新字段的选项 */
+export const adaptCellValue = (
+  value: IOpenCellValue,
+  targetField: IFieldMeta,
+): IOpenCellValue | undefined => {
+  if (isComputedFieldType(targetField.type)) {
+    return undefined;
+  }
+  if (
+    targetField.type === FieldType.SingleSelect ||
+    targetField.type === FieldType.MultiSelect
+  ) {
+    // SDK 把按钮字段 meta 的 type 声明成任意 FieldType，按 type 收窄后还得排除它
+    const { property } = targetField;
+    const options = property && 'options' in property ? property.options : [];
+    const mapOption = (item: unknown): IOpenSingleSelect[] => {
+      const option = isSelectOption(item)
+        ? options.find((candidate) => candidate.name === item.text)
+        : undefined;
+      return option ? [{ id: option.id, text: option.name }] : [];
+    };
+    if (Array.isArray(value)) {
+      const mapped = (value as unknown[]).flatMap(mapOption);
+      return mapped.length > 0 ? mapped : undefined;
+    }
+    return mapOption(value)[0];
+  }
+  return value;
+};
+
+/**
+ * 把备份的记录值写回 table：
+ * 1. 记录 ID 仍存在 → 直接覆盖；
+ * 2. 否则按索引列文本匹配现有记录；
+ * 3. 仍匹配不上时，appendUnmatched 为 true 则新增记录（重建出的空表走这条路）。
+ * fieldIdMap 把快照里的旧字段 ID 映射到重建后的新字段 ID。
+ */
+export const restoreRecordValues = async (
+  table: ITable,
+  backup: BackupRecord[],
+  fieldIdMap: Map<string, string>,
+  options: {
+    appendUnmatched: boolean;
+    /** 新建表时把原索引列文本写进系统默认索引列，方便辨认 */
+    fillPrimaryText?: boolean;
+    /** 为 false 时不按索引列匹配，免得把已删记录的值写到同名的其他记录上 */
+    matchByPrimary?: boolean;
+    /** 每追加一批回调一次，参数是备份里的旧记录 ID → 新记录 ID */
+    onAppended?: (recordIdMap: Map<string, string>) => Promise<void>;
+    onProgress?: (progress: BackupProgress) => void;
+  },
+): Promise<RestoreResult> => {
+  const result: RestoreResult = {
+    cellsRestored: 0,
+    recordsMatched: 0,
+    recordsAppended: 0,
+  };
+  if (backup.length === 0 || fieldIdMap.size === 0) {
+    return result;
+  }
+  const fieldMetaList = await table.getFieldMetaList();
+  const fieldMetaMap = new Map(fieldMetaList.map((field) => [field.id, field]));
+  const primaryField = fieldMetaList.find((field) => field.isPrimary);
+  const tableName = await table.getName();
+
+  const liveRecordIds = new Set<string>();
+  const liveByPrimary = new Map<string, string>();
+  await forEachRecordPage(table, (records) => {
+    for (const record of records) {
+      liveRecordIds.add(record.recordId);
+      if (primaryField) {
+        const text = cellToText(record.fields[primaryField.id]);
+        if (text && !liveByPrimary.has(text)) {
+          liveByPrimary.set(text, record.recordId);
+        }
+      }
+    }
+  });
+
+  const updates: IRecord[] = [];
+  const additions: { fields: Record<string, IOpenCellValue> }[] = [];
+  const additionSources: string[] = [];
+  for (const item of backup) {
+    const fields: Record<string, IOpenCellValue> = {};
+    for (const [oldFieldId, value] of Object.entries(item.fields)) {
+      const newFieldId = fieldIdMap.get(oldFieldId);
+      const targetField = newFieldId ? fieldMetaMap.get(newFieldId) : undefined;
+      if (!newFieldId || !targetField) {
+        continue;
+      }
+      const adapted = adaptCellValue(value, targetField);
+      if (adapted !== undefined) {
+        fields[newFieldId] = adapted;
+      }
+    }
+    const matchedId = liveRecordIds.has(item.recordId)
+      ? item.recordId
+      : options.matchByPrimary === false
+      ? undefined
+      : liveByPrimary.get(item.primaryText);
+    if (matchedId) {
+      if (Object.keys(fields).length > 0) {
+        updates.push({ recordId: matchedId, fields });
+        result.recordsMatched += 1;
+        result.cellsRestored += Object.keys(fields).length;
+      }
+      continue;
+    }
+    if (!options.appendUnmatched) {
+      continue;
+    }
+    const cellCount = Object.keys(fields).length;
+    if (options.fillPrimaryText && primaryField && item.primaryText) {
+      fields[primaryField.id] = [
+        { type: 'text', text: item.primaryText },
+      ] as IOpenCellValue;
+    }
+    if (Object.keys(fields).length > 0) {
+      additions.push({ fields });
+      additionSources.push(item.recordId);
+      result.recordsAppended += 1;
+      result.cellsRestored += cellCount;
+    }
+  }
+
+  const total = updates.length + additions.length;
+  let done = 0;
+  for (let index = 0; index < updates.length; index += RECORD_CHUNK_SIZE) {
+    const batch = updates.slice(index, index + RECORD_CHUNK_SIZE);
+    await table.setRecords(batch);
+    done += batch.length;
+    options.onProgress?.({ label: tableName, done, total });
+  }
+  for (let index = 0; index < additions.length; index += RECORD_CHUNK_SIZE) {
+    const batch = additions.slice(index, index + RECORD_CHUNK_SIZE);
+    const recordIds = await table.addRecords(batch);
+    await options.onAppended?.(
+      new Map(
+        recordIds.map((recordId, offset): [string, string] => [
+          additionSources[index + offset],
+          recordId,
+        ]),
+      ),
+    );
+    done += batch.length;
+    options.onProgress?.({ label: tableName, done, total });
+  }
+  return result;
+};
@@ -0,0 +1,307 @@
+import {
+  bitable,
+  FieldType,
+  IFieldMeta,
+  IOpenCellValue,
+  IRecord,
+} from '@lark-base-open/js-sdk';
+import { isEmptyCell } from './fieldUsage';
+import {
+  BackupProgress,
+  cellToText,
+  forEachRecordPage,
+  RECORD_CHUNK_SIZE,
+} from './recordBackup';
+
+export type FilterOperator =
+  | 'is'
+  | 'isNot'
+  | 'contains'
+  | 'notContains'
+  | 'isEmpty'
+  | 'isNotEmpty'
+  | 'greater'
+  | 'less'
+  | 'before'
+  | 'after'
+  | 'checked'
+  | 'unchecked';
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  is: '等于',
+  isNot: '不等于',
+  contains: '包含',
+  notContains: '不包含',
+  isEmpty: '为空',
+  isNotEmpty: '不为空',
+  greater: '大于',
+  less: '小于',
+  before: '早于',
+  after: '晚于',
+  checked: '已勾选',
+  unchecked: '未勾选',
+};
+
+/** 不需要填值的条件 */
+export const VALUELESS_OPERATORS = new Set<FilterOperator>([
+  'isEmpty',
+  'isNotEmpty',
+  'checked',
+  'unchecked',
+]);
+
+export type ConditionKind = 'text' | 'number' | 'date' | 'checkbox';
+
+export type RecordCondition = {
+  id: string;
+  fieldId: string;
+  operator: FilterOperator;
+  /** 文本原样比较（不区分大小写）；日期为 YYYY-MM-DD */
+  value: string;
+};
+
+export type RecordFilter = {
+  conjunction: 'and' | 'or';
+  conditions: RecordCondition[];
+};
+
+export type RecordMatchResult = {
+  recordIds: string[];
+  /** 前几条命中记录，给用户核对用 */
+  sample: IRecord[];
+  scanned: number;
+};
+
+const NUMBER_FIELD_TYPES = new Set<FieldType>([
+  FieldType.Number,
+  FieldType.Currency,
+  FieldType.Progress,
+  FieldType.Rating,
+  FieldType.AutoNumber,
+]);
+
+const DATE_FIELD_TYPES = new Set<FieldType>([
+  FieldType.DateTime,
+  FieldType.CreatedTime,
+  FieldType.ModifiedTime,
+]);
+
+const OPERATORS_BY_KIND: Record<ConditionKind, FilterOperator[]> = {
+  text: ['is', 'isNot', 'contains', 'notContains', 'isEmpty', 'isNotEmpty'],
+  number: ['is', 'isNot', 'greater', 'less', 'isEmpty', 'isNotEmpty'],
+  date: ['is', 'before', 'after', 'isEmpty', 'isNotEmpty'],
+  checkbox: ['checked', 'unchecked'],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getConditionKind = (type: FieldType): ConditionKind => {
+  if (type === FieldType.Checkbox) {
+    return 'checkbox';
+  }
+  if (NUMBER_FIELD_TYPES.has(type)) {
+    return 'number';
+  }
+  if (DATE_FIELD_TYPES.has(type)) {
+    return 'date';
+  }
+  return 'text';
+};
+
+export const getFieldOperators = (type: FieldType) =>
+  OPERATORS_BY_KIND[getConditionKind(type)];
+
+export const createCondition = (field: IFieldMeta): RecordCondition => ({
+  id: `condition_${Date.now().toString(36)}_${Math.random()
+    .toString(36)
+    .slice(2, 6)}`,
+  fieldId: field.id,
+  operator: getFieldOperators(field.type)[0],
+  value: '',
+});
+
+/** 多选、人员等数组值既比较整体文本，也比较每一项 */
+const cellTexts = (value: IOpenCellValue) => {
+  const whole = cellToText(value).toLowerCase();
+  return Array.isArray(value)
+    ? [
+        whole,
+        ...(value as unknown[]).map((item) =>
+          cellToText(item as IOpenCellValue).toLowerCase(),
+        ),
+      ]
+    : [whole];
+};
+
+const cellNumber = (value: IOpenCellValue) =>
+  typeof value === 'number' ? value : Number(cellToText(value));
+
+/** 本地时区当天 0 点 */
+const dayStart = (input: string) => new Date(`${input}T00:00:00`).getTime();
+
+const testCondition = (
+  condition: RecordCondition,
+  field: IFieldMeta,
+  value: IOpenCellValue | undefined,
+): boolean => {
+  const empty = isEmptyCell(value);
+  switch (condition.operator) {
+    case 'isEmpty':
+      return empty;
+    case 'isNotEmpty':
+      return !empty;
+    case 'checked':
+      return value === true;
+    case 'unchecked':
+      return value !== true;
+    default:
+      break;
+  }
+  const kind = getConditionKind(field.type);
+  const needle = condition.value.trim();
+  if (empty || value === null || value === undefined) {
+    // 空单元格只满足“不等于 / 不包含”
+    return condition.operator === 'isNot' || condition.operator === 'notContains';
+  }
+  if (kind === 'number') {
+    const number = cellNumber(value);
+    const target = Number(needle);
+    switch (condition.operator) {
+      case 'is':
+        return number === target;
+      case 'isNot':
+        return number !== target;
+      case 'greater':
+        return number > target;
+      case 'less':
+        return number < target;
+      default:
+        return false;
+    }
+  }
+  if (kind === 'date') {
+    const time = cellNumber(value);
+    const start = dayStart(needle);
+    switch (condition.operator) {
+      case 'is':
+        return time >= start && time < start + DAY_MS;
+      case 'before':
+        return time < start;
+      case 'after':
+        return time >= start + DAY_MS;
+      default:
+        return false;
+    }
+  }
+  const texts = cellTexts(value);
+  const lowered = needle.toLowerCase();
+  switch (condition.operator) {
+    case 'is':
+      return texts.includes(lowered);
+    case 'isNot':
+      return !texts.includes(lowered);
+    case 'contains':
+      return texts[0].includes(lowered);
+    case 'notContains':
+      return !texts[0].includes(lowered);
+    default:
+      return false;
+  }
+};
+
+/** 返回错误说明，条件都填好时为 null */
+export const validateFilter = (
+  filter: RecordFilter,
+  fields: IFieldMeta[],
+): string | null => {
+  if (filter.conditions.length === 0) {
+    return '至少加一个条件，不然就是整表清空了';
+  }
+  for (const condition of filter.conditions) {
+    const field = fields.find((item) => item.id === condition.fieldId);
+    if (!field) {
+      return '有条件引用的字段已经不存在';
+    }
+    if (VALUELESS_OPERATORS.has(condition.operator)) {
+      continue;
+    }
+    const needle = condition.value.trim();
+    if (!needle) {
+      return `「${field.name}」的条件还没填值`;
+    }
+    const kind = getConditionKind(field.type);
+    if (kind === 'number' && !Number.isFinite(Number(needle))) {
+      return `「${field.name}」要填数字`;
+    }
+    if (kind === 'date' && !Number.isFinite(dayStart(needle))) {
+      return `「${field.name}」的日期要写成 YYYY-MM-DD`;
+    }
+  }
+  return null;
+};
+
+export const matchRecord = (
+  record: IRecord,
+  filter: RecordFilter,
+  fieldMap: Map<string, IFieldMeta>,
+) => {
+  const results = filter.conditions.map((condition) => {
+    const field = fieldMap.get(condition.fieldId);
+    return !!field && testCondition(condition, field, record.fields[field.id]);
+  });
+  return filter.conjunction === 'and'
+    ? results.every(Boolean)
+    : results.some(Boolean);
+};
+
+/** 逐页读记录并在本地求值，signal 取消时中途停下 */
+export const findMatchingRecords = async (
+  tableId: string,
+  fields: IFieldMeta[],
+  filter: RecordFilter,
+  options: {
+    signal?: AbortSignal;
+    sampleSize?: number;
+    onProgress?: (progress: BackupProgress) => void;
+  } = {},
+): Promise<RecordMatchResult> => {
+  const table = await bitable.base.getTableById(tableId);
+  const tableName = await table.getName();
+  const fieldMap = new Map(fields.map((field) => [field.id, field]));
+  const sampleSize = options.sampleSize ?? 20;
+  const result: RecordMatchResult = { recordIds: [], sample: [], scanned: 0 };
+  await forEachRecordPage(table, (records, total) => {
+    if (options.signal?.aborted) {
+      throw new DOMException('筛选已取消', 'AbortError');
+    }
+    for (const record of records) {
+      if (matchRecord(record, filter, fieldMap)) {
+        result.recordIds.push(record.recordId);
+        if (result.sample.length < sampleSize) {
+          result.sample.push(record);
+        }
+      }
+    }
+    result.scanned += records.length;
+    options.onProgress?.({ label: tableName, done: result.scanned, total });
+  });
+  return result;
+};
+
+/** 分批删除记录，返回实际删掉的条数 */
+export const deleteRecordsInBatches = async (
+  tableId: string,
+  recordIds: string[],
+  onProgress?: (progress: BackupProgress) => void,
+) => {
+  const table = await bitable.base.getTableById(tableId);
+  const tableName = await table.getName();
+  let done = 0;
+  for (let index = 0; index < recordIds.length; index += RECORD_CHUNK_SIZE) {
+    const batch = recordIds.slice(index, index + RECORD_CHUNK_SIZE);
+    await table.deleteRecords(batch);
+    done += batch.length;
+    onProgress?.({ label: tableName, done, total: recordIds.length });
+  }
+  return done;
+};
@@ -0,0 +1,162 @@
+import { bitable } from '@lark-base-open/js-sdk';
+import type { DeletionPlan } from './deletionPlan';
+import { getPlanOperations } from './deletionPlan';
+
+export const LOCAL_STORAGE_RISK_KEY = 'boom-table-shredder-risk-tiers';
+
+export type RiskTier = 'low' | 'medium' | 'high' | 'critical';
+
+export const RISK_TIER_LABELS: Record<RiskTier, string> = {
+  low: '低风险',
+  medium: '中风险',
+  high: '高风险',
+  critical: '极高风险',
+};
+
+export type RiskLimits = {
+  tables: number;
+  fields: number;
+  records: number;
+};
+
+/** 任一指标达到某档的门槛即进入该档；删除前没拿到新快照时直接算极高风险 */
+export type RiskSettings = {
+  medium: RiskLimits;
+  high: RiskLimits;
+  critical: RiskLimits;
+};
+
+export const RISK_SETTING_TIERS = ['medium', 'high', 'critical'] as const;
+
+export type RiskSettingTier = (typeof RISK_SETTING_TIERS)[number];
+
+export type RiskRequirement = {
+  /** 倒计时秒数，0 表示不用等 */
+  countdown: number;
+  /** 需要用户一字不差输入的确认文字，null 表示不用输入 */
+  typedPhrase: string | null;
+};
+
+export type RiskAssessment = {
+  tier: RiskTier;
+  reasons: string[];
+  tables: number;
+  fields: number;
+  records: number;
+  requirement: RiskRequirement;
+};
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  medium: { tables: 1, fields: 10, records: 1000 },
+  high: { tables: 3, fields: 30, records: 10000 },
+  critical: { tables: 10, fields: 100, records: 100000 },
+};
+
+export const loadRiskSettings = (): RiskSettings => {
+  if (typeof window === 'undefined') {
+    return DEFAULT_RISK_SETTINGS;
+  }
+  try {
+    const raw = window.localStorage.getItem(LOCAL_STORAGE_RISK_KEY);
+    return raw
+      ? { ...DEFAULT_RISK_SETTINGS, ...(JSON.parse(raw) as RiskSettings) }
+      : DEFAULT_RISK_SETTINGS;
+  } catch (error) {
+    console.error('读取风险阈值失败', error);
+    return DEFAULT_RISK_SETTINGS;
+  }
+};
+
+export const persistRiskSettings = (settings: RiskSettings) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  try {
+    window.localStorage.setItem(LOCAL_STORAGE_RISK_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('写入风险阈值失败', error);
+  }
+};
+
+/**
+ * 估算计划会影响的记录数：整表删除算整表记录，删字段算所在表的记录（每条都会丢一格）。
+ * 只取每张表第一页拿 total，不读全部记录。
+ */
+export const estimatePlanRecords = async (plan: DeletionPlan) => {
+  const operations = getPlanOperations(plan);
+  const tableIds = new Set([
+    ...operations.tables.map((item) => item.tableId),
+    ...operations.fieldsByTable.map((group) => group.tableId),
+  ]);
+  let total = 0;
+  for (const tableId of tableIds) {
+    try {
+      const table = await bitable.base.getTableById(tableId);
+      const response = await table.getRecordsByPage({ pageSize: 1 });
+      total += response.total;
+    } catch (error) {
+      console.warn('估算记录数失败', tableId, error);
+    }
+  }
+  return total;
+};
+
+const reachedTier = (
+  settings: RiskSettings,
+  tables: number,
+  fields: number,
+  records: number,
+): RiskTier =>
+  [...RISK_SETTING_TIERS].reverse().find((tier) => {
+    const limits = settings[tier];
+    return (
+      tables >= limits.tables ||
+      fields >= limits.fields ||
+      records >= limits.records
+    );
+  }) ?? 'low';
+
+export const getRiskRequirement = (
+  tier: RiskTier,
+  targetCount: number,
+): RiskRequirement => {
+  switch (tier) {
+    case 'critical':
+      return { countdown: 10, typedPhrase: `确认删除 ${targetCount} 项` };
+    case 'high':
+      return { countdown: 5, typedPhrase: String(targetCount) };
+    case 'medium':
+      return { countdown: 3, typedPhrase: null };
+    default:
+      return { countdown: 0, typedPhrase: null };
+  }
+};
+
+/** snapshotIssue 为删除前快照 / 记录备份失败的说明，有它就一律按极高风险处理 */
+export const assessRisk = (
+  plan: DeletionPlan,
+  records: number,
+  settings: RiskSettings,
+  snapshotIssue: string | null = null,
+): RiskAssessment => {
+  const { tables, fields } = plan.counts;
+  const reasons: string[] = [];
+  let tier = reachedTier(settings, tables, fields, records);
+  if (tier !== 'low') {
+    reasons.push(
+      `本次删除 ${tables} 张表、${fields} 个字段，约影响 ${records} 条记录`,
+    );
+  }
+  if (snapshotIssue) {
+    tier = 'critical';
+    reasons.unshift(snapshotIssue);
+  }
+  return {
+    tier,
+    reasons,
+    tables,
+    fields,
+    records,
+    requirement: getRiskRequirement(tier, tables + fields),
+  };
+};
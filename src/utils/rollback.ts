@@ -0,0 +1,965 @@
+import { bitable, FieldType, ITable } from '@lark-base-open/js-sdk';
+import type { Snapshot, SnapshotField, SnapshotTable } from '../types';
+import type { FieldDiff, TableDiff } from './schemaDiff';
+import {
+  extractFieldReferences,
+  isRelationalFieldType,
+  RELATIONAL_FIELD_TYPES,
+  RelationalFieldType,
+  remapFieldProperty,
+} from './fieldReferences';
+import { getFieldTypeLabel, toFieldConfig } from './fieldTypes';
+import type { ReportItem } from './operationReport';
+import {
+  BackupProgress,
+  loadRecordBackup,
+  remapBackupRecordIds,
+  restoreRecordValues,
+} from './recordBackup';
+import { recreateViews } from './views';
+
+/**
+ * inPlace：对比快照与当前 Base，只补回缺失的字段，整表消失的才重建；
+ * duplicate：旧行为，每张快照表都另建一张 ♻️ 副本。
+ */
+export type RollbackMode = 'inPlace' | 'duplicate';
+
+export type UnrebuiltField = {
+  tableName: string;
+  fieldName: string;
+  reason: string;
+};
+
+export type RollbackOutcome = {
+  /** 每张表 / 每个字段的恢复结果，供结果面板展示与重试 */
+  items: ReportItem[];
+  tablesCreated: number;
+  fieldsRestored: number;
+  /** 原位模式下已存在、保持原样的字段数 */
+  fieldsUntouched: number;
+  cellsRestored: number;
+  /** 第二轮仍无法重建的关联 / 回填 / 公式字段及原因 */
+  unrebuilt: UnrebuiltField[];
+};
+
+export const BLOCKED_ROLLBACK_FIELD_TYPES: FieldType[] = [
+  FieldType.CreatedTime,
+  FieldType.ModifiedTime,
+  FieldType.CreatedUser,
+  FieldType.ModifiedUser,
+  FieldType.AutoNumber,
+];
+
+type TableRollbackState = {
+  tableSnap: SnapshotTable;
+  table: ITable;
+  tableName: string;
+  /** 新建的表记录 ID 全部变化，关联值无法直接写回 */
+  recreated: boolean;
+  fieldIdMap: Map<string, string>;
+};
+
+type DeferredField = {
+  state: TableRollbackState;
+  field: SnapshotField & { type: RelationalFieldType };
+};
+
+type RollbackContext = {
+  snapshot: Snapshot;
+  outcome: RollbackOutcome;
+  existingTableNames: Set<string>;
+  /** 旧表 ID → 当前表 ID（原位保留的表映射到自身） */
+  tableIdMap: Map<string, string>;
+  /** 旧字段 ID → 当前字段 ID，跨表共用，供第二轮重写引用 */
+  fieldIdMap: Map<string, string>;
+  liveTableIds: Set<string>;
+  liveFieldIds: Set<string>;
+  deferred: DeferredField[];
+  onProgress?: (progress: BackupProgress) => void;
+};
+
+const createOutcome = (): RollbackOutcome => ({
+  items: [],
+  tablesCreated: 0,
+  fieldsRestored: 0,
+  fieldsUntouched: 0,
+  cellsRestored: 0,
+  unrebuilt: [],
+});
+
+const pickFreeTableName = (preferred: string, taken: Set<string>) => {
+  let name = preferred;
+  let suffix = 1;
+  while (taken.has(name)) {
+    name = `${preferred} (${suffix})`;
+    suffix += 1;
+  }
+  taken.add(name);
+  return name;
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error ?? '未知错误');
+
+export const countFailedItems = (outcome: RollbackOutcome) =>
+  outcome.items.filter((item) => item.status === 'failed').length;
+
+const fieldItem = (
+  state: { tableSnap: SnapshotTable; tableName: string },
+  field: SnapshotField,
+  patch: Pick<ReportItem, 'status'> & Partial<ReportItem>,
+): ReportItem => ({
+  operation: 'restoreField',
+  tableId: state.tableSnap.tableId,
+  tableName: state.tableName,
+  fieldId: field.id,
+  fieldName: field.name,
+  ...patch,
+});
+
+/** 新建表自带的索引列改名为“(系统默认)”，避免与快照里的同名字段冲突 */
+const markDefaultPrimary = async (
+  table: ITable,
+  tableName: string,
+  ctx: RollbackContext,
+) => {
+  try {
+    const currentFieldMetas = await table.getFieldMetaList();
+    const primaryField = currentFieldMetas.find((field) => field.isPrimary);
+    if (primaryField) {
+      const safePrimaryName = primaryField.name?.includes('(系统默认)')
+        ? primaryField.name
+        : `${primaryField.name || '主键'} (系统默认)`;
+      if (safePrimaryName !== primaryField.name) {
+        await table.setField(primaryField.id, { name: safePrimaryName });
+      }
+    }
+  } catch (error) {
+    console.error(error);
+    ctx.outcome.items.push({
+      operation: 'updateField',
+      status: 'failed',
+      tableName,
+      message: '默认索引列改名失败',
+      error: errorMessage(error),
+    });
+  }
+};
+
+/** 把新表的默认索引列改造成快照里的原索引列，成功时返回新字段 ID */
+const adoptSnapshotPrimary = async (
+  table: ITable,
+  primarySnap: SnapshotField,
+): Promise<string | null> => {
+  if (RELATIONAL_FIELD_TYPES.has(primarySnap.type)) {
+    return null;
+  }
+  try {
+    const currentFieldMetas = await table.getFieldMetaList();
+    const primaryField = currentFieldMetas.find((field) => field.isPrimary);
+    if (!primaryField) {
+      return null;
+    }
+    await table.setField(
+      primaryField.id,
+      toFieldConfig(primarySnap.type, {
+        name: primarySnap.name,
+        property: primarySnap.property,
+      }),
+    );
+    return primaryField.id;
+  } catch (error) {
+    console.warn('索引列还原失败，改为普通字段重建', error);
+    return null;
+  }
+};
+
+const recordFieldMapping = (
+  state: TableRollbackState,
+  oldFieldId: string,
+  newFieldId: string,
+  ctx: RollbackContext,
+) => {
+  state.fieldIdMap.set(oldFieldId, newFieldId);
+  ctx.fieldIdMap.set(oldFieldId, newFieldId);
+};
+
+/** 第一轮：只重建普通字段，关联 / 回填 / 公式字段登记到 deferred */
+const addPlainFields = async (
+  state: TableRollbackState,
+  fields: SnapshotField[],
+  ctx: RollbackContext,
+) => {
+  for (const field of fields) {
+    if (BLOCKED_ROLLBACK_FIELD_TYPES.includes(field.type)) {
+      ctx.outcome.items.push(
+        fieldItem(state, field, {
+          status: 'skipped',
+          message: `系统字段（${getFieldTypeLabel(field.type)}）无法重建`,
+        }),
+      );
+      continue;
+    }
+    if (isRelationalFieldType(field.type)) {
+      ctx.deferred.push({ state, field: { ...field, type: field.type } });
+      continue;
+    }
+    try {
+      const newFieldId = await state.table.addField(
+        toFieldConfig(field.type, {
+          name: field.name,
+          property: field.property,
+        }),
+      );
+      recordFieldMapping(state, field.id, newFieldId, ctx);
+      ctx.outcome.fieldsRestored += 1;
+      ctx.outcome.items.push(fieldItem(state, field, { status: 'success' }));
+    } catch (error) {
+      console.error(error);
+      ctx.outcome.items.push(
+        fieldItem(state, field, {
+          status: 'failed',
+          error: errorMessage(error),
+        }),
+      );
+    }
+  }
+};
+
+const restoreTableRecords = async (
+  state: TableRollbackState,
+  fieldIdMap: Map<string, string>,
+  options: {
+    appendUnmatched: boolean;
+    fillPrimaryText: boolean;
+    matchByPrimary?: boolean;
+    /** 追加出的记录把新 ID 记回备份，重复回滚时按 ID 覆盖 */
+    rememberAppended?: boolean;
+  },
+  ctx: RollbackContext,
+) => {
+  const hasRecordBackup = ctx.snapshot.recordBackup?.tables.some(
+    (item) => item.tableId === state.tableSnap.tableId,
+  );
+  if (!hasRecordBackup || fieldIdMap.size === 0) {
+    return;
+  }
+  try {
+    const backup = await loadRecordBackup(
+      ctx.snapshot.id,
+      state.tableSnap.tableId,
+    );
+    const restored = await restoreRecordValues(
+      state.table,
+      backup,
+      fieldIdMap,
+      {
+        ...options,
+        onAppended: options.rememberAppended
+          ? (recordIdMap) =>
+              remapBackupRecordIds(
+                ctx.snapshot.id,
+                state.tableSnap.tableId,
+                recordIdMap,
+              )
+          : undefined,
+        onProgress: ctx.onProgress,
+      },
+    );
+    ctx.outcome.cellsRestored += restored.cellsRestored;
+    ctx.outcome.items.push({
+      operation: 'restoreRecords',
+      status: 'success',
+      tableId: state.tableSnap.tableId,
+      tableName: state.tableName,
+      message: `写回 ${restored.cellsRestored} 个单元格`,
+    });
+  } catch (error) {
+    console.error(error);
+    ctx.outcome.items.push({
+      operation: 'restoreRecords',
+      status: 'failed',
+      tableId: state.tableSnap.tableId,
+      tableName: state.tableName,
+      error: errorMessage(error),
+    });
+  }
+};
+
+/** 整表重建：duplicate 模式统一走这里，inPlace 模式只对已消失的表走这里 */
+const recreateTable = async (
+  tableSnap: SnapshotTable,
+  tableName: string,
+  adoptPrimary: boolean,
+  ctx: RollbackContext,
+): Promise<TableRollbackState | null> => {
+  try {
+    const { tableId } = await bitable.base.addTable({
+      name: tableName,
+      fields: [],
+    });
+    ctx.outcome.tablesCreated += 1;
+    ctx.outcome.items.push({
+      operation: 'recreateTable',
+      status: 'success',
+      tableId: tableSnap.tableId,
+      tableName,
+      message:
+        tableName === tableSnap.tableName
+          ? undefined
+          : `原表「${tableSnap.tableName}」`,
+    });
+    ctx.tableIdMap.set(tableSnap.tableId, tableId);
+    const state: TableRollbackState = {
+      tableSnap,
+      table: await bitable.base.getTableById(tableId),
+      tableName,
+      recreated: true,
+      fieldIdMap: new Map(),
+    };
+
+    const primarySnap = adoptPrimary
+      ? tableSnap.fields.find((field) => field.isPrimary)
+      : undefined;
+    const adoptedPrimaryId = primarySnap
+      ? await adoptSnapshotPrimary(state.table, primarySnap)
+      : null;
+    if (primarySnap && adoptedPrimaryId) {
+      recordFieldMapping(state, primarySnap.id, adoptedPrimaryId, ctx);
+      ctx.outcome.fieldsRestored += 1;
+      ctx.outcome.items.push(
+        fieldItem(state, primarySnap, {
+          status: 'success',
+          message: '沿用新表索引列',
+        }),
+      );
+    } else {
+      await markDefaultPrimary(state.table, tableName, ctx);
+    }
+
+    await addPlainFields(
+      state,
+      tableSnap.fields.filter((field) => !state.fieldIdMap.has(field.id)),
+      ctx,
+    );
+    await restoreTableRecords(
+      state,
+      state.fieldIdMap,
+      { appendUnmatched: true, fillPrimaryText: !adoptedPrimaryId },
+      ctx,
+    );
+    return state;
+  } catch (error) {
+    console.error(error);
+    ctx.outcome.items.push({
+      operation: 'recreateTable',
+      status: 'failed',
+      tableId: tableSnap.tableId,
+      tableName,
+      error: errorMessage(error),
+    });
+    return null;
+  }
+};
+
+/** 原位补字段：已存在的字段（按 ID，其次按名称）一律不动 */
+/** 类型转换过的字段先按快照改回原类型和属性，原值才写得回去 */
+const revertFieldType = async (
+  state: TableRollbackState,
+  field: SnapshotField,
+  liveFieldId: string,
+  ctx: RollbackContext,
+) => {
+  try {
+    await state.table.setField(
+      liveFieldId,
+      toFieldConfig(field.type, { property: field.property }),
+    );
+    ctx.outcome.fieldsRestored += 1;
+    ctx.outcome.items.push(
+      fieldItem(state, field, {
+        status: 'success',
+        message: `改回「${getFieldTypeLabel(field.type)}」`,
+      }),
+    );
+    return true;
+  } catch (error) {
+    console.error(error);
+    ctx.outcome.items.push(
+      fieldItem(state, field, {
+        status: 'failed',
+        message: '没能改回原类型，原值也没有写回',
+        error: errorMessage(error),
+      }),
+    );
+    return false;
+  }
+};
+
+const patchExistingTable = async (
+  tableSnap: SnapshotTable,
+  liveTableId: string,
+  liveTableName: string,
+  ctx: RollbackContext,
+): Promise<TableRollbackState | null> => {
+  try {
+    ctx.tableIdMap.set(tableSnap.tableId, liveTableId);
+    const state: TableRollbackState = {
+      tableSnap,
+      table: await bitable.base.getTableById(liveTableId),
+      tableName: liveTableName,
+      recreated: false,
+      fieldIdMap: new Map(),
+    };
+    const purpose = ctx.snapshot.recordBackup?.tables.find(
+      (item) => item.tableId === tableSnap.tableId,
+    )?.purpose;
+    const liveFields = await state.table.getFieldMetaList();
+    const missing: SnapshotField[] = [];
+    // 改不回原类型的字段不写值，免得旧值被新类型吃掉
+    const stillConverted = new Set<string>();
+    for (const field of tableSnap.fields) {
+      const live =
+        liveFields.find((item) => item.id === field.id) ??
+        liveFields.find((item) => item.name === field.name);
+      if (!live) {
+        missing.push(field);
+        continue;
+      }
+      ctx.fieldIdMap.set(field.id, live.id);
+      if (purpose === 'convertedValues' && live.type !== field.type) {
+        if (!(await revertFieldType(state, field, live.id, ctx))) {
+          stillConverted.add(field.id);
+        }
+        continue;
+      }
+      ctx.outcome.fieldsUntouched += 1;
+      ctx.outcome.items.push(
+        fieldItem(state, field, {
+          status: 'skipped',
+          message:
+            live.id === field.id ? '字段仍在，保持原样' : '同名字段已存在',
+        }),
+      );
+    }
+    if (missing.length > 0) {
+      await addPlainFields(state, missing, ctx);
+      if (!purpose) {
+        await restoreTableRecords(
+          state,
+          state.fieldIdMap,
+          { appendUnmatched: false, fillPrimaryText: false },
+          ctx,
+        );
+      }
+    }
+    if (purpose) {
+      // 删掉的记录整条追加回去、清空的值按记录 ID 写回，都不按索引列去覆盖别的记录；
+      // 追加回去的记录会把新 ID 记进备份，回滚或重试跑两遍也不会重复
+      const fieldIdMap = new Map(
+        tableSnap.fields.flatMap((field): [string, string][] => {
+          const liveId = ctx.fieldIdMap.get(field.id);
+          return liveId && !stillConverted.has(field.id)
+            ? [[field.id, liveId]]
+            : [];
+        }),
+      );
+      await restoreTableRecords(
+        state,
+        fieldIdMap,
+        {
+          appendUnmatched: purpose === 'deletedRecords',
+          fillPrimaryText: false,
+          matchByPrimary: false,
+          rememberAppended: purpose === 'deletedRecords',
+        },
+        ctx,
+      );
+    }
+    return state;
+  } catch (error) {
+    console.error(error);
+    ctx.outcome.items.push({
+      operation: 'restoreField',
+      status: 'failed',
+      tableId: tableSnap.tableId,
+      tableName: liveTableName,
+      message: '读取当前表失败，字段没有补回',
+      error: errorMessage(error),
+    });
+    return null;
+  }
+};
+
+const resolveTableId = (ctx: RollbackContext) => (tableId: string) =>
+  ctx.tableIdMap.get(tableId) ??
+  (ctx.liveTableIds.has(tableId) ? tableId : undefined);
+
+const resolveFieldId = (ctx: RollbackContext) => (fieldId: string) =>
+  ctx.fieldIdMap.get(fieldId) ??
+  (ctx.liveFieldIds.has(fieldId) ? fieldId : undefined);
+
+const reportUnrebuilt = (
+  item: DeferredField,
+  reason: string,
+  ctx: RollbackContext,
+  error?: unknown,
+) => {
+  ctx.outcome.unrebuilt.push({
+    tableName: item.state.tableName,
+    fieldName: item.field.name,
+    reason,
+  });
+  ctx.outcome.items.push(
+    fieldItem(item.state, item.field, {
+      status: 'failed',
+      message: reason,
+      error: error === undefined ? undefined : errorMessage(error),
+    }),
+  );
+};
+
+const describeReferences = (ids: string[], ctx: RollbackContext) => {
+  const names = new Map<string, string>();
+  for (const table of ctx.snapshot.tables) {
+    names.set(table.tableId, `表「${table.tableName}」`);
+    for (const field of table.fields) {
+      names.set(field.id, `字段「${field.name}」`);
+    }
+  }
+  return ids.map((id) => names.get(id) ?? id).join('、');
+};
+
+/**
+ * 双向关联建好后宿主会在对端表自动生成回链字段：
+ * 若快照里也有这个回链字段，直接认领并改回原名，避免重复建一对。
+ */
+const claimDuplexBackField = async (
+  item: DeferredField,
+  newFieldId: string,
+  pending: DeferredField[],
+  ctx: RollbackContext,
+) => {
+  const oldBackId = (item.field.property as { backFieldId?: string } | null)
+    ?.backFieldId;
+  const partner = pending.find((candidate) => candidate.field.id === oldBackId);
+  if (!oldBackId || !partner) {
+    return;
+  }
+  try {
+    const meta = await item.state.table.getFieldMetaById(newFieldId);
+    const newBackId = (meta.property as { backFieldId?: string } | null)
+      ?.backFieldId;
+    if (!newBackId) {
+      return;
+    }
+    await partner.state.table.setField(newBackId, { name: partner.field.name });
+    recordFieldMapping(partner.state, partner.field.id, newBackId, ctx);
+    ctx.outcome.fieldsRestored += 1;
+    ctx.outcome.items.push(
+      fieldItem(partner.state, partner.field, {
+        status: 'success',
+        message: '认领双向关联自动生成的回链字段',
+      }),
+    );
+  } catch (error) {
+    console.warn('认领双向关联回链字段失败', error);
+  }
+};
+
+const addRelationalField = async (
+  item: DeferredField,
+  pending: DeferredField[],
+  ctx: RollbackContext,
+) => {
+  const { property, unresolved } = remapFieldProperty(
+    item.field.type,
+    item.field.property,
+    resolveTableId(ctx),
+    resolveFieldId(ctx),
+  );
+  if (unresolved.length > 0) {
+    reportUnrebuilt(
+      item,
+      `引用的 ${describeReferences(unresolved, ctx)} 已不存在或未能重建`,
+      ctx,
+    );
+    return;
+  }
+  try {
+    const newFieldId = await item.state.table.addField(
+      toFieldConfig(item.field.type, { name: item.field.name, property }),
+    );
+    recordFieldMapping(item.state, item.field.id, newFieldId, ctx);
+    ctx.outcome.fieldsRestored += 1;
+    ctx.outcome.items.push(
+      fieldItem(item.state, item.field, { status: 'success' }),
+    );
+    if (item.field.type === FieldType.DuplexLink) {
+      await claimDuplexBackField(item, newFieldId, pending, ctx);
+    }
+  } catch (error) {
+    console.error(error);
+    reportUnrebuilt(item, `SDK 报错：${errorMessage(error)}`, ctx, error);
+  }
+};
+
+/**
+ * 循环依赖（典型是两个公式互相引用）：先用不带属性的占位字段拿到新 ID，
+ * 等环上所有字段都有 ID 后再统一写入真正的属性。
+ */
+const breakDependencyCycle = async (
+  cycle: DeferredField[],
+  ctx: RollbackContext,
+) => {
+  const placed: DeferredField[] = [];
+  for (const item of cycle) {
+    try {
+      const newFieldId = await item.state.table.addField(
+        toFieldConfig(item.field.type, { name: item.field.name }),
+      );
+      recordFieldMapping(item.state, item.field.id, newFieldId, ctx);
+      placed.push(item);
+    } catch (error) {
+      console.error(error);
+      reportUnrebuilt(
+        item,
+        `占位字段创建失败：${errorMessage(error)}`,
+        ctx,
+        error,
+      );
+    }
+  }
+  for (const item of placed) {
+    const newFieldId = ctx.fieldIdMap.get(item.field.id) as string;
+    const { property, unresolved } = remapFieldProperty(
+      item.field.type,
+      item.field.property,
+      resolveTableId(ctx),
+      resolveFieldId(ctx),
+    );
+    if (unresolved.length > 0) {
+      reportUnrebuilt(
+        item,
+        `引用的 ${describeReferences(unresolved, ctx)} 已不存在或未能重建，已保留空壳字段`,
+        ctx,
+      );
+      continue;
+    }
+    try {
+      await item.state.table.setField(
+        newFieldId,
+        toFieldConfig(item.field.type, { name: item.field.name, property }),
+      );
+      ctx.outcome.fieldsRestored += 1;
+      ctx.outcome.items.push(
+        fieldItem(item.state, item.field, {
+          status: 'success',
+          message: '循环依赖，先建占位字段再写入属性',
+        }),
+      );
+    } catch (error) {
+      console.error(error);
+      reportUnrebuilt(
+        item,
+        `循环依赖解除后写入属性失败，已保留空壳字段：${errorMessage(error)}`,
+        ctx,
+        error,
+      );
+    }
+  }
+};
+
+/** 第二轮：所有表与普通字段就位后，按依赖顺序重建关联 / 回填 / 公式字段 */
+const rebuildRelationalFields = async (ctx: RollbackContext) => {
+  let pending = [...ctx.deferred];
+  const dependsOnPending = (item: DeferredField) => {
+    const pendingIds = new Set(pending.map((candidate) => candidate.field.id));
+    return extractFieldReferences(item.field.type, item.field.property)
+      .fieldIds.some(
+        (fieldId) => pendingIds.has(fieldId) && fieldId !== item.field.id,
+      );
+  };
+
+  while (pending.length > 0) {
+    // 双向关联的回链可能已在上一步被认领
+    pending = pending.filter((item) => !item.state.fieldIdMap.has(item.field.id));
+    const ready = pending.filter((item) => !dependsOnPending(item));
+    if (ready.length === 0) {
+      if (pending.length > 0) {
+        await breakDependencyCycle(pending, ctx);
+      }
+      return;
+    }
+    for (const item of ready) {
+      if (item.state.fieldIdMap.has(item.field.id)) {
+        continue;
+      }
+      await addRelationalField(item, pending, ctx);
+    }
+    const readyIds = new Set(ready.map((item) => item.field.id));
+    pending = pending.filter((item) => !readyIds.has(item.field.id));
+  }
+};
+
+/** 关联字段的值只在目标表原位保留（记录 ID 未变）时才能写回 */
+const restoreLinkValues = async (
+  states: TableRollbackState[],
+  ctx: RollbackContext,
+) => {
+  for (const state of states) {
+    const linkFieldMap = new Map<string, string>();
+    for (const field of state.tableSnap.fields) {
+      const newFieldId = state.fieldIdMap.get(field.id);
+      const targetTableId = (field.property as { tableId?: string } | null)
+        ?.tableId;
+      if (
+        newFieldId &&
+        (field.type === FieldType.SingleLink ||
+          field.type === FieldType.DuplexLink) &&
+        targetTableId &&
+        ctx.tableIdMap.get(targetTableId) === targetTableId
+      ) {
+        linkFieldMap.set(field.id, newFieldId);
+      }
+    }
+    await restoreTableRecords(
+      state,
+      linkFieldMap,
+      { appendUnmatched: false, fillPrimaryText: false },
+      ctx,
+    );
+  }
+};
+
+export const runRollback = async (
+  snapshot: Snapshot,
+  mode: RollbackMode,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<RollbackOutcome> => {
+  const outcome = createOutcome();
+  const existingTableMetaList = await bitable.base.getTableMetaList();
+  const liveFieldIds = new Set<string>();
+  for (const meta of existingTableMetaList) {
+    const table = await bitable.base.getTableById(meta.id);
+    for (const field of await table.getFieldMetaList()) {
+      liveFieldIds.add(field.id);
+    }
+  }
+  const ctx: RollbackContext = {
+    snapshot,
+    outcome,
+    existingTableNames: new Set<string>(
+      existingTableMetaList.map((meta) => meta.name ?? ''),
+    ),
+    tableIdMap: new Map(),
+    fieldIdMap: new Map(),
+    liveTableIds: new Set(existingTableMetaList.map((meta) => meta.id)),
+    liveFieldIds,
+    deferred: [],
+    onProgress,
+  };
+
+  const states: TableRollbackState[] = [];
+  for (const tableSnap of snapshot.tables) {
+    let state: TableRollbackState | null;
+    if (mode === 'duplicate') {
+      const rollbackTableName = pickFreeTableName(
+        `♻️ ${tableSnap.tableName}`,
+        ctx.existingTableNames,
+      );
+      state = await recreateTable(tableSnap, rollbackTableName, false, ctx);
+    } else {
+      const liveTable =
+        existingTableMetaList.find((meta) => meta.id === tableSnap.tableId) ??
+        existingTableMetaList.find((meta) => meta.name === tableSnap.tableName);
+      state = liveTable
+        ? await patchExistingTable(
+            tableSnap,
+            liveTable.id,
+            liveTable.name ?? tableSnap.tableName,
+            ctx,
+          )
+        : await recreateTable(
+            tableSnap,
+            pickFreeTableName(tableSnap.tableName, ctx.existingTableNames),
+            true,
+            ctx,
+          );
+    }
+    if (state) {
+      states.push(state);
+    }
+  }
+
+  await rebuildRelationalFields(ctx);
+  await restoreLinkValues(states, ctx);
+  // 快照里记下的被删视图，放在字段之后重建，筛选排序才找得到字段
+  outcome.items.push(
+    ...(await recreateViews(
+      (snapshot.views ?? []).filter((view) =>
+        snapshot.tables.some((table) => table.tableId === view.tableId),
+      ),
+      resolveTableId(ctx),
+      resolveFieldId(ctx),
+    )),
+  );
+  return outcome;
+};
+
+/**
+ * 从结构对比里只恢复一项：被删的表 / 字段走原位回滚（带记录备份），
+ * 改名、类型或属性变化则直接把当前对象改回快照里的样子。
+ */
+export const restoreDiffItem = async (
+  snapshot: Snapshot,
+  tableDiff: TableDiff,
+  fieldDiff?: FieldDiff,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<RollbackOutcome> => {
+  const outcome = createOutcome();
+  const sourceTable = tableDiff.before;
+  if (!sourceTable) {
+    outcome.items.push({
+      operation: 'restoreField',
+      status: 'skipped',
+      tableId: tableDiff.after?.tableId,
+      tableName: tableDiff.after?.tableName ?? '无名表',
+      message: '快照中没有这一项，无需恢复',
+    });
+    return outcome;
+  }
+
+  if (!fieldDiff) {
+    if (tableDiff.changes.includes('removed')) {
+      return runRollback(
+        { ...snapshot, tables: [sourceTable], views: undefined },
+        'inPlace',
+        onProgress,
+      );
+    }
+    if (tableDiff.changes.includes('renamed') && tableDiff.after) {
+      const item: ReportItem = {
+        operation: 'renameTable',
+        status: 'success',
+        tableId: sourceTable.tableId,
+        tableName: sourceTable.tableName,
+        message: `由「${tableDiff.after.tableName}」改回`,
+      };
+      try {
+        await bitable.base.setTable(tableDiff.after.tableId, {
+          name: sourceTable.tableName,
+        });
+      } catch (error) {
+        console.error(error);
+        item.status = 'failed';
+        item.error = errorMessage(error);
+      }
+      outcome.items.push(item);
+    }
+    return outcome;
+  }
+
+  const sourceField = fieldDiff.before;
+  if (!sourceField) {
+    outcome.items.push({
+      operation: 'restoreField',
+      status: 'skipped',
+      tableId: sourceTable.tableId,
+      tableName: sourceTable.tableName,
+      fieldId: fieldDiff.after?.id,
+      fieldName: fieldDiff.after?.name,
+      message: '快照中没有这个字段，无需恢复',
+    });
+    return outcome;
+  }
+  if (fieldDiff.changes.includes('removed') || !tableDiff.after) {
+    return runRollback(
+      {
+        ...snapshot,
+        tables: [{ ...sourceTable, fields: [sourceField] }],
+        views: undefined,
+      },
+      'inPlace',
+      onProgress,
+    );
+  }
+  if (fieldDiff.after) {
+    const item: ReportItem = {
+      operation: 'updateField',
+      status: 'success',
+      tableId: sourceTable.tableId,
+      tableName: sourceTable.tableName,
+      fieldId: sourceField.id,
+      fieldName: sourceField.name,
+      message: '改回快照中的名称、类型与属性',
+    };
+    try {
+      const table = await bitable.base.getTableById(tableDiff.after.tableId);
+      await table.setField(
+        fieldDiff.after.id,
+        toFieldConfig(sourceField.type, {
+          name: sourceField.name,
+          property: sourceField.property,
+        }),
+      );
+      outcome.fieldsRestored += 1;
+    } catch (error) {
+      console.error(error);
+      item.status = 'failed';
+      item.error = errorMessage(error);
+    }
+    outcome.items.push(item);
+  }
+  return outcome;
+};
+
+/**
+ * 只恢复一批被删掉的表 / 字段（例如中断的删除任务已完成的部分）：
+ * 从快照里挑出这些目标组成子快照，再走原位回滚。
+ */
+export const restoreDeletedItems = async (
+  snapshot: Snapshot,
+  items: {
+    tableId: string;
+    tableName?: string;
+    fieldId?: string;
+    fieldName?: string;
+  }[],
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<RollbackOutcome> => {
+  const wholeTableIds = new Set(
+    items.filter((item) => !item.fieldId).map((item) => item.tableId),
+  );
+  const fieldIds = new Set(
+    items.map((item) => item.fieldId).filter((id): id is string => !!id),
+  );
+  const tables = snapshot.tables
+    .map((table) =>
+      wholeTableIds.has(table.tableId)
+        ? table
+        : {
+            ...table,
+            fields: table.fields.filter((field) => fieldIds.has(field.id)),
+          },
+    )
+    .filter((table) => table.fields.length > 0);
+  if (tables.length === 0) {
+    const outcome = createOutcome();
+    outcome.items = items.map((item) => ({
+      operation: item.fieldId ? 'restoreField' : 'recreateTable',
+      status: 'failed',
+      tableId: item.tableId,
+      tableName: item.tableName ?? item.tableId,
+      fieldId: item.fieldId,
+      fieldName: item.fieldName,
+      message: '快照中找不到这一项',
+    }));
+    return outcome;
+  }
+  return runRollback(
+    { ...snapshot, tables, views: undefined },
+    'inPlace',
+    onProgress,
+  );
+};
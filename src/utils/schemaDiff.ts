@@ -0,0 +1,195 @@
+import type { SnapshotField, SnapshotTable } from '../types';
+import { stableStringify } from './format';
+
+export type DiffChange =
+  | 'added'
+  | 'removed'
+  | 'renamed'
+  | 'typeChanged'
+  | 'propertyChanged';
+
+export type FieldDiff = {
+  key: string;
+  /** 同一字段可能同时改名又改类型 */
+  changes: DiffChange[];
+  before?: SnapshotField;
+  after?: SnapshotField;
+  matchedBy: 'id' | 'name' | null;
+};
+
+export type TableDiff = {
+  key: string;
+  changes: DiffChange[];
+  before?: SnapshotTable;
+  after?: SnapshotTable;
+  matchedBy: 'id' | 'name' | null;
+  fields: FieldDiff[];
+};
+
+export type SchemaDiffSummary = Record<
+  'tables' | 'fields',
+  Record<DiffChange, number>
+>;
+
+export type SchemaDiff = {
+  tables: TableDiff[];
+  summary: SchemaDiffSummary;
+};
+
+const emptyCounts = (): Record<DiffChange, number> => ({
+  added: 0,
+  removed: 0,
+  renamed: 0,
+  typeChanged: 0,
+  propertyChanged: 0,
+});
+
+/**
+ * 先按 ID 配对，剩下的再按名称配对；名称只在两侧都唯一时才认，
+ * 避免把 “Owner” 和另一张表里同名字段硬凑在一起。
+ */
+const pairItems = <T,>(
+  before: T[],
+  after: T[],
+  getId: (item: T) => string,
+  getName: (item: T) => string,
+) => {
+  const pairs: { before?: T; after?: T; matchedBy: 'id' | 'name' | null }[] =
+    [];
+  const afterById = new Map(after.map((item) => [getId(item), item]));
+  const usedAfter = new Set<T>();
+  const unmatchedBefore: T[] = [];
+
+  for (const item of before) {
+    const match = afterById.get(getId(item));
+    if (match) {
+      pairs.push({ before: item, after: match, matchedBy: 'id' });
+      usedAfter.add(match);
+    } else {
+      unmatchedBefore.push(item);
+    }
+  }
+
+  const restAfter = after.filter((item) => !usedAfter.has(item));
+  const countNames = (items: T[]) => {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+      counts.set(getName(item), (counts.get(getName(item)) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const beforeNames = countNames(unmatchedBefore);
+  const afterNames = countNames(restAfter);
+
+  for (const item of unmatchedBefore) {
+    const name = getName(item);
+    const match =
+      beforeNames.get(name) === 1 && afterNames.get(name) === 1
+        ? restAfter.find((candidate) => getName(candidate) === name)
+        : undefined;
+    if (match) {
+      pairs.push({ before: item, after: match, matchedBy: 'name' });
+      usedAfter.add(match);
+    } else {
+      pairs.push({ before: item, matchedBy: null });
+    }
+  }
+  for (const item of restAfter) {
+    if (!usedAfter.has(item)) {
+      pairs.push({ after: item, matchedBy: null });
+    }
+  }
+  return pairs;
+};
+
+const diffFields = (
+  before: SnapshotField[],
+  after: SnapshotField[],
+): FieldDiff[] =>
+  pairItems(
+    before,
+    after,
+    (field) => field.id,
+    (field) => field.name,
+  ).map(({ before: prev, after: next, matchedBy }) => {
+    const changes: DiffChange[] = [];
+    if (prev && !next) {
+      changes.push('removed');
+    } else if (!prev && next) {
+      changes.push('added');
+    } else if (prev && next) {
+      if (prev.name !== next.name) {
+        changes.push('renamed');
+      }
+      if (prev.type !== next.type) {
+        changes.push('typeChanged');
+      } else if (
+        stableStringify(prev.property ?? null) !==
+        stableStringify(next.property ?? null)
+      ) {
+        changes.push('propertyChanged');
+      }
+    }
+    return {
+      key: `${prev?.id ?? ''}|${next?.id ?? ''}`,
+      changes,
+      before: prev,
+      after: next,
+      matchedBy,
+    };
+  });
+
+/** 对比两份表结构：before 通常是快照，after 是当前 Base 或另一份快照 */
+export const diffSchemas = (
+  before: SnapshotTable[],
+  after: SnapshotTable[],
+): SchemaDiff => {
+  const summary: SchemaDiffSummary = {
+    tables: emptyCounts(),
+    fields: emptyCounts(),
+  };
+  const tables = pairItems(
+    before,
+    after,
+    (table) => table.tableId,
+    (table) => table.tableName,
+  ).map(({ before: prev, after: next, matchedBy }): TableDiff => {
+    const changes: DiffChange[] = [];
+    if (prev && !next) {
+      changes.push('removed');
+    } else if (!prev && next) {
+      changes.push('added');
+    } else if (prev && next && prev.tableName !== next.tableName) {
+      changes.push('renamed');
+    }
+    const fields = diffFields(prev?.fields ?? [], next?.fields ?? []);
+    for (const change of changes) {
+      summary.tables[change] += 1;
+    }
+    // 整表增删时字段变化是连带的，不重复计数
+    if (prev && next) {
+      for (const field of fields) {
+        for (const change of field.changes) {
+          summary.fields[change] += 1;
+        }
+      }
+    }
+    return {
+      key: `${prev?.tableId ?? ''}|${next?.tableId ?? ''}`,
+      changes,
+      before: prev,
+      after: next,
+      matchedBy,
+      fields,
+    };
+  });
+  return { tables, summary };
+};
+
+export const DIFF_CHANGE_LABELS: Record<DiffChange, string> = {
+  added: '新增',
+  removed: '已删除',
+  renamed: '改名',
+  typeChanged: '类型变化',
+  propertyChanged: '属性变化',
+};
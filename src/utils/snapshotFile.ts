@@ -0,0 +1,215 @@
+import type { Snapshot } from '../types';
+import { downloadTextFile } from './download';
+import { stableStringify } from './format';
+import { LEGACY_BRIDGE_SNAPSHOT_KEY, normalizeSnapshot } from './snapshotLibrary';
+
+export const SNAPSHOT_FILE_FORMAT = 'bulkdel.snapshot';
+export const SNAPSHOT_FILE_SCHEMA_VERSION = 1;
+
+export type SnapshotFile = {
+  format: typeof SNAPSHOT_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  checksum: string;
+  snapshot: Snapshot;
+};
+
+export type SnapshotValidationReport = {
+  errors: string[];
+  warnings: string[];
+  /** 触发了迁移时记录原始版本，便于提示用户 */
+  migratedFrom: string | null;
+};
+
+export type SnapshotImportResult =
+  | { ok: true; snapshot: Snapshot; report: SnapshotValidationReport }
+  | { ok: false; report: SnapshotValidationReport };
+
+const canDigest = () =>
+  typeof crypto !== 'undefined' && typeof crypto.subtle?.digest === 'function';
+
+export const computeChecksum = async (snapshot: Snapshot): Promise<string> => {
+  const bytes = new TextEncoder().encode(stableStringify(snapshot));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `sha256:${hex}`;
+};
+
+export const serializeSnapshotFile = async (
+  snapshot: Snapshot,
+): Promise<string> => {
+  const file: SnapshotFile = {
+    format: SNAPSHOT_FILE_FORMAT,
+    schemaVersion: SNAPSHOT_FILE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: canDigest() ? await computeChecksum(snapshot) : '',
+    snapshot,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const buildSnapshotFileName = (snapshot: Snapshot) => {
+  const safeLabel = snapshot.label.replace(/[\\/:*?"<>|\s]+/g, '_');
+  const stamp = snapshot.timestamp.replace(/[:.]/g, '-');
+  return `bulkdel-snapshot_${safeLabel}_${stamp}.json`;
+};
+
+export const downloadSnapshotFile = async (snapshot: Snapshot) => {
+  downloadTextFile(
+    buildSnapshotFileName(snapshot),
+    await serializeSnapshotFile(snapshot),
+    'application/json',
+  );
+};
+
+/** 逐表逐字段检查结构，错误信息带上路径，方便用户定位坏掉的位置 */
+const validateSnapshotShape = (raw: any, errors: string[]) => {
+  if (!raw || typeof raw !== 'object') {
+    errors.push('snapshot 不是对象');
+    return;
+  }
+  if (raw.label !== undefined && typeof raw.label !== 'string') {
+    errors.push('snapshot.label 必须是字符串');
+  }
+  if (
+    raw.timestamp !== undefined &&
+    (typeof raw.timestamp !== 'string' ||
+      Number.isNaN(Date.parse(raw.timestamp)))
+  ) {
+    errors.push('snapshot.timestamp 不是合法的时间');
+  }
+  if (!Array.isArray(raw.tables)) {
+    errors.push('snapshot.tables 缺失或不是数组');
+    return;
+  }
+  raw.tables.forEach((table: any, tableIndex: number) => {
+    const path = `tables[${tableIndex}]`;
+    if (!table || typeof table !== 'object') {
+      errors.push(`${path} 不是对象`);
+      return;
+    }
+    if (typeof table.tableId !== 'string' || !table.tableId) {
+      errors.push(`${path}.tableId 缺失`);
+    }
+    if (typeof table.tableName !== 'string') {
+      errors.push(`${path}.tableName 缺失`);
+    }
+    if (!Array.isArray(table.fields)) {
+      errors.push(`${path}.fields 缺失或不是数组`);
+      return;
+    }
+    table.fields.forEach((field: any, fieldIndex: number) => {
+      const fieldPath = `${path}.fields[${fieldIndex}]`;
+      if (!field || typeof field !== 'object') {
+        errors.push(`${fieldPath} 不是对象`);
+        return;
+      }
+      if (typeof field.id !== 'string' || !field.id) {
+        errors.push(`${fieldPath}.id 缺失`);
+      }
+      if (typeof field.name !== 'string') {
+        errors.push(`${fieldPath}.name 缺失`);
+      }
+      if (typeof field.type !== 'number') {
+        errors.push(`${fieldPath}.type 不是数字`);
+      }
+    });
+  });
+};
+
+/**
+ * 把各代格式迁移成当前的 SnapshotFile 结构：
+ * - 无 format 的裸快照，即 boom.table-shredder.snapshot.v1 时代的 { label, timestamp, tables }
+ * - { key, value } 形式的 bridge 数据导出
+ * - 当前 schemaVersion 的正式导出文件
+ */
+const migrateSnapshotPayload = (
+  payload: any,
+  report: SnapshotValidationReport,
+): { snapshot: any; checksum: string | null } | null => {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    report.errors.push('文件内容不是 JSON 对象');
+    return null;
+  }
+  if (payload.format === SNAPSHOT_FILE_FORMAT) {
+    const version = payload.schemaVersion;
+    if (typeof version !== 'number') {
+      report.errors.push('schemaVersion 缺失');
+      return null;
+    }
+    if (version > SNAPSHOT_FILE_SCHEMA_VERSION) {
+      report.errors.push(
+        `schemaVersion ${version} 比当前插件支持的 ${SNAPSHOT_FILE_SCHEMA_VERSION} 更新，请先升级插件`,
+      );
+      return null;
+    }
+    return {
+      snapshot: payload.snapshot,
+      checksum: typeof payload.checksum === 'string' ? payload.checksum : null,
+    };
+  }
+  if (payload.key === LEGACY_BRIDGE_SNAPSHOT_KEY && 'value' in payload) {
+    report.migratedFrom = LEGACY_BRIDGE_SNAPSHOT_KEY;
+    return { snapshot: payload.value, checksum: null };
+  }
+  if (Array.isArray(payload.snapshots)) {
+    report.errors.push('这是整个快照库的数据，请导出单份快照后再导入');
+    return null;
+  }
+  if (Array.isArray(payload.tables)) {
+    report.migratedFrom = LEGACY_BRIDGE_SNAPSHOT_KEY;
+    return { snapshot: payload, checksum: null };
+  }
+  report.errors.push('无法识别的快照文件格式');
+  return null;
+};
+
+export const parseSnapshotFile = async (
+  text: string,
+): Promise<SnapshotImportResult> => {
+  const report: SnapshotValidationReport = {
+    errors: [],
+    warnings: [],
+    migratedFrom: null,
+  };
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch (error) {
+    report.errors.push(`JSON 解析失败：${(error as Error).message}`);
+    return { ok: false, report };
+  }
+
+  const migrated = migrateSnapshotPayload(payload, report);
+  if (!migrated) {
+    return { ok: false, report };
+  }
+  validateSnapshotShape(migrated.snapshot, report.errors);
+  if (report.errors.length > 0) {
+    return { ok: false, report };
+  }
+
+  const snapshot = normalizeSnapshot(migrated.snapshot);
+  if (!snapshot) {
+    report.errors.push('快照内容无法还原');
+    return { ok: false, report };
+  }
+
+  if (migrated.checksum === null) {
+    report.warnings.push('旧版快照没有校验和，无法确认文件未被改动');
+  } else if (!migrated.checksum) {
+    report.warnings.push('导出时环境不支持计算校验和，已跳过校验');
+  } else if (!canDigest()) {
+    report.warnings.push('当前环境不支持 SHA-256，已跳过校验和比对');
+  } else {
+    const expected = await computeChecksum(migrated.snapshot as Snapshot);
+    if (expected !== migrated.checksum) {
+      report.errors.push('校验和不匹配，文件可能已损坏或被手动改动');
+      return { ok: false, report };
+    }
+  }
+
+  return { ok: true, snapshot, report };
+};
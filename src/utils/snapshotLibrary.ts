@@ -0,0 +1,211 @@
+import type { IFieldMeta, ITableMeta } from '@lark-base-open/js-sdk';
+import type {
+  Snapshot,
+  SnapshotKind,
+  SnapshotLibrary,
+  SnapshotRetention,
+  SnapshotTable,
+} from '../types';
+import { cloneJson } from './format';
+
+export const LEGACY_LOCAL_STORAGE_KEY = 'boom-table-shredder-snapshot';
+export const LEGACY_BRIDGE_SNAPSHOT_KEY = 'boom.table-shredder.snapshot.v1';
+export const LOCAL_STORAGE_LIBRARY_KEY = 'boom-table-shredder-snapshot-library';
+export const BRIDGE_LIBRARY_KEY = 'boom.table-shredder.snapshot-library.v2';
+
+export const DEFAULT_RETENTION: SnapshotRetention = { keepUnpinned: 20 };
+
+export const createEmptyLibrary = (): SnapshotLibrary => ({
+  version: 2,
+  snapshots: [],
+  retention: { ...DEFAULT_RETENTION },
+});
+
+export const createSnapshotId = () =>
+  `snap_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/** 把 SDK 的表 / 字段元信息转成快照里的结构，快照与结构对比共用 */
+export const toSnapshotTable = (
+  meta: ITableMeta,
+  fields: IFieldMeta[],
+): SnapshotTable => ({
+  tableId: meta.id,
+  tableName: meta.name ?? '无名表',
+  fields: fields.map((field) => ({
+    id: field.id,
+    name: field.name ?? '无名字段',
+    type: field.type,
+    isPrimary: field.isPrimary === true,
+    property: cloneJson(field.property),
+  })),
+});
+
+export const countSnapshotFields = (tables: SnapshotTable[]) =>
+  tables.reduce((sum, table) => sum + table.fields.length, 0);
+
+export const buildSnapshot = (
+  kind: SnapshotKind,
+  label: string,
+  tables: SnapshotTable[],
+): Snapshot => ({
+  id: createSnapshotId(),
+  kind,
+  label,
+  timestamp: new Date().toISOString(),
+  pinned: false,
+  tableCount: tables.length,
+  fieldCount: countSnapshotFields(tables),
+  tables,
+});
+
+/**
+ * 把任意来源（旧版单快照、缺字段的新版快照）补齐为完整的 Snapshot，
+ * 无法识别时返回 null。
+ */
+export const normalizeSnapshot = (raw: any): Snapshot | null => {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.tables)) {
+    return null;
+  }
+  const tables = raw.tables as SnapshotTable[];
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createSnapshotId(),
+    kind: raw.kind === 'manual' ? 'manual' : 'auto',
+    label: typeof raw.label === 'string' ? raw.label : '未命名快照',
+    timestamp:
+      typeof raw.timestamp === 'string'
+        ? raw.timestamp
+        : new Date().toISOString(),
+    pinned: raw.pinned === true,
+    tableCount: tables.length,
+    fieldCount: countSnapshotFields(tables),
+    tables,
+    recordBackup:
+      raw.recordBackup && Array.isArray(raw.recordBackup.tables)
+        ? raw.recordBackup
+        : undefined,
+    views: Array.isArray(raw.views) ? raw.views : undefined,
+  };
+};
+
+const sortByNewest = (snapshots: Snapshot[]) =>
+  [...snapshots].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+/** 置顶快照永远保留，未置顶的只保留最新的 keepUnpinned 份 */
+export const applyRetention = (library: SnapshotLibrary): SnapshotLibrary => {
+  const sorted = sortByNewest(library.snapshots);
+  const limit = library.retention.keepUnpinned;
+  if (limit === null) {
+    return { ...library, snapshots: sorted };
+  }
+  let unpinnedKept = 0;
+  const snapshots = sorted.filter((snap) => {
+    if (snap.pinned) {
+      return true;
+    }
+    unpinnedKept += 1;
+    return unpinnedKept <= limit;
+  });
+  return { ...library, snapshots };
+};
+
+export const addSnapshot = (
+  library: SnapshotLibrary,
+  snapshot: Snapshot,
+): SnapshotLibrary =>
+  applyRetention({
+    ...library,
+    snapshots: [
+      snapshot,
+      ...library.snapshots.filter((item) => item.id !== snapshot.id),
+    ],
+  });
+
+export const updateSnapshot = (
+  library: SnapshotLibrary,
+  snapshotId: string,
+  patch: Partial<
+    Pick<Snapshot, 'label' | 'pinned' | 'recordBackup' | 'views'>
+  >,
+): SnapshotLibrary =>
+  applyRetention({
+    ...library,
+    snapshots: library.snapshots.map((item) =>
+      item.id === snapshotId ? { ...item, ...patch } : item,
+    ),
+  });
+
+export const removeSnapshot = (
+  library: SnapshotLibrary,
+  snapshotId: string,
+): SnapshotLibrary => ({
+  ...library,
+  snapshots: library.snapshots.filter((item) => item.id !== snapshotId),
+});
+
+export const setRetention = (
+  library: SnapshotLibrary,
+  retention: SnapshotRetention,
+): SnapshotLibrary => applyRetention({ ...library, retention });
+
+/**
+ * 兼容三种历史形态：新版快照库、旧版单快照、空值。
+ * 旧版单快照会被收编为快照库中的第一份。
+ */
+export const normalizeLibrary = (raw: any): SnapshotLibrary | null => {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  if (Array.isArray(raw.snapshots)) {
+    const keepUnpinned = raw.retention?.keepUnpinned;
+    return applyRetention({
+      version: 2,
+      snapshots: (raw.snapshots as unknown[])
+        .map(normalizeSnapshot)
+        .filter((snap): snap is Snapshot => snap !== null),
+      retention: {
+        keepUnpinned:
+          keepUnpinned === null || typeof keepUnpinned === 'number'
+            ? keepUnpinned
+            : DEFAULT_RETENTION.keepUnpinned,
+      },
+    });
+  }
+  const legacy = normalizeSnapshot(raw);
+  if (!legacy) {
+    return null;
+  }
+  return addSnapshot(createEmptyLibrary(), legacy);
+};
+
+export const loadPersistedLibrary = (): SnapshotLibrary | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const raw =
+      window.localStorage.getItem(LOCAL_STORAGE_LIBRARY_KEY) ??
+      window.localStorage.getItem(LEGACY_LOCAL_STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+    return normalizeLibrary(JSON.parse(raw));
+  } catch (error) {
+    console.error('读取快照缓存失败', error);
+    return null;
+  }
+};
+
+export const persistLibrary = (library: SnapshotLibrary) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  try {
+    window.localStorage.setItem(
+      LOCAL_STORAGE_LIBRARY_KEY,
+      JSON.stringify(library),
+    );
+    window.localStorage.removeItem(LEGACY_LOCAL_STORAGE_KEY);
+  } catch (error) {
+    console.error('写入快照缓存失败', error);
+  }
+};
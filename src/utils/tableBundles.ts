@@ -0,0 +1,21 @@
+import { bitable, ITableMeta } from '@lark-base-open/js-sdk';
+import type { TableBundle } from '../types';
+
+/** 读取当前 Base 所有表及其字段、视图元数据 */
+export const loadTableBundles = async (): Promise<TableBundle[]> => {
+  const metaList = await bitable.base.getTableMetaList();
+  return Promise.all(
+    metaList.map(async (meta: ITableMeta): Promise<TableBundle> => {
+      const table = await bitable.base.getTableById(meta.id);
+      const [fieldMetaList, viewMetaList] = await Promise.all([
+        table.getFieldMetaList(),
+        table.getViewMetaList(),
+      ]);
+      return {
+        meta,
+        fields: fieldMetaList,
+        views: viewMetaList,
+      };
+    }),
+  );
+};
@@ -0,0 +1,348 @@
+import {
+  bitable,
+  FieldType,
+  IFieldMeta,
+  IOpenCellValue,
+} from '@lark-base-open/js-sdk';
+import type { Snapshot } from '../types';
+import { isEmptyCell } from './fieldUsage';
+import {
+  FieldConfigOf,
+  getFieldTypeLabel,
+  toFieldConfig,
+} from './fieldTypes';
+import type { ReportItem } from './operationReport';
+import { cellToText, RECORD_CHUNK_SIZE } from './recordBackup';
+
+export type ConvertibleFieldType =
+  | FieldType.Text
+  | FieldType.Number
+  | FieldType.Currency
+  | FieldType.Progress
+  | FieldType.Rating
+  | FieldType.SingleSelect
+  | FieldType.MultiSelect
+  | FieldType.DateTime
+  | FieldType.Checkbox
+  | FieldType.Url
+  | FieldType.Phone
+  | FieldType.Email
+  | FieldType.Barcode;
+
+/** 上面这些类型对应的 setField 配置，type 和 property 配不上时类型检查就会报错 */
+type ConvertibleFieldConfig = FieldConfigOf<ConvertibleFieldType>;
+
+/** 能互相转换的普通类型；关联、附件、成员和计算字段都不碰 */
+export const CONVERTIBLE_FIELD_TYPES: ConvertibleFieldType[] = [
+  FieldType.Text,
+  FieldType.Number,
+  FieldType.Currency,
+  FieldType.Progress,
+  FieldType.Rating,
+  FieldType.SingleSelect,
+  FieldType.MultiSelect,
+  FieldType.DateTime,
+  FieldType.Checkbox,
+  FieldType.Url,
+  FieldType.Phone,
+  FieldType.Email,
+  FieldType.Barcode,
+];
+
+/** 索引列只能是这几种类型 */
+const PRIMARY_FIELD_TYPES = new Set<FieldType>([
+  FieldType.Text,
+  FieldType.Number,
+  FieldType.DateTime,
+  FieldType.Url,
+  FieldType.Phone,
+  FieldType.Email,
+  FieldType.Barcode,
+]);
+
+const NUMERIC_TYPES = new Set<FieldType>([
+  FieldType.Number,
+  FieldType.Currency,
+  FieldType.Progress,
+  FieldType.Rating,
+]);
+
+const TEXT_TYPES = new Set<FieldType>([
+  FieldType.Text,
+  FieldType.Url,
+  FieldType.Phone,
+  FieldType.Email,
+  FieldType.Barcode,
+]);
+
+/** 文本类目标类型的格式要求，不符合的值会被宿主丢掉 */
+const TEXT_FORMATS: Partial<Record<FieldType, RegExp>> = {
+  [FieldType.Email]: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  [FieldType.Phone]: /^\+?[\d\s()-]{3,}$/,
+  [FieldType.Url]: /^(https?:\/\/|www\.)\S+$/i,
+};
+
+const TRUTHY_TEXTS = new Set(['true', '1', '是', 'yes', 'y', '√', '✓']);
+const FALSY_TEXTS = new Set(['false', '0', '否', 'no', 'n', '未勾选']);
+
+const SPLIT_PATTERN = /[,，、;；]/;
+
+export type ValueOutcome = 'kept' | 'changed' | 'lost';
+
+export const VALUE_OUTCOME_LABELS: Record<ValueOutcome, string> = {
+  kept: '不变',
+  changed: '会变',
+  lost: '会丢失',
+};
+
+export type ValuePrediction = {
+  outcome: ValueOutcome;
+  before: string;
+  after: string;
+};
+
+export type ConversionSample = {
+  sampled: number;
+  /** 样本里非空的单元格数，预测只统计这些 */
+  filled: number;
+  counts: Record<ValueOutcome, number>;
+  /** 会变或会丢失的前几个例子 */
+  examples: ValuePrediction[];
+};
+
+export type ConversionChange = {
+  tableId: string;
+  tableName: string;
+  fieldId: string;
+  fieldName: string;
+  fromType: FieldType;
+  toType: ConvertibleFieldType;
+};
+
+const EXAMPLE_LIMIT = 5;
+
+export const isConvertibleFieldType = (
+  type: FieldType,
+): type is ConvertibleFieldType =>
+  (CONVERTIBLE_FIELD_TYPES as FieldType[]).includes(type);
+
+/** 不能转换时返回原因 */
+export const getConversionBlocker = (
+  field: IFieldMeta,
+  toType: ConvertibleFieldType,
+): string | null => {
+  if (!isConvertibleFieldType(field.type)) {
+    return `「${getFieldTypeLabel(field.type)}」类型不支持转换`;
+  }
+  if (field.type === toType) {
+    return '已经是这个类型';
+  }
+  if (field.isPrimary && !PRIMARY_FIELD_TYPES.has(toType)) {
+    return `索引列不能是「${getFieldTypeLabel(toType)}」`;
+  }
+  return null;
+};
+
+const parseNumber = (input: string) =>
+  Number(input.replace(/[,，\s¥$€£%]/g, ''));
+
+const toNumberText = (value: number) => String(Math.round(value * 1e6) / 1e6);
+
+const predict = (
+  outcome: ValueOutcome,
+  before: string,
+  after: string,
+): ValuePrediction => ({
+  outcome: outcome === 'changed' && before === after ? 'kept' : outcome,
+  before,
+  after,
+});
+
+/**
+ * 估计一个单元格转换后的样子。宿主的实际转换规则不公开，
+ * 这里按常见行为粗略判断，宁可多报“会变”也不漏报“会丢失”。
+ */
+export const predictValue = (
+  value: IOpenCellValue,
+  fromType: FieldType,
+  toType: FieldType,
+): ValuePrediction => {
+  const before = cellToText(value);
+  if (TEXT_TYPES.has(toType)) {
+    const pattern = TEXT_FORMATS[toType];
+    if (pattern && !pattern.test(before)) {
+      return predict('lost', before, '');
+    }
+    return predict(
+      TEXT_TYPES.has(fromType) ? 'kept' : 'changed',
+      before,
+      before,
+    );
+  }
+  if (NUMERIC_TYPES.has(toType)) {
+    const number = typeof value === 'number' ? value : parseNumber(before);
+    if (!Number.isFinite(number)) {
+      return predict('lost', before, '');
+    }
+    if (toType === FieldType.Rating) {
+      const rating = Math.min(5, Math.max(0, Math.round(number)));
+      return predict('changed', before, String(rating));
+    }
+    return predict('changed', before, toNumberText(number));
+  }
+  if (toType === FieldType.Checkbox) {
+    const lowered = before.trim().toLowerCase();
+    if (TRUTHY_TEXTS.has(lowered)) {
+      return predict('changed', before, '已勾选');
+    }
+    if (FALSY_TEXTS.has(lowered)) {
+      return predict('changed', before, '未勾选');
+    }
+    return predict('lost', before, '未勾选');
+  }
+  if (toType === FieldType.DateTime) {
+    const time =
+      typeof value === 'number'
+        ? value
+        : Date.parse(before.replace(/\//g, '-'));
+    if (!Number.isFinite(time)) {
+      return predict('lost', before, '');
+    }
+    const after = new Date(time).toISOString().slice(0, 10);
+    return predict(
+      fromType === FieldType.DateTime ? 'kept' : 'changed',
+      before,
+      after,
+    );
+  }
+  if (toType === FieldType.SingleSelect) {
+    if (Array.isArray(value) && value.length > 1) {
+      return predict('changed', before, cellToText(value[0] as IOpenCellValue));
+    }
+    return predict('kept', before, before);
+  }
+  if (toType === FieldType.MultiSelect) {
+    const parts = before
+      .split(SPLIT_PATTERN)
+      .map((part) => part.trim())
+      .filter(Boolean);
+    return predict(
+      parts.length > 1 ? 'changed' : 'kept',
+      before,
+      parts.join('、'),
+    );
+  }
+  return predict('changed', before, before);
+};
+
+/** 读表的第一页当样本，逐个字段预测转换结果 */
+export const sampleConversion = async (
+  tableId: string,
+  fields: IFieldMeta[],
+  toType: ConvertibleFieldType,
+  sampleSize = RECORD_CHUNK_SIZE,
+): Promise<Record<string, ConversionSample>> => {
+  const table = await bitable.base.getTableById(tableId);
+  const { records } = await table.getRecordsByPage({ pageSize: sampleSize });
+  const samples: Record<string, ConversionSample> = {};
+  for (const field of fields) {
+    const sample: ConversionSample = {
+      sampled: records.length,
+      filled: 0,
+      counts: { kept: 0, changed: 0, lost: 0 },
+      examples: [],
+    };
+    for (const record of records) {
+      const value = record.fields[field.id];
+      if (isEmptyCell(value) || value === null || value === undefined) {
+        continue;
+      }
+      const prediction = predictValue(value, field.type, toType);
+      sample.filled += 1;
+      sample.counts[prediction.outcome] += 1;
+      if (
+        prediction.outcome !== 'kept' &&
+        sample.examples.length < EXAMPLE_LIMIT
+      ) {
+        sample.examples.push(prediction);
+      }
+    }
+    samples[field.id] = sample;
+  }
+  return samples;
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/** 逐个字段改类型，属性交给宿主按新类型生成默认值 */
+export const convertFieldTypes = async (
+  changes: ConversionChange[],
+): Promise<ReportItem[]> => {
+  const items: ReportItem[] = [];
+  for (const change of changes) {
+    const item: ReportItem = {
+      operation: 'updateField',
+      status: 'success',
+      tableId: change.tableId,
+      tableName: change.tableName,
+      fieldId: change.fieldId,
+      fieldName: change.fieldName,
+      message: `「${getFieldTypeLabel(change.fromType)}」转为「${
+        getFieldTypeLabel(change.toType)
+      }」`,
+    };
+    try {
+      const table = await bitable.base.getTableById(change.tableId);
+      const config: ConvertibleFieldConfig = { type: change.toType };
+      await table.setField(change.fieldId, config);
+    } catch (error) {
+      console.error(error);
+      item.status = 'failed';
+      item.error = errorMessage(error);
+    }
+    items.push(item);
+  }
+  return items;
+};
+
+/** 按快照里记下的原类型和属性把字段改回去；值由调用方再从记录备份写回 */
+export const revertConversions = async (
+  snapshot: Snapshot,
+  changes: ConversionChange[],
+): Promise<ReportItem[]> => {
+  const items: ReportItem[] = [];
+  for (const change of changes) {
+    const original = snapshot.tables
+      .find((table) => table.tableId === change.tableId)
+      ?.fields.find((field) => field.id === change.fieldId);
+    const item: ReportItem = {
+      operation: 'updateField',
+      status: 'success',
+      tableId: change.tableId,
+      tableName: change.tableName,
+      fieldId: change.fieldId,
+      fieldName: change.fieldName,
+      message: `改回「${getFieldTypeLabel(change.fromType)}」`,
+    };
+    if (!original || !isConvertibleFieldType(original.type)) {
+      item.status = 'skipped';
+      item.message = '快照里没有这个字段的原始类型';
+      items.push(item);
+      continue;
+    }
+    try {
+      const table = await bitable.base.getTableById(change.tableId);
+      await table.setField(
+        change.fieldId,
+        toFieldConfig(original.type, { property: original.property }),
+      );
+    } catch (error) {
+      console.error(error);
+      item.status = 'failed';
+      item.error = errorMessage(error);
+    }
+    items.push(item);
+  }
+  return items;
+};
@@ -0,0 +1,343 @@
+import {
+  bitable,
+  FilterConjunction,
+  FilterInfoCondition,
+  ICalendarView,
+  IFieldMeta,
+  IFilterInfo,
+  IGalleryView,
+  IGanttView,
+  IGridView,
+  IGroupInfo,
+  IKanbanView,
+  ISortInfo,
+  IView,
+  IViewMeta,
+  ViewType,
+} from '@lark-base-open/js-sdk';
+import type { SnapshotView, TableBundle } from '../types';
+import { cloneJson } from './format';
+import type { ReportItem } from './operationReport';
+
+export const VIEW_TYPE_LABELS: Partial<Record<ViewType, string>> = {
+  [ViewType.Grid]: '表格',
+  [ViewType.Kanban]: '看板',
+  [ViewType.Form]: '表单',
+  [ViewType.Gallery]: '画册',
+  [ViewType.Gantt]: '甘特',
+  [ViewType.Hierarchy]: '层级',
+  [ViewType.Calendar]: '日历',
+  [ViewType.WidgetView]: '插件',
+  [ViewType.NotSupport]: '暂不支持',
+};
+
+export const getViewTypeLabel = (type: ViewType) =>
+  VIEW_TYPE_LABELS[type] ?? `视图 ${type}`;
+
+/** 视图在面板里的选择键，跨表唯一 */
+export const viewKey = (tableId: string, viewId: string) =>
+  `${tableId}:${viewId}`;
+
+/** 各类视图 property 里可能带的三项，日历只有筛选、看板和画册没有分组 */
+type ViewSettings = {
+  filterInfo?: IFilterInfo | null;
+  sortInfo?: ISortInfo[];
+  groupInfo?: IGroupInfo[];
+};
+
+type FilterableView =
+  | IGridView
+  | IKanbanView
+  | IGalleryView
+  | IGanttView
+  | ICalendarView;
+type SortableView = IGridView | IKanbanView | IGalleryView | IGanttView;
+type GroupableView = IGridView | IGanttView;
+
+const FILTERABLE_VIEW_TYPES = new Set<ViewType>([
+  ViewType.Grid,
+  ViewType.Kanban,
+  ViewType.Gallery,
+  ViewType.Gantt,
+  ViewType.Calendar,
+]);
+const SORTABLE_VIEW_TYPES = new Set<ViewType>([
+  ViewType.Grid,
+  ViewType.Kanban,
+  ViewType.Gallery,
+  ViewType.Gantt,
+]);
+const GROUPABLE_VIEW_TYPES = new Set<ViewType>([ViewType.Grid, ViewType.Gantt]);
+
+/**
+ * getViewById 只给出基础 IView，对象上没有可供收窄的类型字段，
+ * 能力由宿主按 getType() 的实际类型挂上，所以查过类型后在这里显式转换。
+ */
+const asFilterable = (view: IView, type: ViewType) =>
+  FILTERABLE_VIEW_TYPES.has(type) ? (view as FilterableView) : null;
+const asSortable = (view: IView, type: ViewType) =>
+  SORTABLE_VIEW_TYPES.has(type) ? (view as SortableView) : null;
+const asGroupable = (view: IView, type: ViewType) =>
+  GROUPABLE_VIEW_TYPES.has(type) ? (view as GroupableView) : null;
+
+export type ViewSummary = {
+  filter: string | null;
+  sort: string | null;
+  group: string | null;
+};
+
+/** 把视图 property 里的筛选、排序、分组翻成一句话；视图类型不支持的项为 null */
+export const describeViewSettings = (
+  view: IViewMeta,
+  fields: IFieldMeta[],
+): ViewSummary => {
+  const settings = (view.property ?? {}) as ViewSettings;
+  const fieldName = (fieldId: string) =>
+    fields.find((field) => field.id === fieldId)?.name ?? '已删字段';
+  const describeOrder = (items?: ISortInfo[]) =>
+    items && items.length > 0
+      ? items
+          .map((item) => `${fieldName(item.fieldId)}${item.desc ? '↓' : '↑'}`)
+          .join('、')
+      : null;
+  const conditions = settings.filterInfo?.conditions ?? [];
+  const conjunction =
+    settings.filterInfo?.conjunction === FilterConjunction.Or ? '任一' : '全部';
+  const filterFields = [
+    ...new Set(conditions.map((item) => fieldName(item.fieldId))),
+  ].join('、');
+  return {
+    filter: conditions.length > 0 ? `${conjunction}：${filterFields}` : null,
+    sort: describeOrder(settings.sortInfo),
+    group: describeOrder(settings.groupInfo),
+  };
+};
+
+/** 名称匹配：带 * 时按通配符整名匹配，否则按包含匹配，都不区分大小写 */
+export const matchViewName = (name: string, pattern: string) => {
+  const trimmed = pattern.trim().toLowerCase();
+  if (!trimmed) {
+    return false;
+  }
+  if (!trimmed.includes('*')) {
+    return name.toLowerCase().includes(trimmed);
+  }
+  const source = trimmed
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(name.toLowerCase());
+};
+
+export type ViewTarget = {
+  bundle: TableBundle;
+  view: IViewMeta;
+};
+
+/** 删除前读一遍配置存进快照；可见字段读不到就算了，不影响删除 */
+export const captureViewConfigs = async (
+  targets: ViewTarget[],
+): Promise<SnapshotView[]> => {
+  const configs: SnapshotView[] = [];
+  for (const { bundle, view } of targets) {
+    let visibleFieldIds: string[] | undefined;
+    try {
+      const table = await bitable.base.getTableById(bundle.meta.id);
+      const live = await table.getViewById(view.id);
+      visibleFieldIds = await live.getVisibleFieldIdList();
+    } catch (error) {
+      console.warn('读取视图可见字段失败', view.id, error);
+    }
+    configs.push({
+      id: view.id,
+      tableId: bundle.meta.id,
+      tableName: bundle.meta.name || '无名表',
+      name: view.name,
+      type: view.type,
+      property: cloneJson(view.property),
+      visibleFieldIds,
+    });
+  }
+  return configs;
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/** 逐个删除；一张表的视图全选时留下第一个，宿主不允许删光 */
+export const deleteViews = async (
+  targets: ViewTarget[],
+): Promise<ReportItem[]> => {
+  const items: ReportItem[] = [];
+  const keptTables = new Set<string>();
+  for (const { bundle, view } of targets) {
+    const item: ReportItem = {
+      operation: 'deleteView',
+      status: 'success',
+      tableId: bundle.meta.id,
+      tableName: bundle.meta.name || '无名表',
+      message: `视图「${view.name}」`,
+    };
+    const selectedInTable = targets.filter(
+      (target) => target.bundle.meta.id === bundle.meta.id,
+    ).length;
+    if (
+      selectedInTable >= bundle.views.length &&
+      !keptTables.has(bundle.meta.id)
+    ) {
+      keptTables.add(bundle.meta.id);
+      item.status = 'skipped';
+      item.message = `视图「${view.name}」：表里至少要留一个视图`;
+      items.push(item);
+      continue;
+    }
+    try {
+      const table = await bitable.base.getTableById(bundle.meta.id);
+      await table.deleteView(view.id);
+    } catch (error) {
+      console.error(error);
+      item.status = 'failed';
+      item.error = errorMessage(error);
+    }
+    items.push(item);
+  }
+  return items;
+};
+
+const pickFreeViewName = (preferred: string, taken: Set<string>) => {
+  let name = preferred;
+  let suffix = 1;
+  while (taken.has(name)) {
+    name = `${preferred} (${suffix})`;
+    suffix += 1;
+  }
+  taken.add(name);
+  return name;
+};
+
+/**
+ * 按快照重建已经不在的视图，再尽量补回筛选、排序、分组和隐藏字段。
+ * 配置只是尽力而为：引用的字段找不到就跳过那一项，视图本身照样建出来。
+ */
+export const recreateViews = async (
+  views: SnapshotView[],
+  resolveTableId: (tableId: string) => string | undefined,
+  resolveFieldId: (fieldId: string) => string | undefined,
+): Promise<ReportItem[]> => {
+  const items: ReportItem[] = [];
+  for (const snap of views) {
+    const item: ReportItem = {
+      operation: 'restoreView',
+      status: 'success',
+      tableId: snap.tableId,
+      tableName: snap.tableName,
+      message: `视图「${snap.name}」`,
+    };
+    const tableId = resolveTableId(snap.tableId);
+    if (!tableId) {
+      item.status = 'failed';
+      item.message = `视图「${snap.name}」：所在表没能恢复`;
+      items.push(item);
+      continue;
+    }
+    try {
+      const table = await bitable.base.getTableById(tableId);
+      const liveViews = await table.getViewMetaList();
+      if (liveViews.some((view) => view.id === snap.id)) {
+        item.status = 'skipped';
+        item.message = `视图「${snap.name}」仍在，保持原样`;
+        items.push(item);
+        continue;
+      }
+      const name = pickFreeViewName(
+        snap.name,
+        new Set(liveViews.map((view) => view.name)),
+      );
+      const { viewId } = await table.addView({ name, type: snap.type });
+      const view = await table.getViewById(viewId);
+      // 宿主可能按自己的规则落成别的类型，按实际类型决定能补哪些配置
+      const viewType = await view.getType();
+      const missed: string[] = [];
+      const settings = (snap.property ?? {}) as ViewSettings;
+      const remapOrder = (list?: ISortInfo[]) =>
+        (list ?? []).flatMap((entry) => {
+          const fieldId = resolveFieldId(entry.fieldId);
+          return fieldId ? [{ ...entry, fieldId }] : [];
+        });
+      const conditions = (settings.filterInfo?.conditions ?? []).flatMap(
+        ({ conditionId, ...condition }) => {
+          const fieldId = resolveFieldId(condition.fieldId);
+          return fieldId
+            ? [{ ...condition, fieldId } as FilterInfoCondition]
+            : [];
+        },
+      );
+      const apply = async (label: string, run: () => Promise<unknown>) => {
+        try {
+          await run();
+        } catch (error) {
+          console.warn(`重建视图的${label}失败`, snap.name, error);
+          missed.push(label);
+        }
+      };
+      const conjunction =
+        settings.filterInfo?.conjunction ?? FilterConjunction.And;
+      const filterable = asFilterable(view, viewType);
+      if (conditions.length > 0) {
+        if (filterable) {
+          await apply('筛选', async () => {
+            await filterable.setFilterConjunction(conjunction);
+            await filterable.addFilterCondition(conditions);
+          });
+        } else {
+          missed.push('筛选');
+        }
+      }
+      const sortInfo = remapOrder(settings.sortInfo);
+      const sortable = asSortable(view, viewType);
+      if (sortInfo.length > 0) {
+        if (sortable) {
+          await apply('排序', () => sortable.addSort(sortInfo));
+        } else {
+          missed.push('排序');
+        }
+      }
+      const groupInfo = remapOrder(settings.groupInfo);
+      const groupable = asGroupable(view, viewType);
+      if (groupInfo.length > 0) {
+        if (groupable) {
+          await apply('分组', () => groupable.addGroup(groupInfo));
+        } else {
+          missed.push('分组');
+        }
+      }
+      if (snap.visibleFieldIds) {
+        const visible = new Set(
+          snap.visibleFieldIds.flatMap((fieldId) => {
+            const mapped = resolveFieldId(fieldId);
+            return mapped ? [mapped] : [];
+          }),
+        );
+        await apply('隐藏字段', async () => {
+          for (const field of await table.getFieldMetaList()) {
+            if (!field.isPrimary && !visible.has(field.id)) {
+              await view.hideField(field.id);
+            }
+          }
+        });
+      }
+      if (name !== snap.name) {
+        item.message = `视图「${snap.name}」已重名，重建为「${name}」`;
+      }
+      if (missed.length > 0) {
+        item.message = `${item.message}；${missed.join('、')}没能恢复`;
+      }
+    } catch (error) {
+      console.error(error);
+      item.status = 'failed';
+      item.error = errorMessage(error);
+    }
+    items.push(item);
+  }
+  return items;
+};